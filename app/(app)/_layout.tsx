@@ -47,6 +47,7 @@ export default function AppLayout() {
       }}
     >
       <Stack.Screen name="profile" />
+      <Stack.Screen name="user/[id]" />
       <Stack.Screen
         name="results"
         options={{ animation: "slide_from_bottom" }}
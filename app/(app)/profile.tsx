@@ -32,7 +32,7 @@ import * as ImagePicker from "expo-image-picker";
 import { LinearGradient } from "expo-linear-gradient";
 import { useAuth } from "../../contexts/AuthContext";
 import { useRevenueCat } from "../../contexts/RevenueCatContext";
-import { supabase } from "../../lib/supabase";
+import { supabase, getSpendableCredits } from "../../lib/supabase";
 import { Avatar } from "../../components/Avatar";
 import {
   Camera,
@@ -44,11 +44,15 @@ import {
   ImageIcon,
   Vibrate,
   Lock,
+  EyeOff,
 } from "lucide-react-native";
 import { HeaderButton } from "../../components/HeaderButton";
+import { CreditHistory } from "../../components/CreditHistory";
 import { useBiometricLock } from "../../contexts/BiometricLockContext";
 import { getHapticsEnabled, setHapticsEnabled } from "../../lib/haptic-settings";
 import { authenticateWithBiometrics } from "../../lib/biometrics";
+import { getImagesForCredits } from "../../lib/preset-registry";
+import { usePresetRegistry } from "../../hooks/usePresetRegistry";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 
@@ -76,7 +80,9 @@ export default function ProfileScreen() {
     purchasePackage,
     isPurchasing,
     isAvailable: isRevenueCatAvailable,
+    getCatalogProduct,
   } = useRevenueCat();
+  const registry = usePresetRegistry();
   const {
     isAvailable: isBiometricAvailable,
     isEnabled: isBiometricEnabled,
@@ -96,11 +102,14 @@ export default function ProfileScreen() {
   const [isLoadingProfile, setIsLoadingProfile] = useState(true);
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
+  const [bio, setBio] = useState("");
+  const [hideFromFeed, setHideFromFeed] = useState(false);
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
 
   // Edit sheet state
   const [editFirstName, setEditFirstName] = useState("");
   const [editLastName, setEditLastName] = useState("");
+  const [editBio, setEditBio] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
 
@@ -146,13 +155,17 @@ export default function ProfileScreen() {
 
   // Derived values
   const userEmail = user?.email || "";
-  const totalCredits =
-    (credits?.free_credits || 0) + (credits?.image_credits || 0);
+  const totalCredits = getSpendableCredits(credits);
+  const photosAvailable = getImagesForCredits(registry, totalCredits);
 
-  // Get first available package for direct purchase
-  const firstPackage = offerings?.availablePackages?.[0];
+  // Get first available credit pack for direct purchase
+  const firstPackage = offerings?.availablePackages?.find(
+    (pkg) => getCatalogProduct(pkg.product.identifier)?.productType === "pack"
+  );
   const packagePrice = firstPackage?.product?.priceString || "$1.99";
-  const packageCredits = 5;
+  const packageCredits = firstPackage
+    ? getCatalogProduct(firstPackage.product.identifier)?.credits ?? 0
+    : 0;
 
   const fetchProfile = useCallback(async () => {
     if (!user?.id) return;
@@ -161,7 +174,7 @@ export default function ProfileScreen() {
     try {
       const { data, error } = await supabase
         .from("profiles")
-        .select("first_name, last_name, avatar_url")
+        .select("first_name, last_name, avatar_url, bio, hide_from_feed")
         .eq("id", user.id)
         .single();
 
@@ -173,6 +186,8 @@ export default function ProfileScreen() {
         setFirstName(data.first_name || "");
         setLastName(data.last_name || "");
         setAvatarUrl(data.avatar_url);
+        setBio(data.bio || "");
+        setHideFromFeed(data.hide_from_feed ?? false);
       }
     } catch (err) {
       console.error("[Profile] Error fetching profile:", err);
@@ -195,9 +210,27 @@ export default function ProfileScreen() {
     await setHapticsEnabled(enabled);
   };
 
+  // Hides the user's images and profile page from everyone else
+  const handleHideFromFeedToggle = async (hidden: boolean) => {
+    if (!user?.id) return;
+
+    setHideFromFeed(hidden);
+    const { error } = await supabase
+      .from("profiles")
+      .update({ hide_from_feed: hidden })
+      .eq("id", user.id);
+
+    if (error) {
+      console.error("[Profile] Privacy update error:", error);
+      setHideFromFeed(!hidden);
+      Alert.alert("Error", "Failed to update privacy setting.");
+    }
+  };
+
   const openEditSheet = () => {
     setEditFirstName(firstName);
     setEditLastName(lastName);
+    setEditBio(bio);
     setShowEditSheet(true);
   };
 
@@ -211,6 +244,7 @@ export default function ProfileScreen() {
         .update({
           first_name: editFirstName.trim() || null,
           last_name: editLastName.trim() || null,
+          bio: editBio.trim() || null,
         })
         .eq("id", user.id);
 
@@ -218,6 +252,7 @@ export default function ProfileScreen() {
 
       setFirstName(editFirstName.trim());
       setLastName(editLastName.trim());
+      setBio(editBio.trim());
       setShowEditSheet(false);
     } catch (err: any) {
       console.error("[Profile] Save error:", err);
@@ -450,13 +485,13 @@ export default function ProfileScreen() {
             <View className="flex-row items-center gap-2 mt-4 bg-white/5 px-4 py-2 rounded-full">
               <ImageIcon color={BRAND.red} size={16} />
               <Text className="text-white/60 text-sm">
-                {isLoadingCredits ? "—" : totalCredits * 4} photos available
+                {isLoadingCredits || photosAvailable === null ? "—" : photosAvailable} photos available
               </Text>
             </View>
           </View>
 
           {/* Purchase Button */}
-          {isRevenueCatAvailable && firstPackage && (
+          {isRevenueCatAvailable && firstPackage && packageCredits > 0 && (
             <View className="mx-5 mb-8">
               <Animated.View style={{ transform: [{ scale: buttonScale }] }}>
                 <Pressable
@@ -619,6 +654,38 @@ export default function ProfileScreen() {
                 </Pressable>
               </View>
 
+              {/* Hide From Feed Toggle - Only for signed-in users, who can share */}
+              {!isAnonymous && (
+                <>
+                  <View className="h-px bg-white/5 mx-4" />
+                  <View className="flex-row items-center justify-between px-4 py-3.5">
+                    <View className="flex-row items-center gap-3 flex-1">
+                      <View className="w-8 h-8 rounded-lg bg-white/10 items-center justify-center">
+                        <EyeOff color="white" size={18} />
+                      </View>
+                      <View className="flex-1">
+                        <Text className="text-white text-base">Hide From Feed</Text>
+                        <Text className="text-white/40 text-xs">
+                          Your photos and profile won't be shown to others
+                        </Text>
+                      </View>
+                    </View>
+                    <Pressable
+                      onPress={() => handleHideFromFeedToggle(!hideFromFeed)}
+                      className={`w-12 h-7 rounded-full p-0.5 ${
+                        hideFromFeed ? "bg-red-500" : "bg-white/20"
+                      }`}
+                    >
+                      <View
+                        className={`w-6 h-6 rounded-full bg-white shadow-sm ${
+                          hideFromFeed ? "ml-auto" : ""
+                        }`}
+                      />
+                    </Pressable>
+                  </View>
+                </>
+              )}
+
               {/* Biometric Lock Toggle - Only show if hardware available */}
               {isBiometricAvailable && (
                 <>
@@ -650,6 +717,9 @@ export default function ProfileScreen() {
             </View>
           </View>
 
+          {/* Credit History Section */}
+          <CreditHistory />
+
           {/* Spacer */}
           <View className="flex-1 min-h-[60px]" />
 
@@ -778,6 +848,21 @@ export default function ProfileScreen() {
                     autoCapitalize="words"
                   />
                 </View>
+
+                <View className="mb-4">
+                  <Text className="text-white/50 text-xs mb-2 ml-1">
+                    Bio
+                  </Text>
+                  <TextInput
+                    value={editBio}
+                    onChangeText={setEditBio}
+                    placeholder="Tell people about yourself"
+                    placeholderTextColor="rgba(255,255,255,0.3)"
+                    className="bg-white/5 text-white text-base px-5 py-4 rounded-2xl border border-white/5"
+                    maxLength={160}
+                    multiline
+                  />
+                </View>
               </View>
             </SafeAreaView>
           </View>
@@ -9,12 +9,14 @@
  *
  * Features:
  * - Loads offerings dynamically from RevenueCat
+ * - Credit amounts and tiers come from the server product catalog
+ * - Monthly plan alongside credit packs, with current plan status
  * - Handles purchase flow with error handling
  * - Syncs credits to Supabase after successful purchase
  * - Handles SDK unavailability gracefully (e.g., iOS 26 beta)
  */
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import {
   View,
   Text,
@@ -30,47 +32,10 @@ import { LinearGradient } from "expo-linear-gradient";
 import { useRevenueCat } from "../../contexts/RevenueCatContext";
 import { Button } from "../../components/Button";
 import { HeaderButton } from "../../components/HeaderButton";
-import { Sparkles, Zap, Crown, Check, ImageIcon } from "lucide-react-native";
-
-// Fallback packages for when RevenueCat offerings aren't available
-const FALLBACK_PACKAGES = [
-  { id: "five_token_ios", credits: 5, price: "$1.99", popular: true, tier: "starter" },
-];
-
-// Map product IDs to credit amounts and tiers
-const PRODUCT_INFO: Record<string, { credits: number; tier: string }> = {
-  "five_token_test": { credits: 5, tier: "starter" },    // Testing/Sandbox
-  "five_token_ios": { credits: 5, tier: "starter" },     // iOS Production
-  "five_token_android": { credits: 5, tier: "starter" }, // Android (future)
-};
-
-// Helper to get product info from various identifier formats
-function getProductInfo(identifier: string, priceString?: string): { credits: number; tier: string } {
-  // Direct match
-  if (PRODUCT_INFO[identifier]) {
-    return PRODUCT_INFO[identifier];
-  }
-  // Check if identifier contains a known product ID
-  for (const [key, value] of Object.entries(PRODUCT_INFO)) {
-    if (identifier.includes(key) || key.includes(identifier)) {
-      return value;
-    }
-  }
-  // Fallback based on identifier patterns
-  if (identifier.includes("five") || identifier.includes("5")) {
-    return { credits: 5, tier: "starter" };
-  }
-  // Price-based fallback (last resort)
-  if (priceString) {
-    // Handle both US (1.99) and European (1,99) formats
-    const normalized = priceString.replace(/[^0-9.,]/g, "").replace(",", ".");
-    const price = parseFloat(normalized) || 0;
-    if (price <= 2.5) return { credits: 5, tier: "starter" };
-    if (price <= 4) return { credits: 10, tier: "popular" };
-    return { credits: 25, tier: "pro" };
-  }
-  return { credits: 5, tier: "starter" }; // Default fallback
-}
+import { Sparkles, Zap, Crown, Check, ImageIcon, CalendarClock } from "lucide-react-native";
+import type { Subscription } from "../../lib/supabase";
+import { usePresetRegistry } from "../../hooks/usePresetRegistry";
+import { getImagesForCredits } from "../../lib/preset-registry";
 
 // Aurora gradient colors
 const AURORA_COLORS = {
@@ -87,25 +52,39 @@ export default function PurchaseScreen() {
     isPurchasing,
     error,
     isAvailable,
+    credits,
+    subscription,
+    catalog,
+    getCatalogProduct,
     purchasePackage,
     refreshOfferings,
   } = useRevenueCat();
+  const registry = usePresetRegistry();
 
   const [selectedPackageId, setSelectedPackageId] = useState<string | null>(null);
 
   // Animation values
   const buttonScale = useRef(new Animated.Value(1)).current;
 
-  // Set default selection when offerings load
+  // Only packages in the catalog can be credited by the server
+  const packages = useMemo(
+    () =>
+      (offerings?.availablePackages || []).filter(
+        (pkg) => !!getCatalogProduct(pkg.product.identifier)
+      ),
+    [offerings, getCatalogProduct]
+  );
+  const useFallback = packages.length === 0;
+
+  // Set default selection when offerings or the catalog load
   useEffect(() => {
-    if (offerings?.availablePackages?.length) {
-      // Select the first (and only) package
-      setSelectedPackageId(offerings.availablePackages[0].identifier);
+    if (packages.length) {
+      setSelectedPackageId(packages[0].identifier);
     } else {
-      // Use fallback default
-      setSelectedPackageId("five_token_ios");
+      // Show catalog packs until the store responds
+      setSelectedPackageId(catalog[0]?.id ?? null);
     }
-  }, [offerings]);
+  }, [packages, catalog]);
 
   const handlePurchase = async () => {
     if (!selectedPackageId) return;
@@ -137,10 +116,6 @@ export default function PurchaseScreen() {
     }
   };
 
-  // Get packages to display
-  const packages = offerings?.availablePackages || [];
-  const useFallback = packages.length === 0;
-
   // Debug logging
   useEffect(() => {
     if (packages.length > 0) {
@@ -154,25 +129,28 @@ export default function PurchaseScreen() {
 
   // Get selected package info for CTA
   const getSelectedInfo = () => {
-    if (!selectedPackageId) return { credits: 5, tier: "starter" };
-
-    // Try to get from actual offerings
-    const pkg = offerings?.availablePackages?.find(
-      (p) => p.identifier === selectedPackageId
-    );
-    if (pkg) {
-      return getProductInfo(pkg.product.identifier, pkg.product.priceString);
-    }
+    const pkg = packages.find((p) => p.identifier === selectedPackageId);
+    const product = getCatalogProduct(pkg?.product.identifier ?? selectedPackageId ?? "");
+    return {
+      productId: product?.id,
+      credits: product?.credits ?? 0,
+      tier: product?.tier ?? "starter",
+      isSubscription: product?.productType === "subscription",
+    };
+  };
+  const selectedInfo = getSelectedInfo();
 
-    // Try fallback packages
-    const fallbackPkg = FALLBACK_PACKAGES.find((p) => p.id === selectedPackageId);
-    if (fallbackPkg) {
-      return { credits: fallbackPkg.credits, tier: fallbackPkg.tier };
-    }
+  // Re-subscribing to the plan you're on is a no-op in the store
+  const hasLivePlan = !!subscription && subscription.status !== "expired";
+  const isCurrentPlan =
+    selectedInfo.isSubscription && hasLivePlan && subscription?.product_id === selectedInfo.productId;
 
-    return getProductInfo(selectedPackageId);
+  const getButtonLabel = () => {
+    if (!isAvailable) return "Unavailable";
+    if (isCurrentPlan) return "Current Plan";
+    if (selectedInfo.isSubscription) return `Subscribe · ${selectedInfo.credits} Credits/Month`;
+    return `Get ${selectedInfo.credits} Credits`;
   };
-  const selectedInfo = getSelectedInfo();
 
   return (
     <View className="flex-1 bg-background">
@@ -226,6 +204,15 @@ export default function PurchaseScreen() {
             </Text>
           </View>
 
+          {/* Monthly Plan Status */}
+          {subscription && (
+            <PlanStatusCard
+              subscription={subscription}
+              planLabel={getCatalogProduct(subscription.product_id)?.label ?? "Monthly Plan"}
+              allowanceCredits={credits?.allowance_credits ?? 0}
+            />
+          )}
+
           {/* Loading State */}
           {isLoading && (
             <View className="py-16 items-center">
@@ -278,29 +265,31 @@ export default function PurchaseScreen() {
           {!isLoading && isAvailable && (
             <View className="px-4 gap-3">
               {useFallback
-                ? FALLBACK_PACKAGES.map((pkg, index) => (
+                ? catalog.map((product, index) => (
                     <PackageCard
-                      key={pkg.id}
-                      id={pkg.id}
-                      credits={pkg.credits}
-                      price={pkg.price}
-                      tier={pkg.tier}
-                      isSelected={selectedPackageId === pkg.id}
-                      onSelect={() => setSelectedPackageId(pkg.id)}
+                      key={product.id}
+                      id={product.id}
+                      credits={product.credits}
+                      photos={getImagesForCredits(registry, product.credits)}
+                      price={product.displayPrice || "—"}
+                      tier={product.tier}
+                      isSubscription={product.productType === "subscription"}
+                      isSelected={selectedPackageId === product.id}
+                      onSelect={() => setSelectedPackageId(product.id)}
                       index={index}
                     />
                   ))
                 : packages.map((pkg, index) => {
-                    const productId = pkg.product.identifier;
-                    const priceStr = pkg.product.priceString;
-                    const info = getProductInfo(productId, priceStr);
+                    const product = getCatalogProduct(pkg.product.identifier);
                     return (
                       <PackageCard
                         key={pkg.identifier}
                         id={pkg.identifier}
-                        credits={info.credits}
-                        price={priceStr}
-                        tier={info.tier}
+                        credits={product?.credits ?? 0}
+                        photos={getImagesForCredits(registry, product?.credits ?? 0)}
+                        price={pkg.product.priceString}
+                        tier={product?.tier ?? "starter"}
+                        isSubscription={product?.productType === "subscription"}
                         isSelected={selectedPackageId === pkg.identifier}
                         onSelect={() => setSelectedPackageId(pkg.identifier)}
                         index={index}
@@ -330,7 +319,7 @@ export default function PurchaseScreen() {
               />
               <FeatureRow
                 icon={<Crown color="#f59e0b" size={18} />}
-                text="Credits never expire"
+                text="Purchased credits never expire"
               />
             </View>
           </View>
@@ -344,20 +333,20 @@ export default function PurchaseScreen() {
               <Animated.View style={{ transform: [{ scale: buttonScale }] }}>
                 <Button
                   onPress={handlePurchase}
-                  disabled={isPurchasing || !selectedPackageId || isLoading || !isAvailable}
+                  disabled={isPurchasing || !selectedPackageId || isLoading || !isAvailable || isCurrentPlan}
                   loading={isPurchasing}
                   loadingText="Processing..."
                 >
-                  {isAvailable
-                    ? `Get ${selectedInfo.credits} Credits`
-                    : "Unavailable"}
+                  {getButtonLabel()}
                 </Button>
               </Animated.View>
 
               <Text className="text-white/30 text-xs text-center mt-3">
-                {isAvailable
-                  ? "Secure payment via App Store"
-                  : "Please try again later"}
+                {!isAvailable
+                  ? "Please try again later"
+                  : selectedInfo.isSubscription
+                    ? "Renews monthly · Cancel anytime in your store settings"
+                    : "Secure payment via App Store"}
               </Text>
             </View>
           </SafeAreaView>
@@ -370,8 +359,10 @@ export default function PurchaseScreen() {
 interface PackageCardProps {
   id: string;
   credits: number;
+  photos: number | null; // Images the credits pay for; null until the price is known
   price: string;
   tier: string;
+  isSubscription?: boolean; // Monthly plan: credits are the monthly allowance
   isSelected: boolean;
   onSelect: () => void;
   index: number;
@@ -380,8 +371,10 @@ interface PackageCardProps {
 function PackageCard({
   id,
   credits,
+  photos,
   price,
   tier,
+  isSubscription = false,
   isSelected,
   onSelect,
   index,
@@ -486,11 +479,13 @@ function PackageCard({
                       isSelected ? "text-white/70" : "text-white/40"
                     }`}
                   >
-                    credits
+                    {isSubscription ? "credits / month" : "credits"}
                   </Text>
                 </View>
                 <Text className="text-white/40 text-xs mt-0.5">
-                  {credits * 4} photos • ${perCredit.toFixed(2)}/credit
+                  {isSubscription
+                    ? `${photos !== null ? `${photos} photos each month • ` : ""}Monthly plan`
+                    : `${photos !== null ? `${photos} photos • ` : ""}$${perCredit.toFixed(2)}/credit`}
                 </Text>
               </View>
             </View>
@@ -504,7 +499,10 @@ function PackageCard({
               >
                 {price}
               </Text>
-              {isPro && (
+              {isSubscription && (
+                <Text className="text-white/40 text-xs mt-1">per month</Text>
+              )}
+              {isPro && !isSubscription && (
                 <View className="flex-row items-center gap-1 mt-1">
                   <Crown color="#f59e0b" size={12} />
                   <Text className="text-amber-500 text-xs font-medium">
@@ -520,6 +518,61 @@ function PackageCard({
   );
 }
 
+interface PlanStatusCardProps {
+  subscription: Subscription;
+  planLabel: string;
+  allowanceCredits: number;
+}
+
+function PlanStatusCard({ subscription, planLabel, allowanceCredits }: PlanStatusCardProps) {
+  const periodEnd = subscription.current_period_end
+    ? new Date(subscription.current_period_end).toLocaleDateString()
+    : null;
+
+  if (subscription.status === "expired") {
+    return (
+      <View className="mx-6 mb-6 py-3 px-4 bg-white/5 border border-white/10 rounded-xl">
+        <Text className="text-white/60 text-sm">
+          Your {planLabel} ended{periodEnd ? ` on ${periodEnd}` : ""}.
+        </Text>
+      </View>
+    );
+  }
+
+  const hasBillingIssue = subscription.status === "billing_issue";
+
+  return (
+    <View
+      className={`mx-6 mb-6 rounded-2xl p-5 border ${
+        hasBillingIssue ? "border-amber-500/20 bg-amber-500/10" : "border-emerald-500/30 bg-emerald-500/10"
+      }`}
+    >
+      <View className="flex-row items-center gap-2 mb-2">
+        <CalendarClock color={hasBillingIssue ? "#f59e0b" : "#10b981"} size={18} />
+        <Text className="text-white font-semibold text-base">{planLabel}</Text>
+        <Text className={`text-xs font-medium ${hasBillingIssue ? "text-amber-400" : "text-emerald-400"}`}>
+          {hasBillingIssue ? "PAYMENT ISSUE" : "ACTIVE"}
+        </Text>
+      </View>
+      <Text className="text-white/70 text-sm">
+        {allowanceCredits} plan {allowanceCredits === 1 ? "credit" : "credits"} left this period
+      </Text>
+      {periodEnd && (
+        <Text className="text-white/40 text-xs mt-1">
+          {subscription.will_renew && !hasBillingIssue
+            ? `Renews on ${periodEnd} · unused plan credits expire then`
+            : `Ends on ${periodEnd}`}
+        </Text>
+      )}
+      {hasBillingIssue && (
+        <Text className="text-amber-400/80 text-xs mt-2 leading-4">
+          We couldn't renew your plan. Update your payment method in your store settings to keep it.
+        </Text>
+      )}
+    </View>
+  );
+}
+
 function FeatureRow({ icon, text }: { icon: React.ReactNode; text: string }) {
   return (
     <View className="flex-row items-center gap-3">
@@ -5,18 +5,21 @@
  * Features:
  * - Skeleton loaders with shimmer animation while images generate
  * - Progressive image display as each image completes
- * - Parallel API calls for faster generation (4 images simultaneously)
+ * - Parallel API calls for faster generation (one per preset variation, 4 by default)
+ * - Realtime slot updates from Supabase, so a batch survives backgrounding
+ *   and can be reopened later via the generationId param
  * - Download functionality
  * - Client-side watermarking for preview mode
  * - Back to camera button
  * - Credit consumption only after successful generation
  *
  * Uses Supabase Edge Functions for image generation:
- * - Authenticated users: parallel generation via /reserve-credit + /generate-single
- * - Anonymous users: 4 preview images via /functions/v1/preview (credit consumed after success)
+ * - Authenticated users: parallel generation via /reserve-credit + /generate-single,
+ *   failed slots retried individually via /retry-variation (no new credit)
+ * - Anonymous users: preview images via /functions/v1/preview (credit consumed after success)
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import {
   View,
   Text,
@@ -34,25 +37,42 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { LinearGradient } from "expo-linear-gradient";
 import { useAuth } from "../../contexts/AuthContext";
 import { useRevenueCat } from "../../contexts/RevenueCatContext";
+import type { Session } from "@supabase/supabase-js";
 import { supabase } from "../../lib/supabase";
 import {
   generatePreview,
   reserveCredit,
   generateSingleImage,
+  retryVariation,
   base64ToDataUrl,
+  DEFAULT_IMAGE_COUNT,
 } from "../../lib/fal";
 import { useImageTransfer } from "../../contexts/ImageTransferContext";
 import { consumeAnonymousCredit } from "../../hooks/useAnonymousCredits";
+import { useGenerationRealtime } from "../../hooks/useGenerationRealtime";
 import { SkeletonImageCard } from "../../components/SkeletonImageCard";
 import { ImagePreviewModal } from "../../components/ImagePreviewModal";
 import { LoginPromptModal } from "../../components/LoginPromptModal";
 import { shareImage } from "../../lib/sharing";
+import {
+  isNotShareableError,
+  isPendingReviewError,
+  isPublishingBannedError,
+  NOT_SHAREABLE_MESSAGE,
+  PENDING_REVIEW_MESSAGE,
+  PUBLISHING_BANNED_MESSAGE,
+} from "../../lib/moderation";
 import {
   triggerLightFeedback,
   triggerSuccessFeedback,
   triggerErrorFeedback,
 } from "../../lib/haptics";
-import type { PhotoStyleId } from "../../shared/presets";
+import {
+  getAspectRatioValue,
+  DEFAULT_ASPECT_RATIO,
+  type AspectRatio,
+  type PhotoStyleId,
+} from "../../shared/presets";
 
 
 // Image slot state for progressive loading
@@ -63,6 +83,30 @@ interface ImageSlot {
   error: string | null;
 }
 
+// One loading slot per variation in the batch
+function createLoadingSlots(count: number): ImageSlot[] {
+  return Array.from({ length: count }, () => ({
+    imageUrl: null,
+    imageId: null,
+    isLoading: true,
+    error: null,
+  }));
+}
+
+// User-facing text for a custom prompt error code from the server, or null
+function getCustomPromptErrorMessage(code: string | undefined): string | null {
+  switch (code) {
+    case "PROMPT_REQUIRED":
+      return "Describe your scene before generating.";
+    case "PROMPT_TOO_LONG":
+      return "Your scene description is too long. Please shorten it.";
+    case "PROMPT_REJECTED":
+      return "Your scene description can't be used. Please try describing it differently.";
+    default:
+      return null;
+  }
+}
+
 export default function ResultsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
@@ -70,18 +114,29 @@ export default function ResultsScreen() {
     photoUri: string;
     presetId: string;
     styleId: string;
+    customPrompt?: string; // Scene text for the Custom preset
+    aspectRatio?: AspectRatio;
+    imageCount?: string; // Requested batch size
+    generationId?: string; // Reopen an existing batch instead of generating
   }>();
   const { session } = useAuth();
   const { refreshCredits } = useRevenueCat();
-  const { pendingImageBase64, clearPendingImage } = useImageTransfer();
+  const { pendingImageBase64, pendingFriendImagesBase64, clearPendingImage } = useImageTransfer();
+
+  // Requested batch size; the preset's variation set may allow fewer
+  const requestedImageCount = Number(params.imageCount) || undefined;
+  // Reopened from the pending tray: there's no photo to regenerate from
+  const isResumedBatch = !params.photoUri && !!params.generationId;
 
   // State for progressive image loading
-  const [imageSlots, setImageSlots] = useState<ImageSlot[]>([
-    { imageUrl: null, imageId: null, isLoading: true, error: null },
-    { imageUrl: null, imageId: null, isLoading: true, error: null },
-    { imageUrl: null, imageId: null, isLoading: true, error: null },
-    { imageUrl: null, imageId: null, isLoading: true, error: null },
-  ]);
+  const [imageSlots, setImageSlots] = useState<ImageSlot[]>(() =>
+    createLoadingSlots(requestedImageCount ?? DEFAULT_IMAGE_COUNT)
+  );
+  // Shape of every image in the batch (width / height)
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(
+    params.aspectRatio ?? DEFAULT_ASPECT_RATIO
+  );
+  const aspectRatioValue = getAspectRatioValue(aspectRatio);
   const [isPreview, setIsPreview] = useState(false);
   const [globalError, setGlobalError] = useState<string | null>(null);
   const [downloadingIndex, setDownloadingIndex] = useState<number | null>(null);
@@ -90,30 +145,267 @@ export default function ResultsScreen() {
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
   // Login modal for prompting sign-up
   const [showLoginModal, setShowLoginModal] = useState(false);
+  // Generation batch followed over Realtime
+  const [generationId, setGenerationId] = useState<string | null>(null);
+  // Variation indexes with a generate-single request still awaiting its HTTP response
+  const pendingRequestsRef = useRef<Set<number>>(new Set());
+  const batchSettledRef = useRef(false);
+  // Reserved session of the current batch, used for per-slot retries
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [retryLimitReached, setRetryLimitReached] = useState(false);
 
   useEffect(() => {
     if (params.photoUri) {
       runParallelGeneration();
+    } else if (params.generationId) {
+      resumeGeneration(params.generationId);
     }
   }, []);
 
+  const fillSlot = useCallback((index: number, imageUrl: string, imageId: string | null) => {
+    setImageSlots((prev) => {
+      if (!prev[index] || prev[index].imageUrl) return prev;
+      const next = [...prev];
+      next[index] = { imageUrl, imageId, isLoading: false, error: null };
+      return next;
+    });
+  }, []);
+
+  const failSlot = useCallback((index: number, error: string) => {
+    setImageSlots((prev) => {
+      if (!prev[index] || !prev[index].isLoading) return prev;
+      const next = [...prev];
+      next[index] = { imageUrl: null, imageId: null, isLoading: false, error };
+      return next;
+    });
+  }, []);
+
+  useGenerationRealtime(generationId, {
+    onImage: (image) => {
+      fillSlot(image.image_index, image.image_url, image.id);
+    },
+    onVariationFailed: (index, error) => {
+      failSlot(index, error || "Generation failed");
+    },
+    onStatusChange: (status) => {
+      if (status !== "completed" && status !== "failed") return;
+      // A failed batch has been refunded and its session closed
+      if (status === "failed") setSessionId(null);
+      // Nothing more will arrive for slots that aren't still awaiting an HTTP response
+      setImageSlots((prev) =>
+        prev.map((slot, index) =>
+          slot.isLoading && !pendingRequestsRef.current.has(index)
+            ? { ...slot, isLoading: false, error: "Generation failed" }
+            : slot
+        )
+      );
+    },
+  });
+
+  // Once every slot has settled, give feedback and refresh credits
+  useEffect(() => {
+    if (!generationId || batchSettledRef.current) return;
+    if (imageSlots.some((slot) => slot.isLoading)) return;
+
+    batchSettledRef.current = true;
+    console.log("[ResultsScreen] All images settled for generation:", generationId);
+
+    if (imageSlots.some((slot) => slot.imageUrl)) {
+      triggerSuccessFeedback();
+    } else {
+      triggerErrorFeedback();
+    }
+    refreshCredits();
+  }, [generationId, imageSlots]);
+
+  /**
+   * Request (or retry) one variation of a reserved session
+   * Queued variations fill in over Realtime; completed ones fill in directly
+   */
+  const requestVariation = useCallback(
+    async (batchSessionId: string, index: number, authSession: Session, isRetry = false) => {
+      pendingRequestsRef.current.add(index);
+
+      try {
+        console.log(`[ResultsScreen] ${isRetry ? "Retrying" : "Starting"} image ${index}...`);
+        const request = isRetry ? retryVariation : generateSingleImage;
+        const result = await request(
+          { sessionId: batchSessionId, variationIndex: index, async: true },
+          authSession
+        );
+
+        // Queued on fal.ai - the slot fills in when the images row is inserted
+        if (result.status === "queued") {
+          console.log(`[ResultsScreen] Image ${index} queued: ${result.requestId}`);
+          return { index, success: true };
+        }
+
+        // Validate we actually got an image URL
+        if (!result.imageUrl) {
+          console.error(`[ResultsScreen] Image ${index} has no URL!`);
+          setImageSlots((prev) => {
+            const next = [...prev];
+            next[index] = {
+              imageUrl: null,
+              imageId: null,
+              isLoading: false,
+              error: "No image URL returned",
+            };
+            return next;
+          });
+          return { index, success: false, error: "No image URL" };
+        }
+
+        // Update the specific slot
+        setImageSlots((prev) => {
+          const next = [...prev];
+          next[index] = {
+            imageUrl: result.imageUrl,
+            imageId: result.imageId,
+            isLoading: false,
+            error: null,
+          };
+          return next;
+        });
+
+        // Haptic feedback for individual image completion
+        triggerLightFeedback();
+
+        return { index, success: true };
+      } catch (err: any) {
+        console.error(`[ResultsScreen] Image ${index} failed:`, err);
+
+        if (err.message === "RETRY_LIMIT_REACHED") {
+          setRetryLimitReached(true);
+        }
+
+        // Update the specific slot with error
+        setImageSlots((prev) => {
+          const next = [...prev];
+          next[index] = {
+            imageUrl: null,
+            imageId: null,
+            isLoading: false,
+            error: err.message === "RETRY_LIMIT_REACHED"
+              ? "Retry limit reached"
+              : err.message || "Generation failed",
+          };
+          return next;
+        });
+
+        return { index, success: false, error: err.message };
+      } finally {
+        pendingRequestsRef.current.delete(index);
+      }
+    },
+    []
+  );
+
+  /**
+   * Reopen an unfinished generation batch
+   * Persisted images are hydrated over Realtime; variations that were lost
+   * (nothing persisted, nothing queued) are marked so they can be retried
+   */
+  const resumeGeneration = useCallback(async (id: string) => {
+    setIsReservingCredit(false);
+    setGenerationId(id);
+    console.log("[ResultsScreen] Resuming generation:", id);
+
+    try {
+      const [generationResult, sessionResult, imagesResult, requestsResult] = await Promise.all([
+        supabase
+          .from("generations")
+          .select("image_count, aspect_ratio")
+          .eq("id", id)
+          .maybeSingle(),
+        supabase
+          .from("generation_sessions")
+          .select("id, expires_at")
+          .eq("generation_id", id)
+          .maybeSingle(),
+        supabase
+          .from("images")
+          .select("image_index")
+          .eq("generation_batch_id", id),
+        supabase
+          .from("fal_requests")
+          .select("variation_index")
+          .eq("generation_id", id)
+          .eq("status", "queued"),
+      ]);
+
+      const sessionRow = sessionResult.data;
+      const canRequestAgain = !!sessionRow && new Date(sessionRow.expires_at) > new Date();
+      if (canRequestAgain) {
+        setSessionId(sessionRow.id);
+      }
+
+      // Size the grid for this batch before marking lost variations
+      setAspectRatio(generationResult.data?.aspect_ratio ?? DEFAULT_ASPECT_RATIO);
+      const imageCount = generationResult.data?.image_count ?? DEFAULT_IMAGE_COUNT;
+      setImageSlots((prev) =>
+        prev.length === imageCount
+          ? prev
+          : Array.from({ length: imageCount }, (_, index) =>
+              prev[index] ?? createLoadingSlots(1)[0]
+            )
+      );
+
+      const activeIndexes = new Set([
+        ...(imagesResult.data || []).map((image) => image.image_index),
+        ...(requestsResult.data || []).map((request) => request.variation_index),
+      ]);
+      Array.from({ length: imageCount }, (_, index) => index)
+        .filter((index) => !activeIndexes.has(index))
+        .forEach((index) =>
+          failSlot(index, canRequestAgain ? "Generation interrupted" : "Generation expired")
+        );
+    } catch (err) {
+      console.error("[ResultsScreen] Failed to resume generation:", err);
+    }
+  }, [failSlot]);
+
+  /**
+   * Retry a single failed variation within the reserved session (no new credit)
+   */
+  const handleRetryVariation = async (index: number) => {
+    if (!sessionId) return;
+
+    const { data: { session: currentSession }, error: refreshError } =
+      await supabase.auth.refreshSession();
+
+    if (refreshError || !currentSession) {
+      console.error("[ResultsScreen] Session refresh failed:", refreshError);
+      setGlobalError("Please sign in to generate images.");
+      return;
+    }
+
+    batchSettledRef.current = false;
+    setImageSlots((prev) => {
+      const next = [...prev];
+      next[index] = { imageUrl: null, imageId: null, isLoading: true, error: null };
+      return next;
+    });
+    await requestVariation(sessionId, index, currentSession, true);
+  };
+
   /**
    * Run parallel image generation with progressive loading
    * 1. Reserve credit (single API call)
-   * 2. Launch 4 parallel generation requests
+   * 2. Launch one parallel generation request per variation
    * 3. Update UI as each image completes
    */
   const runParallelGeneration = useCallback(async () => {
     // Reset state
-    setImageSlots([
-      { imageUrl: null, imageId: null, isLoading: true, error: null },
-      { imageUrl: null, imageId: null, isLoading: true, error: null },
-      { imageUrl: null, imageId: null, isLoading: true, error: null },
-      { imageUrl: null, imageId: null, isLoading: true, error: null },
-    ]);
+    setImageSlots(createLoadingSlots(requestedImageCount ?? DEFAULT_IMAGE_COUNT));
     setGlobalError(null);
     setIsReservingCredit(true);
     setSelectedImageIndex(null);
+    setGenerationId(null);
+    setSessionId(null);
+    setRetryLimitReached(false);
+    pendingRequestsRef.current.clear();
+    batchSettledRef.current = false;
 
     console.log("[ResultsScreen] Starting parallel generation");
 
@@ -123,6 +415,7 @@ export default function ResultsScreen() {
 
       // Get pre-resized base64 from context (set by generate screen)
       const imageBase64 = pendingImageBase64;
+      const friendImagesBase64 = pendingFriendImagesBase64;
       clearPendingImage();
 
       if (!imageBase64) {
@@ -136,7 +429,7 @@ export default function ResultsScreen() {
 
       // Check if authenticated
       if (!session?.access_token) {
-        // Anonymous user - use preview mode (4 images via preview endpoint)
+        // Anonymous user - use preview mode (images via preview endpoint)
         setIsPreview(true);
         setIsReservingCredit(false);
 
@@ -145,10 +438,14 @@ export default function ResultsScreen() {
             imageUrl,
             presetId,
             styleId,
+            customPrompt: params.customPrompt,
+            aspectRatio,
+            imageCount: requestedImageCount,
           });
 
-          // Map all returned images to slots (now returns 4 images)
-          const newSlots: ImageSlot[] = [0, 1, 2, 3].map((index) => {
+          // Map all returned images to slots, one per requested variation
+          const slotCount = result.variationCount ?? DEFAULT_IMAGE_COUNT;
+          const newSlots: ImageSlot[] = Array.from({ length: slotCount }, (_, index) => {
             const previewImage = result.images[index];
             return {
               imageUrl: previewImage?.url || null,
@@ -180,6 +477,9 @@ export default function ResultsScreen() {
               ]
             );
             router.back();
+          } else if (getCustomPromptErrorMessage(err.message)) {
+            Alert.alert("Prompt Not Allowed", getCustomPromptErrorMessage(err.message)!);
+            router.back();
           } else {
             setGlobalError(err.message || "Preview generation failed");
           }
@@ -203,92 +503,41 @@ export default function ResultsScreen() {
       // Step 1: Reserve credit
       console.log("[ResultsScreen] Reserving credit...");
       const reserveResult = await reserveCredit(
-        { imageUrl, presetId, styleId },
+        {
+          imageUrl,
+          presetId,
+          styleId,
+          friendImageUrls: friendImagesBase64.map((base64) => base64ToDataUrl(base64)),
+          customPrompt: params.customPrompt,
+          aspectRatio,
+          imageCount: requestedImageCount,
+        },
         currentSession
       );
 
       setIsReservingCredit(false);
       console.log("[ResultsScreen] Credit reserved, sessionId:", reserveResult.sessionId);
 
-      // Step 2: Launch 4 parallel generation requests
-      const variationIndices = [0, 1, 2, 3];
-
-      const promises = variationIndices.map(async (index) => {
-        try {
-          console.log(`[ResultsScreen] Starting image ${index}...`);
-          const result = await generateSingleImage(
-            { sessionId: reserveResult.sessionId, variationIndex: index },
-            currentSession
-          );
-
-          // Validate we actually got an image URL
-          if (!result.imageUrl) {
-            console.error(`[ResultsScreen] Image ${index} has no URL!`);
-            setImageSlots((prev) => {
-              const next = [...prev];
-              next[index] = {
-                imageUrl: null,
-                imageId: null,
-                isLoading: false,
-                error: "No image URL returned",
-              };
-              return next;
-            });
-            return { index, success: false, error: "No image URL" };
-          }
-
-          // Update the specific slot
-          setImageSlots((prev) => {
-            const next = [...prev];
-            next[index] = {
-              imageUrl: result.imageUrl,
-              imageId: result.imageId,
-              isLoading: false,
-              error: null,
-            };
-            return next;
-          });
-
-          // Haptic feedback for individual image completion
-          triggerLightFeedback();
-
-          return { index, success: true };
-        } catch (err: any) {
-          console.error(`[ResultsScreen] Image ${index} failed:`, err);
-
-          // Update the specific slot with error
-          setImageSlots((prev) => {
-            const next = [...prev];
-            next[index] = {
-              imageUrl: null,
-              imageId: null,
-              isLoading: false,
-              error: err.message || "Generation failed",
-            };
-            return next;
-          });
-
-          return { index, success: false, error: err.message };
-        }
-      });
+      // Step 2: Launch one parallel request per variation of the preset
+      const { imageCount } = reserveResult;
+      if (imageCount !== (requestedImageCount ?? DEFAULT_IMAGE_COUNT)) {
+        setImageSlots(createLoadingSlots(imageCount));
+      }
+      const variationIndices = Array.from({ length: imageCount }, (_, index) => index);
 
-      // Wait for all to complete (success or failure)
-      const results = await Promise.allSettled(promises);
+      // Follow the batch over Realtime - queued images arrive as rows are inserted
+      setGenerationId(reserveResult.generationId ?? null);
+      setSessionId(reserveResult.sessionId);
 
-      console.log("[ResultsScreen] All generation requests completed");
+      const promises = variationIndices.map((index) =>
+        requestVariation(reserveResult.sessionId, index, currentSession)
+      );
 
-      // Haptic feedback based on overall success/failure
-      const successCount = results.filter(
-        (r) => r.status === "fulfilled" && (r.value as any)?.success
-      ).length;
-      if (successCount > 0) {
-        triggerSuccessFeedback();
-      } else {
-        triggerErrorFeedback();
-      }
+      // Wait for all requests to be accepted or completed (success or failure)
+      // Feedback and credit refresh happen once every slot has settled
+      await Promise.allSettled(promises);
 
-      // Refresh credits after generation to update UI
-      await refreshCredits();
+      console.log("[ResultsScreen] All generation requests returned");
     } catch (err: any) {
       console.error("[ResultsScreen] Generation error:", err?.message);
 
@@ -305,6 +554,22 @@ export default function ResultsScreen() {
         return;
       }
 
+      const promptError = getCustomPromptErrorMessage(err.message);
+      if (promptError) {
+        Alert.alert("Prompt Not Allowed", promptError);
+        router.back();
+        return;
+      }
+
+      if (err.message === "PRESET_NOT_AVAILABLE") {
+        Alert.alert(
+          "Preset Unavailable",
+          "This preset is no longer available. Pick another one to continue."
+        );
+        router.back();
+        return;
+      }
+
       if (err.message === "UNAUTHORIZED") {
         setGlobalError("Please sign in to generate images.");
         return;
@@ -422,6 +687,18 @@ export default function ResultsScreen() {
       Alert.alert("Success", "Your image is now visible on the public feed!");
     } catch (err: any) {
       console.error("Share to feed error:", err);
+      if (isPendingReviewError(err.message)) {
+        Alert.alert("Can't Share Yet", PENDING_REVIEW_MESSAGE);
+        return;
+      }
+      if (isNotShareableError(err.message)) {
+        Alert.alert("Can't Share", NOT_SHAREABLE_MESSAGE);
+        return;
+      }
+      if (isPublishingBannedError(err.message)) {
+        Alert.alert("Can't Share", PUBLISHING_BANNED_MESSAGE);
+        return;
+      }
       Alert.alert("Error", err.message || "Failed to share image to feed.");
     }
   };
@@ -500,10 +777,13 @@ export default function ResultsScreen() {
                   isLoading={slot.isLoading}
                   error={slot.error}
                   index={index}
+                  aspectRatio={aspectRatioValue}
                   onRetry={
-                    slot.error
+                    slot.error && sessionId && !retryLimitReached
+                      ? () => handleRetryVariation(index)
+                      : slot.error && !isResumedBatch
                       ? () => {
-                        // Retry would require re-reserving credit, so just prompt to start over
+                        // No session retries left - regenerating requires re-reserving credit
                         Alert.alert(
                           "Retry Generation",
                           "Would you like to try generating again?",
@@ -529,7 +809,7 @@ export default function ResultsScreen() {
               >
                 <Image
                   source={{ uri: slot.imageUrl }}
-                  style={{ width: "100%", aspectRatio: 1 }}
+                  style={{ width: "100%", aspectRatio: aspectRatioValue }}
                   contentFit="cover"
                   transition={300}
                   onError={(e) => {
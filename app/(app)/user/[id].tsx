@@ -0,0 +1,303 @@
+/**
+ * Creator Profile Screen
+ *
+ * Public profile for a feed creator, opened from feed cards.
+ *
+ * Features:
+ * - Avatar, name and bio
+ * - Photo, follower and following counts
+ * - Follow / unfollow (hidden on your own profile)
+ * - Grid of the creator's public images with cursor pagination
+ * - Profiles hidden from the feed show a "not available" state
+ */
+
+import React, { useState, useCallback } from "react";
+import { useFocusEffect } from "@react-navigation/native";
+import {
+  View,
+  Text,
+  Pressable,
+  RefreshControl,
+  ActivityIndicator,
+  Dimensions,
+  TouchableOpacity,
+} from "react-native";
+import { FlashList } from "@shopify/flash-list";
+import { Image } from "expo-image";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useAuth } from "../../../contexts/AuthContext";
+import { Avatar } from "../../../components/Avatar";
+import { HeaderButton } from "../../../components/HeaderButton";
+import { fetchFeedPage, type FeedImage, type FeedCursor } from "../../../lib/feed";
+import {
+  fetchPublicProfile,
+  setFollowing,
+  type PublicProfile,
+} from "../../../lib/profiles";
+
+const { width } = Dimensions.get("window");
+const PADDING = 16;
+const GAP = 16;
+const IMAGE_SIZE = (width - PADDING * 2 - GAP) / 2;
+
+export default function CreatorProfileScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [images, setImages] = useState<FeedImage[]>([]);
+  const [nextCursor, setNextCursor] = useState<FeedCursor | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isUpdatingFollow, setIsUpdatingFollow] = useState(false);
+
+  const isOwnProfile = user?.id === id;
+
+  const fetchProfile = useCallback(
+    async (refresh = false) => {
+      if (!id) return;
+      try {
+        if (refresh) {
+          setRefreshing(true);
+        }
+        setError(null);
+
+        const [profileData, page] = await Promise.all([
+          fetchPublicProfile(id),
+          fetchFeedPage({ mode: "latest", userId: id }),
+        ]);
+
+        setProfile(profileData);
+        setImages(page.images);
+        setNextCursor(page.nextCursor);
+        setNotFound(false);
+      } catch (err: any) {
+        if (err.message === "PROFILE_NOT_FOUND") {
+          setNotFound(true);
+        } else {
+          console.error("[CreatorProfile] Error:", err);
+          setError(err.message || "Failed to load profile");
+        }
+      } finally {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    },
+    [id]
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchProfile();
+    }, [fetchProfile])
+  );
+
+  const handleLoadMore = async () => {
+    if (!id || loadingMore || !nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchFeedPage({ mode: "latest", userId: id }, nextCursor);
+      setImages((prev) => {
+        const seen = new Set(prev.map((img) => img.id));
+        return [...prev, ...page.images.filter((img) => !seen.has(img.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("[CreatorProfile] Load more error:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Optimistic, rolled back if the write fails
+  const handleFollowPress = async () => {
+    if (!user?.id || !profile || isUpdatingFollow) return;
+
+    const follow = !profile.is_following;
+    const previous = profile;
+    setProfile({
+      ...profile,
+      is_following: follow,
+      follower_count: Math.max(0, profile.follower_count + (follow ? 1 : -1)),
+    });
+    setIsUpdatingFollow(true);
+    try {
+      await setFollowing(user.id, profile.id, follow);
+    } catch (err) {
+      console.error("[CreatorProfile] Follow error:", err);
+      setProfile(previous);
+    } finally {
+      setIsUpdatingFollow(false);
+    }
+  };
+
+  const handleImagePress = (image: FeedImage) => {
+    router.push({
+      pathname: "/image-preview",
+      params: {
+        imageId: image.id,
+        imageUrl: image.image_url,
+        isOwner: isOwnProfile ? "true" : "false",
+        isPublic: "true",
+      },
+    });
+  };
+
+  const renderHeader = () => {
+    if (!profile) return null;
+    const stats = [
+      { label: "Photos", value: profile.image_count },
+      { label: "Followers", value: profile.follower_count },
+      { label: "Following", value: profile.following_count },
+    ];
+
+    return (
+      <View className="items-center pb-6">
+        <Avatar url={profile.avatar_url} name={profile.user_name} size="xlarge" />
+        <Text className="text-white text-xl font-semibold mt-3">
+          {profile.user_name || "Creator"}
+        </Text>
+        {profile.bio ? (
+          <Text className="text-white/60 text-sm text-center mt-2 px-6">
+            {profile.bio}
+          </Text>
+        ) : null}
+
+        <View className="flex-row mt-5 gap-8">
+          {stats.map((stat) => (
+            <View key={stat.label} className="items-center">
+              <Text className="text-white text-lg font-semibold">{stat.value}</Text>
+              <Text className="text-white/50 text-xs">{stat.label}</Text>
+            </View>
+          ))}
+        </View>
+
+        {isOwnProfile ? (
+          profile.hide_from_feed && (
+            <Text className="text-white/40 text-xs mt-4">
+              Your profile is hidden from the feed
+            </Text>
+          )
+        ) : (
+          <Pressable
+            onPress={handleFollowPress}
+            disabled={isUpdatingFollow}
+            className={`mt-5 px-8 py-2.5 rounded-full ${
+              profile.is_following ? "bg-white/10" : "bg-white"
+            }`}
+          >
+            <Text
+              className={`text-sm font-semibold ${
+                profile.is_following ? "text-white" : "text-black"
+              }`}
+            >
+              {profile.is_following ? "Following" : "Follow"}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+    );
+  };
+
+  const renderItem = ({ item, index }: { item: FeedImage; index: number }) => {
+    const isLeftColumn = index % 2 === 0;
+    return (
+      <TouchableOpacity
+        className="rounded-2xl overflow-hidden bg-neutral-900"
+        style={{
+          width: IMAGE_SIZE,
+          marginBottom: GAP,
+          marginLeft: isLeftColumn ? 0 : GAP / 2,
+          marginRight: isLeftColumn ? GAP / 2 : 0,
+        }}
+        onPress={() => handleImagePress(item)}
+        activeOpacity={0.9}
+      >
+        <Image
+          source={{ uri: item.image_url }}
+          style={{ width: IMAGE_SIZE, height: IMAGE_SIZE }}
+          contentFit="cover"
+          transition={200}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderFooter = () => {
+    if (!loadingMore) return null;
+    return (
+      <View className="py-5 items-center">
+        <ActivityIndicator color="white" size="small" />
+      </View>
+    );
+  };
+
+  const renderEmpty = () => (
+    <View className="items-center p-6">
+      <Text className="text-white/50 text-sm text-center">
+        No shared photos yet
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={["top"]}>
+      <View className="flex-row items-center justify-between px-4 py-3">
+        <HeaderButton variant="back" onPress={() => router.back()} />
+        <View className="w-10" />
+      </View>
+
+      {loading ? (
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator color="white" size="large" />
+        </View>
+      ) : notFound ? (
+        <View className="flex-1 justify-center items-center p-6">
+          <Text className="text-white text-lg font-semibold mb-2">
+            Profile not available
+          </Text>
+          <Text className="text-white/50 text-sm text-center">
+            This creator's profile is private.
+          </Text>
+        </View>
+      ) : error ? (
+        <View className="flex-1 justify-center items-center p-6">
+          <Text className="text-red-500 text-base text-center mb-4">
+            {error}
+          </Text>
+          <TouchableOpacity
+            className="bg-white/10 px-6 py-3 rounded-lg"
+            onPress={() => fetchProfile()}
+          >
+            <Text className="text-white text-sm font-medium">Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlashList
+          data={images}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          numColumns={2}
+          contentContainerStyle={{ paddingHorizontal: PADDING, paddingBottom: 100 }}
+          ListHeaderComponent={renderHeader}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => fetchProfile(true)}
+              tintColor="white"
+            />
+          }
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={renderFooter}
+          ListEmptyComponent={renderEmpty}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
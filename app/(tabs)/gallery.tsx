@@ -7,8 +7,10 @@
  * Features:
  * - Grid layout of user's images
  * - Share toggle indicator
+ * - Like count on images shared to the feed
  * - Pull to refresh
  * - Tap to preview with actions
+ * - Tray of unfinished generations to resume
  */
 
 import React, { useState, useCallback, useEffect } from "react";
@@ -25,9 +27,11 @@ import { FlashList } from "@shopify/flash-list";
 import { Image } from "expo-image";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
+import { Heart } from "lucide-react-native";
 import { useAuth } from "../../contexts/AuthContext";
 import { supabase } from "../../lib/supabase";
 import { Avatar } from "../../components/Avatar";
+import { PendingGenerationsTray } from "../../components/PendingGenerationsTray";
 
 const { width } = Dimensions.get("window");
 const PADDING = 16;
@@ -45,6 +49,7 @@ interface GalleryImage {
   image_index: number;
   is_public: boolean;
   is_free_generation: boolean;
+  like_count: number;
   created_at: string;
 }
 
@@ -96,7 +101,7 @@ export default function GalleryScreen() {
         // Query Supabase directly for user's images
         const { data: fetchedImages, error: fetchError } = await supabase
           .from("images")
-          .select("id, generation_batch_id, image_url, preset_id, style_id, image_index, is_public, is_free_generation, created_at")
+          .select("id, generation_batch_id, image_url, preset_id, style_id, image_index, is_public, is_free_generation, like_count, created_at")
           .eq("user_id", user.id)
           .order("created_at", { ascending: false })
           .range(offset, offset + PAGE_SIZE - 1);
@@ -114,6 +119,7 @@ export default function GalleryScreen() {
           image_index: img.image_index,
           is_public: img.is_public,
           is_free_generation: img.is_free_generation,
+          like_count: img.like_count ?? 0,
           created_at: img.created_at,
         }));
 
@@ -185,6 +191,14 @@ export default function GalleryScreen() {
           contentFit="cover"
           transition={200}
         />
+        {item.is_public && item.like_count > 0 && (
+          <View className="absolute bottom-2 left-2 flex-row items-center gap-1 bg-black/60 rounded-full px-2 py-1">
+            <Heart color="#ef4444" fill="#ef4444" size={12} />
+            <Text className="text-white text-xs font-semibold">
+              {item.like_count}
+            </Text>
+          </View>
+        )}
       </TouchableOpacity>
     );
   };
@@ -251,6 +265,9 @@ export default function GalleryScreen() {
         />
       </View>
 
+      {/* Unfinished generations - tap to reopen results */}
+      <PendingGenerationsTray />
+
       {loading && images.length === 0 ? (
         <View className="flex-1 justify-center items-center">
           <ActivityIndicator color="white" size="large" />
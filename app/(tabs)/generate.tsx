@@ -7,10 +7,14 @@
  * - Preset selector (horizontal carousel)
  * - Style picker (vertical on left side)
  * - Capture button to take photo
+ * - Up to 3 friends' photos to include in the generation
+ * - Free-text scene for the Custom preset
+ * - Aspect ratio and number of images
  * - Credits display
+ * - Tray of unfinished generations to resume
  */
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import {
   View,
   Text,
@@ -33,11 +37,26 @@ import Animated, {
 } from "react-native-reanimated";
 import { useAuth } from "../../contexts/AuthContext";
 import { useRevenueCat } from "../../contexts/RevenueCatContext";
+import { getSpendableCredits } from "../../lib/supabase";
 import { Image as ImageIcon, RefreshCw } from "lucide-react-native";
 import { HeaderButton } from "../../components/HeaderButton";
 import { StyleSwiper } from "../../components/StyleSwiper";
 import { FilterSwiper } from "../../components/FilterSwiper";
-import { PRESET_PICKER_OPTIONS, STYLE_PICKER_OPTIONS } from "../../shared/presets";
+import { PendingGenerationsTray } from "../../components/PendingGenerationsTray";
+import {
+  FriendPhotosRow,
+  MAX_FRIEND_PHOTOS,
+  type FriendPhoto,
+} from "../../components/FriendPhotosRow";
+import { CustomPromptInput } from "../../components/CustomPromptInput";
+import { BatchOptionsRow } from "../../components/BatchOptionsRow";
+import { usePresetRegistry } from "../../hooks/usePresetRegistry";
+import { getBatchCreditCost } from "../../lib/preset-registry";
+import {
+  DEFAULT_ASPECT_RATIO,
+  IMAGE_COUNT_OPTIONS,
+  type AspectRatio,
+} from "../../shared/presets";
 
 
 export default function GenerateScreen() {
@@ -48,13 +67,38 @@ export default function GenerateScreen() {
   const cameraRef = useRef<CameraView>(null);
   const isFocused = useIsFocused();
 
+  const registry = usePresetRegistry();
+  const { presets, styles } = registry;
+
   const [permission, requestPermission] = useCameraPermissions();
-  const [selectedPreset, setSelectedPreset] = useState<string>(PRESET_PICKER_OPTIONS[0].id);
-  const [selectedStyle, setSelectedStyle] = useState<string>(STYLE_PICKER_OPTIONS[0].id);
+  const [selectedPreset, setSelectedPreset] = useState<string>(presets[0].id);
+  const [selectedStyle, setSelectedStyle] = useState<string>(styles[0].id);
   const [isCapturing, setIsCapturing] = useState(false);
   const [isPickingImage, setIsPickingImage] = useState(false);
   const [facing, setFacing] = useState<CameraType>("front");
   const [frozenPhotoUri, setFrozenPhotoUri] = useState<string | null>(null);
+  const [friendPhotos, setFriendPhotos] = useState<FriendPhoto[]>([]);
+  const [isAddingFriend, setIsAddingFriend] = useState(false);
+  const [customPrompt, setCustomPrompt] = useState("");
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [imageCount, setImageCount] = useState(
+    IMAGE_COUNT_OPTIONS[IMAGE_COUNT_OPTIONS.length - 1]
+  );
+
+  // Null until the server price loads; the pre-checks then only require a
+  // spendable credit and reserve-credit rejects a short balance
+  const creditCost = getBatchCreditCost(registry, imageCount);
+  const needsCustomPrompt = !!presets.find((p) => p.id === selectedPreset)?.allowsCustomPrompt;
+
+  // Registry updates may disable the selected preset or style
+  useEffect(() => {
+    if (!presets.some((p) => p.id === selectedPreset)) {
+      setSelectedPreset(presets[0].id);
+    }
+    if (!styles.some((s) => s.id === selectedStyle)) {
+      setSelectedStyle(styles[0].id);
+    }
+  }, [presets, styles, selectedPreset, selectedStyle]);
 
   // Refresh credits when screen gains focus and clear frozen frame when leaving
   useFocusEffect(
@@ -74,12 +118,30 @@ export default function GenerateScreen() {
     opacity: flashOpacity.value,
   }));
 
+  // Custom presets can't generate without a scene description
+  const ensureCustomPrompt = (): boolean => {
+    if (needsCustomPrompt && !customPrompt.trim()) {
+      Alert.alert("Describe Your Scene", "Type what you'd like your photo to show first.");
+      return false;
+    }
+    return true;
+  };
+
+  // Route params shared by capture and library pick
+  const generationParams = () => ({
+    presetId: selectedPreset,
+    styleId: selectedStyle,
+    aspectRatio,
+    imageCount: String(imageCount),
+    ...(needsCustomPrompt ? { customPrompt: customPrompt.trim() } : {}),
+  });
+
   const handleCapture = async () => {
     if (!cameraRef.current) return;
+    if (!ensureCustomPrompt()) return;
 
-    const totalCredits =
-      (credits?.free_credits || 0) + (credits?.image_credits || 0);
-    if (totalCredits <= 0) {
+    const totalCredits = getSpendableCredits(credits);
+    if (totalCredits < (creditCost ?? 1)) {
       router.push("/(app)/purchase");
       return;
     }
@@ -106,14 +168,13 @@ export default function GenerateScreen() {
         if (!photo.base64) {
           throw new Error("Failed to process image");
         }
-        setPendingImage(photo.base64);
+        setPendingImage(photo.base64, friendPhotos.map((f) => f.base64));
 
         router.push({
           pathname: "/(app)/results",
           params: {
             photoUri: photo.uri,
-            presetId: selectedPreset,
-            styleId: selectedStyle,
+            ...generationParams(),
           },
         });
       }
@@ -127,9 +188,10 @@ export default function GenerateScreen() {
   };
 
   const handlePickImage = async () => {
-    const totalCredits =
-      (credits?.free_credits || 0) + (credits?.image_credits || 0);
-    if (totalCredits <= 0) {
+    if (!ensureCustomPrompt()) return;
+
+    const totalCredits = getSpendableCredits(credits);
+    if (totalCredits < (creditCost ?? 1)) {
       router.push("/(app)/purchase");
       return;
     }
@@ -149,14 +211,13 @@ export default function GenerateScreen() {
         if (!asset.base64) {
           throw new Error("Failed to process image");
         }
-        setPendingImage(asset.base64);
+        setPendingImage(asset.base64, friendPhotos.map((f) => f.base64));
 
         router.push({
           pathname: "/(app)/results",
           params: {
             photoUri: asset.uri,
-            presetId: selectedPreset,
-            styleId: selectedStyle,
+            ...generationParams(),
           },
         });
       }
@@ -168,6 +229,40 @@ export default function GenerateScreen() {
     }
   };
 
+  const handleAddFriend = async () => {
+    if (friendPhotos.length >= MAX_FRIEND_PHOTOS) return;
+
+    setIsAddingFriend(true);
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 0.5,
+        base64: true,
+      });
+
+      if (!result.canceled && result.assets[0]) {
+        const asset = result.assets[0];
+        if (!asset.base64) {
+          throw new Error("Failed to process image");
+        }
+        setFriendPhotos((prev) =>
+          [...prev, { uri: asset.uri, base64: asset.base64! }].slice(0, MAX_FRIEND_PHOTOS)
+        );
+      }
+    } catch (error) {
+      console.error("Failed to add friend photo:", error);
+      Alert.alert("Error", "Failed to add photo. Please try again.");
+    } finally {
+      setIsAddingFriend(false);
+    }
+  };
+
+  const handleRemoveFriend = (index: number) => {
+    setFriendPhotos((prev) => prev.filter((_, i) => i !== index));
+  };
+
   if (!permission) {
     return (
       <View className="flex-1 bg-background justify-center items-center">
@@ -199,8 +294,7 @@ export default function GenerateScreen() {
     );
   }
 
-  const totalCredits =
-    (credits?.free_credits || 0) + (credits?.image_credits || 0);
+  const totalCredits = getSpendableCredits(credits);
 
   return (
     <View className="flex-1 bg-background">
@@ -287,9 +381,12 @@ export default function GenerateScreen() {
               </View>
             </View>
 
+            {/* Unfinished generations - tap to reopen results */}
+            <PendingGenerationsTray />
+
             {/* Style Swiper - left side */}
             <StyleSwiper
-              styles={STYLE_PICKER_OPTIONS}
+              styles={styles}
               selectedStyleId={selectedStyle}
               onStyleChange={setSelectedStyle}
             />
@@ -298,10 +395,38 @@ export default function GenerateScreen() {
 
             {/* Bottom Controls */}
             <View className="pb-2">
+              {/* Scene description for the Custom preset */}
+              {needsCustomPrompt && (
+                <View className="mb-3">
+                  <CustomPromptInput value={customPrompt} onChangeText={setCustomPrompt} />
+                </View>
+              )}
+
+              {/* Aspect ratio and batch size */}
+              <View className="mb-3">
+                <BatchOptionsRow
+                  aspectRatio={aspectRatio}
+                  onAspectRatioChange={setAspectRatio}
+                  imageCount={imageCount}
+                  onImageCountChange={setImageCount}
+                  creditCost={creditCost}
+                />
+              </View>
+
+              {/* Friends to include in the photo */}
+              <View className="mb-3">
+                <FriendPhotosRow
+                  photos={friendPhotos}
+                  onAdd={handleAddFriend}
+                  onRemove={handleRemoveFriend}
+                  isAdding={isAddingFriend}
+                />
+              </View>
+
               {/* Preset Selector - Centered swipeable */}
               <View className="mb-4">
                 <FilterSwiper
-                  filters={PRESET_PICKER_OPTIONS}
+                  filters={presets}
                   selectedFilterId={selectedPreset}
                   onFilterChange={setSelectedPreset}
                 />
@@ -6,11 +6,14 @@
  *
  * Features:
  * - Full-width single-column image layout
- * - User avatars and names
+ * - User avatars and names (tap for the creator's profile), preset and style labels
+ * - Likes: heart on each card and in the fullscreen preview
+ * - Report others' images (enough reports take an image off the feed)
  * - Pull to refresh
- * - Load more on scroll (infinite pagination)
+ * - Feed modes: Latest, Trending, Following, narrowed by preset
+ * - Load more on scroll (cursor pagination)
  * - Real-time updates via Supabase Realtime subscription
- *   (new shared images appear instantly without refresh)
+ *   (new shared images appear instantly in the Latest feed)
  */
 
 import React, { useState, useCallback, useRef, useEffect } from "react";
@@ -22,28 +25,41 @@ import {
   ActivityIndicator,
   Dimensions,
   TouchableOpacity,
+  Pressable,
+  Alert,
 } from "react-native";
 import { FlashList } from "@shopify/flash-list";
 import { Image } from "expo-image";
+import { Flag } from "lucide-react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
+import { File, Paths } from "expo-file-system";
+import * as MediaLibrary from "expo-media-library";
 import { supabase } from "../../lib/supabase";
 import { RealtimeChannel } from "@supabase/supabase-js";
 import { useAuth } from "../../contexts/AuthContext";
 import { Avatar } from "../../components/Avatar";
+import { LikeButton } from "../../components/LikeButton";
+import { ImagePreviewModal } from "../../components/ImagePreviewModal";
+import { toggleImageLike } from "../../lib/reactions";
+import {
+  fetchFeedPage,
+  type FeedImage,
+  type FeedCursor,
+  type FeedMode,
+} from "../../lib/feed";
+import { FeedModeControl } from "../../components/FeedModeControl";
+import { ReportSheet } from "../../components/ReportSheet";
+import { reportImage, type ReportReason } from "../../lib/reports";
+import { shareImage } from "../../lib/sharing";
 
 const { width } = Dimensions.get("window");
 const IMAGE_SIZE = width; // Edge-to-edge full width
-const PAGE_SIZE = 20;
-
-interface FeedImage {
-  id: string;
-  user_id: string;
-  image_url: string;
-  preset_id: string;
-  created_at: string;
-  user_avatar_url?: string;
-  user_name?: string;
+
+// e.g. "🌌 Northern Lights · Cinematic"
+function formatFeedLabel(image: FeedImage): string {
+  const preset = [image.preset_emoji, image.preset_name].filter(Boolean).join(" ");
+  return image.style_name ? `${preset} · ${image.style_name}` : preset;
 }
 
 export default function HomeScreen() {
@@ -53,10 +69,24 @@ export default function HomeScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
-  const [hasMore, setHasMore] = useState(true);
+  const [nextCursor, setNextCursor] = useState<FeedCursor | null>(null);
+  const [feedMode, setFeedMode] = useState<FeedMode>("latest");
+  const [presetId, setPresetId] = useState<string | null>(null);
+  // Realtime handlers read these; responses for a previous mode are dropped
+  const feedQueryRef = useRef({ mode: feedMode, presetId });
+  const fetchIdRef = useRef(0);
   const [error, setError] = useState<string | null>(null);
   const channelRef = useRef<RealtimeChannel | null>(null);
   const [profileAvatarUrl, setProfileAvatarUrl] = useState<string | null>(null);
+  const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  const selectedImage = images.find((img) => img.id === selectedImageId) ?? null;
+  const [reportingImageId, setReportingImageId] = useState<string | null>(null);
+
+  // Only Latest is newest-first, so only it takes Realtime inserts
+  const acceptsLiveImage = (image: FeedImage) =>
+    feedQueryRef.current.mode === "latest" &&
+    (!feedQueryRef.current.presetId ||
+      feedQueryRef.current.presetId === image.preset_id);
 
   // Fetch current user's profile avatar
   useEffect(() => {
@@ -97,10 +127,17 @@ export default function HomeScreen() {
             user_id: payload.new.user_id,
             image_url: payload.new.image_url,
             preset_id: payload.new.preset_id,
+            style_id: payload.new.style_id,
             created_at: payload.new.created_at,
+            preset_name: null,
+            preset_emoji: null,
+            style_name: null,
+            like_count: payload.new.like_count ?? 0,
+            liked: false,
             user_avatar_url: null,
             user_name: null,
           };
+          if (!acceptsLiveImage(newImage)) return;
           setImages((prev) => [newImage, ...prev]);
         }
       )
@@ -120,10 +157,17 @@ export default function HomeScreen() {
               user_id: payload.new.user_id,
               image_url: payload.new.image_url,
               preset_id: payload.new.preset_id,
+              style_id: payload.new.style_id,
               created_at: payload.new.created_at,
+              preset_name: null,
+              preset_emoji: null,
+              style_name: null,
+              like_count: payload.new.like_count ?? 0,
+              liked: false,
               user_avatar_url: null,
               user_name: null,
             };
+            if (!acceptsLiveImage(newImage)) return;
             // Avoid duplicates
             setImages((prev) => {
               if (prev.some(img => img.id === newImage.id)) return prev;
@@ -144,102 +188,145 @@ export default function HomeScreen() {
     };
   }, []);
 
-  const fetchFeed = useCallback(async (offset = 0, refresh = false) => {
+  const fetchFeed = useCallback(async (cursor: FeedCursor | null = null, refresh = false) => {
+    const fetchId = ++fetchIdRef.current;
     try {
       if (refresh) {
         setRefreshing(true);
-      } else if (offset === 0) {
+      } else if (!cursor) {
         setLoading(true);
       } else {
         setLoadingMore(true);
       }
       setError(null);
 
-      // Query images first
-      const { data: feedImages, error: fetchError } = await supabase
-        .from("images")
-        .select("id, user_id, generation_batch_id, image_url, preset_id, created_at")
-        .eq("is_public", true)
-        .order("created_at", { ascending: false })
-        .range(offset, offset + PAGE_SIZE - 1);
-
-      if (fetchError) {
-        throw new Error(fetchError.message);
-      }
-
-      // Get unique user IDs to fetch profiles
-      const userIds = [...new Set((feedImages || []).map((img) => img.user_id))];
+      // One round trip: images with authors, labels and likes
+      const page = await fetchFeedPage({ mode: feedMode, presetId }, cursor);
+      if (fetchId !== fetchIdRef.current) return;
 
-      // Fetch profiles for these users
-      let profilesMap: Record<string, { first_name: string | null; last_name: string | null; avatar_url: string | null }> = {};
-      if (userIds.length > 0) {
-        const { data: profiles } = await supabase
-          .from("profiles")
-          .select("id, first_name, last_name, avatar_url")
-          .in("id", userIds);
-
-        if (profiles) {
-          profilesMap = profiles.reduce((acc, profile) => {
-            acc[profile.id] = {
-              first_name: profile.first_name,
-              last_name: profile.last_name,
-              avatar_url: profile.avatar_url,
-            };
-            return acc;
-          }, {} as typeof profilesMap);
-        }
-      }
-
-      // Transform data with profile info
-      const transformedImages = (feedImages || []).map((img: any) => {
-        const profile = profilesMap[img.user_id];
-        // Build display name from first/last name
-        const userName = profile?.first_name || profile?.last_name
-          ? `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim()
-          : null;
-        return {
-          id: img.id,
-          user_id: img.user_id,
-          generation_batch_id: img.generation_batch_id,
-          image_url: img.image_url,
-          preset_id: img.preset_id,
-          created_at: img.created_at,
-          user_avatar_url: profile?.avatar_url || null,
-          user_name: userName,
-        };
-      });
-
-      if (refresh || offset === 0) {
-        setImages(transformedImages);
+      if (!cursor) {
+        setImages(page.images);
       } else {
-        setImages((prev) => [...prev, ...transformedImages]);
+        // Images shared while scrolling may already be at the top via Realtime,
+        // and an unlike can move a trending image onto a later page
+        setImages((prev) => {
+          const seen = new Set(prev.map((img) => img.id));
+          return [...prev, ...page.images.filter((img) => !seen.has(img.id))];
+        });
       }
 
-      // Check if there might be more
-      setHasMore(transformedImages.length === PAGE_SIZE);
+      setNextCursor(page.nextCursor);
     } catch (err: any) {
+      if (fetchId !== fetchIdRef.current) return;
       console.error("Feed error:", err);
       setError(err.message || "Failed to load feed");
     } finally {
-      setLoading(false);
-      setRefreshing(false);
-      setLoadingMore(false);
+      if (fetchId === fetchIdRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+        setLoadingMore(false);
+      }
     }
-  }, []);
+  }, [feedMode, presetId]);
 
   useFocusEffect(
     useCallback(() => {
-      fetchFeed(0, true);
+      fetchFeed(null, true);
     }, [fetchFeed])
   );
 
+  // Clearing shows the full-screen loader; the focus effect refetches
+  // because fetchFeed changes with the query
+  const handleFeedQueryChange = (mode: FeedMode, nextPresetId: string | null) => {
+    if (mode === feedMode && nextPresetId === presetId) return;
+    feedQueryRef.current = { mode, presetId: nextPresetId };
+    setImages([]);
+    setNextCursor(null);
+    setLoading(true);
+    setFeedMode(mode);
+    setPresetId(nextPresetId);
+  };
+
   const handleRefresh = () => {
-    fetchFeed(0, true);
+    fetchFeed(null, true);
   };
 
   const handleLoadMore = () => {
-    if (!loadingMore && hasMore) {
-      fetchFeed(images.length);
+    if (!loadingMore && nextCursor) {
+      fetchFeed(nextCursor);
+    }
+  };
+
+  const setLikeState = (imageId: string, liked: boolean, likeCount: number) => {
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === imageId ? { ...img, liked, like_count: likeCount } : img
+      )
+    );
+  };
+
+  // Optimistically flip the like, then settle on the server's count
+  const handleToggleLike = async (image: FeedImage) => {
+    const nextLiked = !image.liked;
+    setLikeState(
+      image.id,
+      nextLiked,
+      Math.max(0, image.like_count + (nextLiked ? 1 : -1))
+    );
+
+    try {
+      const result = await toggleImageLike(image.id);
+      setLikeState(image.id, result.liked, result.likeCount);
+    } catch (err: any) {
+      console.error("Like error:", err);
+      setLikeState(image.id, image.liked, image.like_count);
+      if (err.message === "IMAGE_NOT_FOUND") {
+        // No longer public - drop it from the feed
+        setImages((prev) => prev.filter((img) => img.id !== image.id));
+      }
+    }
+  };
+
+  // The reporter stops seeing the image either way
+  const handleReport = async (imageId: string, reason: ReportReason) => {
+    try {
+      await reportImage(imageId, reason);
+      setReportingImageId(null);
+      setImages((prev) => prev.filter((img) => img.id !== imageId));
+      Alert.alert("Thanks for letting us know", "We'll review this photo.");
+    } catch (err: any) {
+      console.error("Report error:", err);
+      setReportingImageId(null);
+      if (err.message === "IMAGE_NOT_FOUND") {
+        setImages((prev) => prev.filter((img) => img.id !== imageId));
+        return;
+      }
+      Alert.alert("Error", "Failed to report photo. Please try again.");
+    }
+  };
+
+  const handleSave = async (imageUrl: string) => {
+    try {
+      const { status } = await MediaLibrary.requestPermissionsAsync();
+      if (status !== "granted") {
+        Alert.alert(
+          "Permission Required",
+          "Please grant photo library access to save images."
+        );
+        return;
+      }
+
+      const file = await File.downloadFileAsync(
+        imageUrl,
+        new File(Paths.cache, `creative_moose_${Date.now()}.png`),
+        { idempotent: true }
+      );
+
+      await MediaLibrary.saveToLibraryAsync(file.uri);
+      Alert.alert("Saved!", "Image saved to your photo library.");
+    } catch (err) {
+      console.error("Save error:", err);
+      Alert.alert("Error", "Failed to save image. Please try again.");
     }
   };
 
@@ -248,24 +335,54 @@ export default function HomeScreen() {
       className="overflow-hidden mb-4"
       style={{ width: IMAGE_SIZE }}
     >
-      <Image
-        source={{ uri: item.image_url }}
-        style={{ width: IMAGE_SIZE, height: IMAGE_SIZE }}
-        contentFit="cover"
-        transition={200}
-      />
-      {item.user_name && (
-        <View className="flex-row items-center p-2.5 gap-2 bg-neutral-900">
-          <Avatar
-            url={item.user_avatar_url}
-            name={item.user_name}
-            size="small"
-          />
-          <Text className="text-white/70 text-[13px] flex-1" numberOfLines={1}>
-            {item.user_name}
-          </Text>
-        </View>
-      )}
+      <Pressable onPress={() => setSelectedImageId(item.id)}>
+        <Image
+          source={{ uri: item.image_url }}
+          style={{ width: IMAGE_SIZE, height: IMAGE_SIZE }}
+          contentFit="cover"
+          transition={200}
+        />
+      </Pressable>
+      <View className="flex-row items-center p-2.5 gap-2 bg-neutral-900">
+        <Pressable
+          className="flex-row items-center gap-2 flex-1"
+          onPress={() => router.push(`/(app)/user/${item.user_id}`)}
+        >
+          {item.user_name && (
+            <Avatar
+              url={item.user_avatar_url}
+              name={item.user_name}
+              size="small"
+            />
+          )}
+          <View className="flex-1">
+            {item.user_name && (
+              <Text className="text-white/70 text-[13px]" numberOfLines={1}>
+                {item.user_name}
+              </Text>
+            )}
+            {item.preset_name && (
+              <Text className="text-white/40 text-xs" numberOfLines={1}>
+                {formatFeedLabel(item)}
+              </Text>
+            )}
+          </View>
+        </Pressable>
+        <LikeButton
+          liked={item.liked}
+          count={item.like_count}
+          onPress={() => handleToggleLike(item)}
+        />
+        {item.user_id !== user?.id && (
+          <Pressable
+            onPress={() => setReportingImageId(item.id)}
+            hitSlop={8}
+            className="ml-2"
+          >
+            <Flag color="rgba(255,255,255,0.5)" size={18} />
+          </Pressable>
+        )}
+      </View>
     </View>
   );
 
@@ -283,10 +400,12 @@ export default function HomeScreen() {
     return (
       <View className="flex-1 justify-center items-center p-6 pt-[100px]">
         <Text className="text-white text-lg font-semibold mb-2">
-          No shared photos yet
+          {feedMode === "following" ? "Nothing here yet" : "No shared photos yet"}
         </Text>
         <Text className="text-white/50 text-sm text-center">
-          Be the first to share your AI-generated photos!
+          {feedMode === "following"
+            ? "Photos shared by creators you follow will show up here."
+            : "Be the first to share your AI-generated photos!"}
         </Text>
       </View>
     );
@@ -316,6 +435,13 @@ export default function HomeScreen() {
         />
       </View>
 
+      <FeedModeControl
+        mode={feedMode}
+        onModeChange={(mode) => handleFeedQueryChange(mode, presetId)}
+        presetId={presetId}
+        onPresetChange={(id) => handleFeedQueryChange(feedMode, id)}
+      />
+
       {loading && images.length === 0 ? (
         <View className="flex-1 justify-center items-center">
           <ActivityIndicator color="white" size="large" />
@@ -327,7 +453,7 @@ export default function HomeScreen() {
           </Text>
           <TouchableOpacity
             className="bg-white/10 px-6 py-3 rounded-lg"
-            onPress={() => fetchFeed(0)}
+            onPress={() => fetchFeed()}
           >
             <Text className="text-white text-sm font-medium">Try Again</Text>
           </TouchableOpacity>
@@ -353,6 +479,39 @@ export default function HomeScreen() {
           showsVerticalScrollIndicator={false}
         />
       )}
+
+      <ImagePreviewModal
+        visible={selectedImage !== null}
+        imageUrl={selectedImage?.image_url ?? null}
+        imageId={selectedImage?.id ?? null}
+        isPreview={false}
+        onClose={() => setSelectedImageId(null)}
+        onSave={async () => {
+          if (selectedImage) {
+            await handleSave(selectedImage.image_url);
+          }
+        }}
+        onNativeShare={() => {
+          if (selectedImage) {
+            shareImage(selectedImage.image_url);
+          }
+        }}
+        isLiked={selectedImage?.liked}
+        likeCount={selectedImage?.like_count}
+        onToggleLike={
+          selectedImage ? () => handleToggleLike(selectedImage) : undefined
+        }
+      />
+
+      <ReportSheet
+        visible={reportingImageId !== null}
+        onClose={() => setReportingImageId(null)}
+        onSubmit={async (reason) => {
+          if (reportingImageId) {
+            await handleReport(reportingImageId, reason);
+          }
+        }}
+      />
     </SafeAreaView>
   );
 }
@@ -35,6 +35,14 @@ import {
 import { File, Paths } from "expo-file-system";
 import * as MediaLibrary from "expo-media-library";
 import { shareImage } from "../lib/sharing";
+import {
+  isNotShareableError,
+  isPendingReviewError,
+  isPublishingBannedError,
+  NOT_SHAREABLE_MESSAGE,
+  PENDING_REVIEW_MESSAGE,
+  PUBLISHING_BANNED_MESSAGE,
+} from "../lib/moderation";
 
 const { width, height } = Dimensions.get("window");
 
@@ -111,9 +119,17 @@ export default function ImagePreviewScreen() {
 
               setIsPublic(true);
               Alert.alert("Success", "Image shared to feed!");
-            } catch (error) {
+            } catch (error: any) {
               console.error("Share to feed error:", error);
-              Alert.alert("Error", "Failed to share to feed");
+              if (isPendingReviewError(error?.message)) {
+                Alert.alert("Can't Share Yet", PENDING_REVIEW_MESSAGE);
+              } else if (isNotShareableError(error?.message)) {
+                Alert.alert("Can't Share", NOT_SHAREABLE_MESSAGE);
+              } else if (isPublishingBannedError(error?.message)) {
+                Alert.alert("Can't Share", PUBLISHING_BANNED_MESSAGE);
+              } else {
+                Alert.alert("Error", "Failed to share to feed");
+              }
             } finally {
               setSharing(false);
             }
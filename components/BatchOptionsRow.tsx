@@ -0,0 +1,88 @@
+/**
+ * BatchOptionsRow Component
+ *
+ * Chips for the shape of the next generation: aspect ratio (square, 4:5
+ * portrait, 9:16 story) and how many images to make. The credit cost of the
+ * selected batch size is shown next to it once the server price is known.
+ *
+ * Usage:
+ *   <BatchOptionsRow
+ *     aspectRatio={aspectRatio}
+ *     onAspectRatioChange={setAspectRatio}
+ *     imageCount={imageCount}
+ *     onImageCountChange={setImageCount}
+ *     creditCost={creditCost}
+ *   />
+ */
+
+import { View, Text, Pressable } from "react-native";
+import {
+  ASPECT_RATIO_OPTIONS,
+  IMAGE_COUNT_OPTIONS,
+  type AspectRatio,
+} from "../shared/presets";
+
+interface BatchOptionsRowProps {
+  aspectRatio: AspectRatio;
+  onAspectRatioChange: (aspectRatio: AspectRatio) => void;
+  imageCount: number;
+  onImageCountChange: (imageCount: number) => void;
+  creditCost: number | null;
+}
+
+export function BatchOptionsRow({
+  aspectRatio,
+  onAspectRatioChange,
+  imageCount,
+  onImageCountChange,
+  creditCost,
+}: BatchOptionsRowProps) {
+  return (
+    <View className="flex-row items-center justify-center px-4 gap-3">
+      <View className="flex-row bg-neutral-900/80 rounded-full p-1">
+        {ASPECT_RATIO_OPTIONS.map((option) => (
+          <Pressable
+            key={option.id}
+            onPress={() => onAspectRatioChange(option.id)}
+            className={`px-3 py-1.5 rounded-full ${
+              option.id === aspectRatio ? "bg-white" : ""
+            }`}
+          >
+            <Text
+              className={`text-xs font-semibold ${
+                option.id === aspectRatio ? "text-black" : "text-white/80"
+              }`}
+            >
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <View className="flex-row items-center bg-neutral-900/80 rounded-full p-1">
+        {IMAGE_COUNT_OPTIONS.map((count) => (
+          <Pressable
+            key={count}
+            onPress={() => onImageCountChange(count)}
+            className={`w-7 h-7 rounded-full items-center justify-center ${
+              count === imageCount ? "bg-white" : ""
+            }`}
+          >
+            <Text
+              className={`text-xs font-semibold ${
+                count === imageCount ? "text-black" : "text-white/80"
+              }`}
+            >
+              {count}
+            </Text>
+          </Pressable>
+        ))}
+        {creditCost !== null && (
+          <Text className="text-white/60 text-xs ml-1 mr-2">
+            {creditCost} {creditCost === 1 ? "credit" : "credits"}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
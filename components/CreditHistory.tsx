@@ -0,0 +1,112 @@
+/**
+ * CreditHistory Component
+ *
+ * Recent entries from the signed-in user's credit ledger (credit_transactions):
+ * purchases, generations, refunds, grants, expiries and transfers, newest first.
+ *
+ * Refreshes whenever the host screen gains focus and renders nothing when
+ * there is no history yet.
+ *
+ * Usage:
+ *   <CreditHistory />
+ */
+
+import { useState, useCallback } from "react";
+import { View, Text } from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { History } from "lucide-react-native";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  supabase,
+  type CreditTransaction,
+  type CreditTransactionKind,
+} from "../lib/supabase";
+
+const HISTORY_LIMIT = 20;
+
+const KIND_LABELS: Record<CreditTransactionKind, string> = {
+  purchase: "Purchase",
+  generation: "Generation",
+  refund: "Refund",
+  admin_grant: "Bonus from support",
+  referral_bonus: "Referral bonus",
+  expiry: "Expired",
+  signup_bonus: "Welcome bonus",
+  adjustment: "Balance adjustment",
+  purchase_refund: "Purchase refunded",
+  transfer: "Account transfer",
+  subscription_allowance: "Monthly plan",
+};
+
+type HistoryEntry = Pick<
+  CreditTransaction,
+  "id" | "kind" | "pool" | "amount" | "created_at"
+>;
+
+export function CreditHistory() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user?.id) return;
+
+      const fetchHistory = async () => {
+        const { data, error } = await supabase
+          .from("credit_transactions")
+          .select("id, kind, pool, amount, created_at")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false })
+          .limit(HISTORY_LIMIT);
+
+        if (error) {
+          console.error("[CreditHistory] Failed to fetch:", error);
+          return;
+        }
+        setEntries(data || []);
+      };
+
+      fetchHistory();
+    }, [user?.id])
+  );
+
+  if (entries.length === 0) return null;
+
+  return (
+    <View className="mx-5 mt-6">
+      <View className="flex-row items-center gap-2 mb-3">
+        <History color="rgba(255,255,255,0.5)" size={16} />
+        <Text className="text-white/50 text-sm font-medium">
+          Credit History
+        </Text>
+      </View>
+
+      <View className="bg-white/5 rounded-2xl border border-white/5 overflow-hidden">
+        {entries.map((entry, index) => (
+          <View key={entry.id}>
+            {index > 0 && <View className="h-px bg-white/5 mx-4" />}
+            <View className="flex-row items-center justify-between px-4 py-3">
+              <View className="flex-1">
+                <Text className="text-white text-base">
+                  {KIND_LABELS[entry.kind] || entry.kind}
+                </Text>
+                <Text className="text-white/40 text-xs mt-0.5">
+                  {new Date(entry.created_at).toLocaleDateString()}
+                  {entry.pool === "free" ? " · Free credit" : ""}
+                  {entry.pool === "allowance" ? " · Plan credit" : ""}
+                </Text>
+              </View>
+              <Text
+                className={`text-base font-semibold ${
+                  entry.amount > 0 ? "text-green-400" : "text-white/60"
+                }`}
+              >
+                {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
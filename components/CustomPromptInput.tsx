@@ -0,0 +1,95 @@
+/**
+ * CustomPromptInput Component
+ *
+ * Text field for the "Custom" preset, where users describe their own scene.
+ * Shows the remaining characters and the user's recent custom prompts (from
+ * their generations) as chips to reuse. The server moderates the text again
+ * before generating.
+ *
+ * Usage:
+ *   <CustomPromptInput value={prompt} onChangeText={setPrompt} />
+ */
+
+import { useState, useCallback } from "react";
+import { View, Text, TextInput, ScrollView, Pressable } from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { useAuth } from "../contexts/AuthContext";
+import { supabase } from "../lib/supabase";
+import { CUSTOM_PROMPT_MAX_LENGTH } from "../shared/presets";
+
+const RECENT_PROMPT_LIMIT = 5;
+
+interface CustomPromptInputProps {
+  value: string;
+  onChangeText: (text: string) => void;
+}
+
+export function CustomPromptInput({ value, onChangeText }: CustomPromptInputProps) {
+  const { user } = useAuth();
+  const [recentPrompts, setRecentPrompts] = useState<string[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user?.id) return;
+
+      const fetchRecent = async () => {
+        const { data, error } = await supabase
+          .from("generations")
+          .select("custom_prompt")
+          .eq("user_id", user.id)
+          .not("custom_prompt", "is", null)
+          .order("created_at", { ascending: false })
+          .limit(20);
+
+        if (error) {
+          console.error("[CustomPromptInput] Failed to fetch recent prompts:", error);
+          return;
+        }
+
+        const unique = Array.from(new Set((data || []).map((row) => row.custom_prompt as string)));
+        setRecentPrompts(unique.slice(0, RECENT_PROMPT_LIMIT));
+      };
+
+      fetchRecent();
+    }, [user?.id])
+  );
+
+  return (
+    <View className="px-4">
+      <View className="bg-neutral-900/80 rounded-2xl px-4 py-3">
+        <TextInput
+          value={value}
+          onChangeText={onChangeText}
+          placeholder="Describe your scene, e.g. me on a Zamboni at Rogers Place"
+          placeholderTextColor="rgba(255, 255, 255, 0.4)"
+          maxLength={CUSTOM_PROMPT_MAX_LENGTH}
+          multiline
+          className="text-white text-sm max-h-20"
+        />
+        <Text className="text-white/40 text-xs text-right mt-1">
+          {CUSTOM_PROMPT_MAX_LENGTH - value.length}
+        </Text>
+      </View>
+
+      {recentPrompts.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={{ gap: 8, paddingTop: 8 }}
+        >
+          {recentPrompts.map((prompt) => (
+            <Pressable
+              key={prompt}
+              onPress={() => onChangeText(prompt)}
+              className="bg-neutral-900/80 rounded-full px-3 py-1.5 max-w-[220px]"
+            >
+              <Text className="text-white/80 text-xs" numberOfLines={1}>
+                {prompt}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * FeedModeControl Component
+ *
+ * Segmented control for the feed mode (Latest, Trending, Following) and a
+ * row of preset chips below it to narrow the feed to one preset.
+ *
+ * Usage:
+ *   <FeedModeControl
+ *     mode={feedMode}
+ *     onModeChange={setFeedMode}
+ *     presetId={presetId}
+ *     onPresetChange={setPresetId}
+ *   />
+ */
+
+import { View, Text, Pressable, ScrollView } from "react-native";
+import { FEED_MODE_OPTIONS, type FeedMode } from "../lib/feed";
+import { usePresetRegistry } from "../hooks/usePresetRegistry";
+
+interface FeedModeControlProps {
+  mode: FeedMode;
+  onModeChange: (mode: FeedMode) => void;
+  presetId: string | null;
+  onPresetChange: (presetId: string | null) => void;
+}
+
+export function FeedModeControl({
+  mode,
+  onModeChange,
+  presetId,
+  onPresetChange,
+}: FeedModeControlProps) {
+  const { presets } = usePresetRegistry();
+
+  const chips = [
+    { id: null, label: "All" },
+    ...presets.map((preset) => ({
+      id: preset.id as string | null,
+      label: `${preset.emoji} ${preset.name}`,
+    })),
+  ];
+
+  return (
+    <View className="gap-3 pb-3">
+      <View className="flex-row mx-4 bg-neutral-900/80 rounded-full p-1">
+        {FEED_MODE_OPTIONS.map((option) => (
+          <Pressable
+            key={option.id}
+            onPress={() => onModeChange(option.id)}
+            className={`flex-1 items-center py-1.5 rounded-full ${
+              option.id === mode ? "bg-white" : ""
+            }`}
+          >
+            <Text
+              className={`text-[13px] font-semibold ${
+                option.id === mode ? "text-black" : "text-white/80"
+              }`}
+            >
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={{ paddingHorizontal: 16, gap: 8 }}
+      >
+        {chips.map((chip) => (
+          <Pressable
+            key={chip.id ?? "all"}
+            onPress={() => onPresetChange(chip.id)}
+            className={`px-3 py-1.5 rounded-full ${
+              chip.id === presetId ? "bg-white" : "bg-neutral-900/80"
+            }`}
+          >
+            <Text
+              className={`text-xs font-semibold ${
+                chip.id === presetId ? "text-black" : "text-white/80"
+              }`}
+            >
+              {chip.label}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
@@ -10,6 +10,7 @@
  * - Scale/opacity animation based on distance from center
  * - Momentum scrolling with snap-to-item
  * - Tap on item to select and center it
+ * - Optional NEW / ENDING SOON badge for time-limited filters
  */
 
 import { useRef, useEffect, useCallback, useState } from "react";
@@ -29,8 +30,14 @@ interface Filter {
   id: string;
   name: string;
   emoji: string;
+  badge?: "new" | "ending_soon" | null;
 }
 
+const BADGE_LABELS = {
+  new: { text: "NEW", color: "#4ade80" },
+  ending_soon: { text: "ENDING SOON", color: "#fbbf24" },
+};
+
 interface FilterSwiperProps {
   filters: Filter[];
   selectedFilterId: string;
@@ -157,6 +164,18 @@ function FilterItem({
         >
           {item.name}
         </Text>
+        {item.badge && (
+          <Text
+            style={{
+              fontSize: 9,
+              fontWeight: "700",
+              color: BADGE_LABELS[item.badge].color,
+              marginLeft: 6,
+            }}
+          >
+            {BADGE_LABELS[item.badge].text}
+          </Text>
+        )}
       </Animated.View>
     </Pressable>
   );
@@ -189,6 +208,13 @@ export function FilterSwiper({
     []
   );
 
+  // Filters come from the server registry and can change after mount;
+  // drop measurements of items that no longer exist
+  const filterIds = filters.map((f) => f.id).join(",");
+  useEffect(() => {
+    setItemWidths((prev) => prev.slice(0, filters.length));
+  }, [filterIds]);
+
   // Calculate offsets and snap points when all items are measured
   useEffect(() => {
     if (itemWidths.length === filters.length && itemWidths.every((w) => w > 0)) {
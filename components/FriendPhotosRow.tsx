@@ -0,0 +1,79 @@
+/**
+ * FriendPhotosRow Component
+ *
+ * Thumbnails of the friends' photos added to the next generation, with a
+ * button to add another until the limit is reached. Everyone shown here is
+ * included in each generated image alongside the user.
+ *
+ * Usage:
+ *   <FriendPhotosRow photos={friends} onAdd={pickFriend} onRemove={removeFriend} />
+ */
+
+import { View, Text, Pressable, ActivityIndicator } from "react-native";
+import { Image } from "expo-image";
+import { UserPlus, X } from "lucide-react-native";
+
+export const MAX_FRIEND_PHOTOS = 3;
+
+export interface FriendPhoto {
+  uri: string;
+  base64: string;
+}
+
+interface FriendPhotosRowProps {
+  photos: FriendPhoto[];
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+  isAdding?: boolean;
+}
+
+export function FriendPhotosRow({
+  photos,
+  onAdd,
+  onRemove,
+  isAdding = false,
+}: FriendPhotosRowProps) {
+  return (
+    <View className="flex-row items-center justify-center px-4 gap-2">
+      {photos.map((photo, index) => (
+        <View key={photo.uri}>
+          <Image
+            source={{ uri: photo.uri }}
+            style={{ width: 40, height: 40, borderRadius: 20 }}
+            contentFit="cover"
+          />
+          <Pressable
+            onPress={() => onRemove(index)}
+            hitSlop={8}
+            className="absolute -top-1 -right-1 bg-neutral-900 w-5 h-5 rounded-full items-center justify-center"
+          >
+            <View pointerEvents="none">
+              <X color="white" size={12} />
+            </View>
+          </Pressable>
+        </View>
+      ))}
+
+      {photos.length < MAX_FRIEND_PHOTOS && (
+        <Pressable
+          onPress={onAdd}
+          disabled={isAdding}
+          className="flex-row items-center bg-neutral-900/80 h-10 px-3 rounded-full"
+        >
+          {isAdding ? (
+            <ActivityIndicator color="white" size="small" />
+          ) : (
+            <View pointerEvents="none">
+              <UserPlus color="white" size={18} />
+            </View>
+          )}
+          {photos.length === 0 && (
+            <Text className="text-white text-xs font-semibold ml-2">
+              Add friends
+            </Text>
+          )}
+        </Pressable>
+      )}
+    </View>
+  );
+}
@@ -6,6 +6,7 @@
  * - Pinch-to-zoom functionality
  * - Swipe down to dismiss
  * - Bottom action bar: Save, Share to Feed, Native Share
+ * - Like button for public feed images (when onToggleLike is given)
  * - Preview mode handling (hides Share to Feed for anonymous users)
  */
 
@@ -35,7 +36,7 @@ import {
   GestureHandlerRootView,
 } from "react-native-gesture-handler";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { Download, Globe, Share2, ChevronLeft, ChevronRight } from "lucide-react-native";
+import { Download, Globe, Share2, ChevronLeft, ChevronRight, Heart } from "lucide-react-native";
 import { HeaderButton } from "./HeaderButton";
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
@@ -48,8 +49,12 @@ interface ImagePreviewModalProps {
   isPreview: boolean; // Hide Share to Feed for preview mode
   onClose: () => void;
   onSave: () => Promise<void>;
-  onShareToFeed: () => Promise<void>;
+  onShareToFeed?: () => Promise<void>; // Omit to hide Share to Feed (e.g. feed images)
   onNativeShare: () => void;
+  // Like props for public feed images
+  isLiked?: boolean;
+  likeCount?: number;
+  onToggleLike?: () => void;
   // Navigation props for cycling through images
   currentIndex?: number;
   totalImages?: number;
@@ -66,6 +71,9 @@ export function ImagePreviewModal({
   onSave,
   onShareToFeed,
   onNativeShare,
+  isLiked = false,
+  likeCount = 0,
+  onToggleLike,
   currentIndex = 0,
   totalImages = 1,
   onPrevious,
@@ -173,6 +181,7 @@ export function ImagePreviewModal({
   };
 
   const handleShareToFeed = async () => {
+    if (!onShareToFeed) return;
     Alert.alert(
       "Share to Feed",
       "This will make your image visible to everyone on the public feed. Continue?",
@@ -277,7 +286,7 @@ export function ImagePreviewModal({
             </TouchableOpacity>
 
             {/* Share to Feed - only show for authenticated users with a valid imageId */}
-            {!isPreview && imageId && (
+            {!isPreview && imageId && onShareToFeed && (
               <TouchableOpacity
                 style={styles.actionButton}
                 onPress={handleShareToFeed}
@@ -295,6 +304,24 @@ export function ImagePreviewModal({
               </TouchableOpacity>
             )}
 
+            {/* Like - only for public feed images */}
+            {onToggleLike && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={onToggleLike}
+                activeOpacity={0.7}
+              >
+                <Heart
+                  color={isLiked ? "#ef4444" : "white"}
+                  fill={isLiked ? "#ef4444" : "transparent"}
+                  size={22}
+                />
+                <Text style={styles.actionText}>
+                  {likeCount > 0 ? likeCount : "Like"}
+                </Text>
+              </TouchableOpacity>
+            )}
+
             {/* Native Share */}
             <TouchableOpacity
               style={styles.actionButton}
@@ -0,0 +1,48 @@
+/**
+ * LikeButton Component
+ *
+ * Heart toggle with a like count, for images on the public feed. Filled red
+ * when the user has liked the image.
+ *
+ * Usage:
+ *   <LikeButton liked={image.liked} count={image.like_count} onPress={() => toggle(image.id)} />
+ */
+
+import { Pressable, Text, View } from "react-native";
+import { Heart } from "lucide-react-native";
+
+interface LikeButtonProps {
+  liked: boolean;
+  count: number;
+  onPress?: () => void;
+  size?: number;
+  disabled?: boolean;
+}
+
+export function LikeButton({
+  liked,
+  count,
+  onPress,
+  size = 20,
+  disabled = false,
+}: LikeButtonProps) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled || !onPress}
+      hitSlop={8}
+      className="flex-row items-center gap-1.5"
+    >
+      <View pointerEvents="none">
+        <Heart
+          color={liked ? "#ef4444" : "white"}
+          fill={liked ? "#ef4444" : "transparent"}
+          size={size}
+        />
+      </View>
+      {count > 0 && (
+        <Text className="text-white/80 text-[13px] font-medium">{count}</Text>
+      )}
+    </Pressable>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * PendingGenerationsTray Component
+ *
+ * Lists the signed-in user's unfinished generations (pending/in_progress) so a
+ * batch interrupted by the app being killed can be reopened on the results
+ * screen, which hydrates from the images already persisted for it.
+ *
+ * Refreshes whenever the host screen gains focus and renders nothing when
+ * there are no unfinished generations.
+ *
+ * Usage:
+ *   <PendingGenerationsTray />
+ */
+
+import { useState, useCallback } from "react";
+import { View, Text, ScrollView, Pressable } from "react-native";
+import { Image } from "expo-image";
+import { useRouter } from "expo-router";
+import { useFocusEffect } from "@react-navigation/native";
+import { useAuth } from "../contexts/AuthContext";
+import { supabase, type Generation } from "../lib/supabase";
+import { usePresetRegistry } from "../hooks/usePresetRegistry";
+
+// Older batches can no longer receive images, so don't offer them
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+type PendingGeneration = Pick<
+  Generation,
+  "id" | "preset_id" | "style_id" | "image_urls" | "image_count" | "status" | "created_at"
+>;
+
+export function PendingGenerationsTray() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { presets } = usePresetRegistry();
+  const [generations, setGenerations] = useState<PendingGeneration[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user?.id) return;
+
+      const fetchPending = async () => {
+        const { data, error } = await supabase
+          .from("generations")
+          .select("id, preset_id, style_id, image_urls, image_count, status, created_at")
+          .eq("user_id", user.id)
+          .in("status", ["pending", "in_progress"])
+          .gte("created_at", new Date(Date.now() - MAX_AGE_MS).toISOString())
+          .order("created_at", { ascending: false })
+          .limit(10);
+
+        if (error) {
+          console.error("[PendingGenerationsTray] Failed to fetch:", error);
+          return;
+        }
+        setGenerations(data || []);
+      };
+
+      fetchPending();
+    }, [user?.id])
+  );
+
+  if (generations.length === 0) return null;
+
+  const handleOpen = (generation: PendingGeneration) => {
+    router.push({
+      pathname: "/(app)/results",
+      params: {
+        generationId: generation.id,
+        presetId: generation.preset_id,
+        styleId: generation.style_id || "photorealistic",
+      },
+    });
+  };
+
+  return (
+    <View className="py-2">
+      <Text className="text-white/60 text-xs font-semibold uppercase px-4 mb-2">
+        In progress
+      </Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={{ paddingHorizontal: 16, gap: 8 }}
+      >
+        {generations.map((generation) => {
+          const preset = presets.find((p) => p.id === generation.preset_id);
+          const readyCount = generation.image_urls?.length || 0;
+          const thumbnailUrl = generation.image_urls?.[0];
+
+          return (
+            <Pressable
+              key={generation.id}
+              onPress={() => handleOpen(generation)}
+              className="flex-row items-center bg-neutral-900/80 rounded-2xl p-2 pr-4"
+            >
+              {thumbnailUrl ? (
+                <Image
+                  source={{ uri: thumbnailUrl }}
+                  style={{ width: 40, height: 40, borderRadius: 12 }}
+                  contentFit="cover"
+                />
+              ) : (
+                <View className="w-10 h-10 rounded-xl bg-white/10 items-center justify-center">
+                  <Text className="text-lg">{preset?.emoji || "✨"}</Text>
+                </View>
+              )}
+              <View className="ml-3">
+                <Text className="text-white text-sm font-semibold">
+                  {preset?.name || generation.preset_id}
+                </Text>
+                <Text className="text-white/50 text-xs mt-0.5">
+                  {readyCount}/{generation.image_count} ready
+                </Text>
+              </View>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * ReportSheet Component
+ *
+ * Bottom sheet for reporting a feed image. Lists the report reasons; picking
+ * one submits the report.
+ *
+ * Usage:
+ *   <ReportSheet
+ *     visible={reportingImageId !== null}
+ *     onClose={() => setReportingImageId(null)}
+ *     onSubmit={(reason) => handleReport(reportingImageId, reason)}
+ *   />
+ */
+
+import { useState } from "react";
+import { View, Text, Modal, Pressable, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { ChevronRight } from "lucide-react-native";
+import { REPORT_REASONS, type ReportReason } from "../lib/reports";
+
+interface ReportSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (reason: ReportReason) => Promise<void>;
+}
+
+export function ReportSheet({ visible, onClose, onSubmit }: ReportSheetProps) {
+  const [submittingReason, setSubmittingReason] = useState<ReportReason | null>(null);
+
+  const handleSelect = async (reason: ReportReason) => {
+    if (submittingReason) return;
+    setSubmittingReason(reason);
+    try {
+      await onSubmit(reason);
+    } finally {
+      setSubmittingReason(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <Pressable className="flex-1 bg-black/60" onPress={onClose} />
+      <View className="bg-neutral-900 rounded-t-3xl">
+        <SafeAreaView edges={["bottom"]}>
+          {/* Handle Bar */}
+          <View className="items-center pt-3 pb-2">
+            <View className="w-10 h-1 rounded-full bg-white/20" />
+          </View>
+
+          <View className="px-5 pb-3 border-b border-white/5">
+            <Text className="text-white text-lg font-semibold">Report Photo</Text>
+            <Text className="text-white/50 text-sm mt-1">
+              Why are you reporting this photo?
+            </Text>
+          </View>
+
+          <View className="pb-4">
+            {REPORT_REASONS.map((reason) => (
+              <Pressable
+                key={reason.id}
+                onPress={() => handleSelect(reason.id)}
+                disabled={submittingReason !== null}
+                className="flex-row items-center justify-between px-5 py-4"
+              >
+                <Text className="text-white text-base">{reason.label}</Text>
+                {submittingReason === reason.id ? (
+                  <ActivityIndicator color="white" size="small" />
+                ) : (
+                  <ChevronRight color="rgba(255,255,255,0.3)" size={18} />
+                )}
+              </Pressable>
+            ))}
+          </View>
+        </SafeAreaView>
+      </View>
+    </Modal>
+  );
+}
@@ -7,6 +7,7 @@
  * - Smooth fade-in transition when image loads
  * - Error state display with retry option
  * - "Generating X..." label showing current generation status
+ * - Sized to the batch's aspect ratio (square by default)
  *
  * Used in the results screen to progressively display images as they arrive.
  */
@@ -33,8 +34,10 @@ interface SkeletonImageCardProps {
   isLoading: boolean;
   /** Error message if generation failed */
   error: string | null;
-  /** Index of this image (0-3), used for staggered animations */
+  /** Index of this image in the batch, used for staggered animations */
   index: number;
+  /** Width / height of the generated image, 1 for square */
+  aspectRatio?: number;
   /** Optional callback when retry is pressed */
   onRetry?: () => void;
 }
@@ -49,6 +52,7 @@ export function SkeletonImageCard({
   isLoading,
   error,
   index,
+  aspectRatio = 1,
   onRetry,
 }: SkeletonImageCardProps) {
   // Shimmer animation
@@ -90,7 +94,7 @@ export function SkeletonImageCard({
   if (error) {
     return (
       <View style={styles.container}>
-        <View style={[styles.card, styles.errorCard]}>
+        <View style={[styles.card, { aspectRatio }]}>
           <View style={styles.errorContent}>
             <AlertCircle color="#ef4444" size={32} />
             <Text style={styles.errorText}>Failed</Text>
@@ -113,7 +117,7 @@ export function SkeletonImageCard({
     return (
       <View style={styles.container}>
         <View style={styles.card}>
-          <Animated.View style={[styles.imageContainer, imageAnimatedStyle]}>
+          <Animated.View style={[{ aspectRatio }, imageAnimatedStyle]}>
             <Image
               source={{ uri: imageUrl }}
               style={styles.image}
@@ -130,7 +134,7 @@ export function SkeletonImageCard({
   return (
     <View style={styles.container}>
       <View style={styles.card}>
-        <View style={styles.skeletonContainer}>
+        <View style={[styles.skeletonContainer, { aspectRatio }]}>
           {/* Base skeleton color */}
           <View style={styles.skeletonBase} />
 
@@ -160,9 +164,6 @@ const styles = StyleSheet.create({
     overflow: "hidden",
     backgroundColor: "#1c1c1c",
   },
-  errorCard: {
-    aspectRatio: 1,
-  },
   errorContent: {
     flex: 1,
     alignItems: "center",
@@ -195,15 +196,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "500",
   },
-  imageContainer: {
-    aspectRatio: 1,
-  },
   image: {
     width: "100%",
     height: "100%",
   },
   skeletonContainer: {
-    aspectRatio: 1,
     position: "relative",
   },
   skeletonBase: {
@@ -196,7 +196,10 @@ export function StyleSwiper({
   // Padding to center first/last items
   const verticalPadding = (CONTAINER_HEIGHT - ITEM_HEIGHT) / 2;
 
-  // Scroll to selected item on mount
+  // Styles come from the server registry and can change after mount
+  const styleIds = styles.map((s) => s.id).join(",");
+
+  // Scroll to selected item on mount and when the list changes
   useEffect(() => {
     if (listRef.current && currentIndex >= 0) {
       setCenteredIndex(currentIndex);
@@ -208,7 +211,7 @@ export function StyleSwiper({
         });
       }, 100);
     }
-  }, []);
+  }, [styleIds]);
 
   // Update centered index from scroll position
   const updateCenteredIndex = useCallback(
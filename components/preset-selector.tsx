@@ -1,7 +1,7 @@
 "use client";
 
 import { useRef, useEffect } from "react";
-import { getAllPresets } from "@/lib/presets";
+import { usePresetRegistry } from "@/hooks/usePresetRegistry";
 import { cn } from "@/lib/utils";
 import GlassSurface from "./GlassSurface";
 
@@ -24,8 +24,10 @@ export function PresetSelector({
   className,
 }: PresetSelectorProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
-  const presets = getAllPresets().filter(
-    (preset) => !(hideWithUs && preset.requiresRefs)
+  const registry = usePresetRegistry();
+  // The web camera flow has no text input for custom prompts
+  const presets = registry.presets.filter(
+    (preset) => !(hideWithUs && preset.requiresRefs) && !preset.allowsCustomPrompt
   );
 
   // Center selected item on mount and when selection changes
@@ -149,15 +151,8 @@ export function PresetSelector({
               className={cn(
                 "transition-all relative",
                 isSelected ? "scale-110" : "scale-90",
-                disabled && "cursor-not-allowed opacity-30",
-                preset.rainbowBorder && "animate-rainbow before:absolute before:bottom-[-20%] before:left-1/2 before:z-0 before:h-1/5 before:w-3/5 before:-translate-x-1/2 before:animate-rainbow before:bg-[linear-gradient(90deg,var(--color-1),var(--color-5),var(--color-3),var(--color-4),var(--color-2))] before:[filter:blur(0.75rem)]",
-                preset.rainbowBorder && "[background-clip:padding-box,border-box,border-box] [background-origin:border-box] [border:calc(0.125rem)_solid_transparent]"
+                disabled && "cursor-not-allowed opacity-30"
               )}
-              style={preset.rainbowBorder ? {
-                background: "linear-gradient(#121213,#111111),linear-gradient(#121213 50%,rgba(18,18,19,0.6) 80%,rgba(18,18,19,0)),linear-gradient(90deg,var(--color-1),var(--color-5),var(--color-3),var(--color-4),var(--color-2))",
-                backgroundSize: "200%",
-                ["--speed" as string]: "3s"
-              } : undefined}
             >
               <button
                 type="button"
@@ -173,6 +168,16 @@ export function PresetSelector({
                 )}
               >
                 {preset.name}
+                {preset.badge && (
+                  <span
+                    className={cn(
+                      "ml-2 text-[10px] font-bold",
+                      preset.badge === "new" ? "text-green-400" : "text-amber-400"
+                    )}
+                  >
+                    {preset.badge === "new" ? "NEW" : "ENDING SOON"}
+                  </span>
+                )}
               </button>
             </GlassSurface>
 
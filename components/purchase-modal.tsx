@@ -2,14 +2,15 @@
  * PurchaseModal Component
  *
  * Displays pricing options modal for purchasing generation credits.
- * Shows 3 pricing tiers with radio button selection and Stripe checkout integration.
+ * Shows the web credit packs from the product catalog with radio button
+ * selection and Stripe checkout integration.
  */
 
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Logo } from "@/components/logo";
-import { PRICING_OPTIONS } from "@/lib/pricing";
+import { fetchPricingOptions, getPricingOption, type PricingOption } from "@/lib/pricing";
 
 interface PurchaseModalProps {
   onClose: () => void;
@@ -18,14 +19,25 @@ interface PurchaseModalProps {
 }
 
 export function PurchaseModal({ onClose, onPurchaseComplete, defaultCreditType = 'image' }: PurchaseModalProps) {
-  const imageOptions = PRICING_OPTIONS.filter(opt => opt.creditType === 'image');
-  const [selectedOption, setSelectedOption] = useState(
-    imageOptions[0]?.id || PRICING_OPTIONS[0].id
-  );
+  const [pricingOptions, setPricingOptions] = useState<PricingOption[]>([]);
+  const imageOptions = pricingOptions.filter(opt => opt.creditType === 'image');
+  const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
+  // Load packs from the product catalog
+  useEffect(() => {
+    fetchPricingOptions()
+      .then((options) => {
+        setPricingOptions(options);
+        const defaults = options.filter(opt => opt.creditType === 'image');
+        setSelectedOption(defaults[0]?.id || options[0]?.id || null);
+      })
+      .catch((error) => console.error("Failed to load pricing:", error));
+  }, []);
+
   const handlePurchase = async () => {
-    const option = PRICING_OPTIONS.find((o) => o.id === selectedOption);
+    if (!selectedOption) return;
+    const option = getPricingOption(pricingOptions, selectedOption);
     if (!option?.priceId) return;
 
     setLoading(true);
@@ -116,7 +128,7 @@ export function PurchaseModal({ onClose, onPurchaseComplete, defaultCreditType =
         {/* Purchase Button */}
         <button
           onClick={handlePurchase}
-          disabled={loading}
+          disabled={loading || !selectedOption}
           className="bg-black text-white py-4 px-6 rounded-2xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-900 transition-colors"
         >
           {loading ? "Processing..." : "Purchase"}
@@ -1,7 +1,8 @@
 /**
  * Image Transfer Context
  *
- * Passes large base64 image data between generate and results screens.
+ * Passes large base64 image data between generate and results screens:
+ * the user's photo and any friends' photos to include with them.
  * Uses React Context instead of module-level variables (which reset during
  * Metro Fast Refresh) or URL params (which silently drop large payloads).
  *
@@ -13,7 +14,8 @@ import React, { createContext, useContext, useState, useCallback } from "react";
 
 interface ImageTransferContextType {
   pendingImageBase64: string | null;
-  setPendingImage: (base64: string) => void;
+  pendingFriendImagesBase64: string[];
+  setPendingImage: (base64: string, friendImagesBase64?: string[]) => void;
   clearPendingImage: () => void;
 }
 
@@ -29,18 +31,31 @@ export function ImageTransferProvider({
   const [pendingImageBase64, setPendingImageBase64] = useState<string | null>(
     null
   );
+  const [pendingFriendImagesBase64, setPendingFriendImagesBase64] = useState<
+    string[]
+  >([]);
 
-  const setPendingImage = useCallback((base64: string) => {
-    setPendingImageBase64(base64);
-  }, []);
+  const setPendingImage = useCallback(
+    (base64: string, friendImagesBase64: string[] = []) => {
+      setPendingImageBase64(base64);
+      setPendingFriendImagesBase64(friendImagesBase64);
+    },
+    []
+  );
 
   const clearPendingImage = useCallback(() => {
     setPendingImageBase64(null);
+    setPendingFriendImagesBase64([]);
   }, []);
 
   return (
     <ImageTransferContext.Provider
-      value={{ pendingImageBase64, setPendingImage, clearPendingImage }}
+      value={{
+        pendingImageBase64,
+        pendingFriendImagesBase64,
+        setPendingImage,
+        clearPendingImage,
+      }}
     >
       {children}
     </ImageTransferContext.Provider>
@@ -3,8 +3,9 @@
  *
  * Provides RevenueCat SDK integration for in-app purchases.
  * - Initializes SDK with platform-specific API keys
- * - Manages offerings and packages
- * - Handles purchase flow with Supabase credit sync
+ * - Manages offerings and packages, with credit amounts from the product catalog
+ * - Handles purchase flow with server-verified Supabase credit sync
+ * - Tracks the monthly plan (subscriptions table, kept current by the webhook)
  * - Provides hooks for purchase state management
  *
  * iOS 26 Beta Compatibility:
@@ -24,7 +25,9 @@ import Purchases, {
   LOG_LEVEL
 } from 'react-native-purchases';
 import { useAuth } from './AuthContext';
-import { supabase, Credits } from '../lib/supabase';
+import { supabase, Credits, Subscription, getSpendableCredits } from '../lib/supabase';
+import { verifyPurchase } from '../lib/purchases';
+import { fetchCatalog, CatalogProduct } from '../lib/catalog';
 
 // Track if RevenueCat SDK is available (may fail on iOS 26 beta)
 let revenueCatAvailable = true;
@@ -47,13 +50,6 @@ const getRevenueCatApiKey = (platform: 'ios' | 'android'): string => {
   }
 };
 
-// Product ID to credits mapping
-const PRODUCT_CREDITS: Record<string, number> = {
-  'five_token_test': 5,      // Testing/Sandbox
-  'five_token_ios': 5,       // iOS Production
-  'five_token_android': 5,   // Android (future)
-};
-
 interface RevenueCatContextType {
   offerings: PurchasesOffering | null;
   customerInfo: CustomerInfo | null;
@@ -62,11 +58,15 @@ interface RevenueCatContextType {
   error: string | null;
   credits: Credits | null;
   isLoadingCredits: boolean;
+  subscription: Subscription | null; // Monthly plan, if the user has ever subscribed
   isAvailable: boolean; // Whether RevenueCat SDK is available (may be false on iOS 26 beta)
+  catalog: CatalogProduct[]; // Credit packs for this platform's store, from get-catalog
+  getCatalogProduct: (productId: string) => CatalogProduct | undefined;
   purchasePackage: (pkg: PurchasesPackage) => Promise<boolean>;
   restorePurchases: () => Promise<void>;
   refreshOfferings: () => Promise<void>;
   refreshCredits: () => Promise<void>;
+  refreshSubscription: () => Promise<void>;
 }
 
 const RevenueCatContext = createContext<RevenueCatContextType | undefined>(undefined);
@@ -85,7 +85,9 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
   const [isConfigured, setIsConfigured] = useState(false);
   const [credits, setCredits] = useState<Credits | null>(null);
   const [isLoadingCredits, setIsLoadingCredits] = useState(false);
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
   const [sdkAvailable, setSdkAvailable] = useState(true); // Tracks if SDK initialized successfully
+  const [catalog, setCatalog] = useState<CatalogProduct[]>([]);
 
   // Track initialization attempts to prevent infinite retries
   const initAttempted = useRef(false);
@@ -154,6 +156,21 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
     return () => clearTimeout(timer);
   }, []);
 
+  // Load credit amounts for this platform's store products
+  useEffect(() => {
+    fetchCatalog(Platform.OS === 'android' ? 'play_store' : 'app_store')
+      .then(setCatalog)
+      .catch((err) => {
+        console.warn('[RevenueCat] Failed to load catalog:', err);
+        // Non-fatal - packages without catalog info are hidden
+      });
+  }, []);
+
+  const getCatalogProduct = useCallback(
+    (productId: string) => catalog.find((product) => product.id === productId),
+    [catalog]
+  );
+
   // Update RevenueCat user ID when auth state changes
   useEffect(() => {
     const updateRevenueCatUser = async () => {
@@ -275,7 +292,8 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
         console.log('[refreshCredits] Credits loaded:', {
           free: data.free_credits,
           paid: data.image_credits,
-          total: data.free_credits + data.image_credits,
+          allowance: data.allowance_credits,
+          total: getSpendableCredits(data),
         });
         setCredits(data);
       }
@@ -286,47 +304,43 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
     }
   }, [user?.id]);
 
-  // Fetch credits when user changes
+  // Fetch monthly plan status from Supabase
+  const refreshSubscription = useCallback(async () => {
+    if (!user?.id) return;
+    const { data, error } = await supabase
+      .from("subscriptions")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[refreshSubscription] Error fetching subscription:', error);
+      return;
+    }
+    setSubscription(data);
+  }, [user?.id]);
+
+  // Fetch credits and plan when user changes
   useEffect(() => {
     if (user?.id) {
       refreshCredits();
+      refreshSubscription();
     } else {
       setCredits(null);
+      setSubscription(null);
     }
-  }, [user?.id, refreshCredits]);
+  }, [user?.id, refreshCredits, refreshSubscription]);
 
-  // Sync purchased credits to Supabase
-  const syncCreditsToSupabase = async (productId: string): Promise<boolean> => {
+  // Have the server verify the transaction and grant its credits
+  const syncCreditsToSupabase = async (transactionId: string): Promise<boolean> => {
     if (!user?.id || !session?.access_token) {
       console.error('No user session for credit sync');
       return false;
     }
 
-    const creditsToAdd = PRODUCT_CREDITS[productId];
-    if (!creditsToAdd) {
-      console.error('Unknown product ID:', productId);
-      return false;
-    }
-
     try {
-      // Call Supabase function to add credits
-      const { data, error } = await supabase.rpc('add_credits', {
-        p_user_id: user.id,
-        p_credits: creditsToAdd,
-      });
-
-      if (error) {
-        console.error('Failed to sync credits:', error);
-        return false;
-      }
-
-      // Check if the RPC returned success (data should be true)
-      if (data === false) {
-        console.error('add_credits RPC returned false - user may not have credits row');
-        return false;
-      }
-
-      console.log('Credits synced successfully:', { userId: user.id, creditsAdded: creditsToAdd });
+      const result = await verifyPurchase(transactionId, session);
+      console.log('Credits synced successfully:', { userId: user.id, ...result });
       return true;
     } catch (err) {
       console.error('Error syncing credits to Supabase:', err);
@@ -354,14 +368,23 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
     setError(null);
 
     try {
-      const { customerInfo: info } = await Purchases.purchasePackage(pkg);
+      const { customerInfo: info, transaction } = await Purchases.purchasePackage(pkg);
       setCustomerInfo(info);
 
-      // Extract product ID from the package
-      const productId = pkg.product.identifier;
+      // Plan allowances are granted by the webhook once the store confirms the period
+      if (getCatalogProduct(pkg.product.identifier)?.productType === 'subscription') {
+        await Promise.all([refreshSubscription(), refreshCredits()]);
+        Alert.alert(
+          'Subscribed',
+          'Your monthly plan is active. Your plan credits should appear shortly.'
+        );
+        return true;
+      }
 
-      // Sync credits to Supabase
-      const synced = await syncCreditsToSupabase(productId);
+      // Sync credits to Supabase (server verifies the transaction with RevenueCat)
+      const synced = transaction?.transactionIdentifier
+        ? await syncCreditsToSupabase(transaction.transactionIdentifier)
+        : false;
 
       if (synced) {
         // Refresh credits to update UI
@@ -391,7 +414,7 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
     } finally {
       setIsPurchasing(false);
     }
-  }, [user, isConfigured, refreshCredits]);
+  }, [user, isConfigured, refreshCredits, refreshSubscription, getCatalogProduct]);
 
   const restorePurchases = useCallback(async () => {
     // Check if RevenueCat SDK is available
@@ -429,11 +452,15 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
     error,
     credits,
     isLoadingCredits,
+    subscription,
     isAvailable: sdkAvailable && isConfigured,
+    catalog,
+    getCatalogProduct,
     purchasePackage,
     restorePurchases,
     refreshOfferings,
     refreshCredits,
+    refreshSubscription,
   };
 
   return (
@@ -0,0 +1,182 @@
+/**
+ * useGenerationRealtime Hook
+ *
+ * Follows a generation batch through Supabase Realtime so results survive
+ * backgrounding, dropped connections and leaving the results screen.
+ * Subscribes to:
+ * - images INSERTs for the batch (a variation finished and was persisted)
+ * - fal_requests UPDATEs for the batch (a queued variation failed, reported
+ *   only when no retry or fallback is in flight for its slot)
+ * - generations UPDATEs for the batch (overall status changes)
+ *
+ * Existing rows are re-fetched whenever the channel (re)subscribes or the app
+ * returns to the foreground, so events missed while away are caught up.
+ */
+
+import { useEffect, useRef } from "react";
+import { AppState } from "react-native";
+import { supabase, type GenerationStatus } from "../lib/supabase";
+
+export interface GenerationImage {
+  id: string;
+  image_url: string;
+  image_index: number;
+}
+
+interface UseGenerationRealtimeOptions {
+  onImage: (image: GenerationImage) => void;
+  onVariationFailed?: (variationIndex: number, error: string | null) => void;
+  onStatusChange?: (status: GenerationStatus) => void;
+}
+
+/**
+ * Slots that have an image or a request still queued. A failed request for
+ * one of these was followed by a retry or fallback, so it isn't a failure.
+ */
+function getActiveIndexes(
+  images: { image_index: number }[],
+  requests: { variation_index: number; status: string }[]
+): Set<number> {
+  return new Set([
+    ...images.map((image) => image.image_index),
+    ...requests.filter((r) => r.status === "queued").map((r) => r.variation_index),
+  ]);
+}
+
+export function useGenerationRealtime(
+  generationId: string | null,
+  options: UseGenerationRealtimeOptions
+) {
+  // Keep latest callbacks without resubscribing on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!generationId) return;
+
+    let cancelled = false;
+
+    const catchUp = async () => {
+      const [imagesResult, requestsResult, generationResult] = await Promise.all([
+        supabase
+          .from("images")
+          .select("id, image_url, image_index")
+          .eq("generation_batch_id", generationId),
+        supabase
+          .from("fal_requests")
+          .select("variation_index, status, error")
+          .eq("generation_id", generationId),
+        supabase
+          .from("generations")
+          .select("status")
+          .eq("id", generationId)
+          .single(),
+      ]);
+
+      if (cancelled) return;
+
+      if (imagesResult.error) {
+        console.error("[useGenerationRealtime] Failed to fetch images:", imagesResult.error);
+      }
+
+      for (const image of imagesResult.data || []) {
+        optionsRef.current.onImage(image);
+      }
+      // A slot may have failed once and been requested again since
+      const requests = requestsResult.data || [];
+      const activeIndexes = getActiveIndexes(imagesResult.data || [], requests);
+      for (const request of requests) {
+        if (request.status === "failed" && !activeIndexes.has(request.variation_index)) {
+          optionsRef.current.onVariationFailed?.(request.variation_index, request.error);
+        }
+      }
+      if (generationResult.data?.status) {
+        optionsRef.current.onStatusChange?.(generationResult.data.status);
+      }
+    };
+
+    const channel = supabase
+      .channel(`generation-${generationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "images",
+          filter: `generation_batch_id=eq.${generationId}`,
+        },
+        (payload) => {
+          optionsRef.current.onImage({
+            id: payload.new.id,
+            image_url: payload.new.image_url,
+            image_index: payload.new.image_index,
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "fal_requests",
+          filter: `generation_id=eq.${generationId}`,
+        },
+        async (payload) => {
+          if (payload.new.status !== "failed") return;
+          const variationIndex: number = payload.new.variation_index;
+
+          // fal-webhook queues the fallback before marking this request failed
+          const [imagesResult, requestsResult] = await Promise.all([
+            supabase
+              .from("images")
+              .select("image_index")
+              .eq("generation_batch_id", generationId)
+              .eq("image_index", variationIndex),
+            supabase
+              .from("fal_requests")
+              .select("variation_index, status")
+              .eq("generation_id", generationId)
+              .eq("variation_index", variationIndex)
+              .eq("status", "queued"),
+          ]);
+
+          if (cancelled) return;
+
+          const activeIndexes = getActiveIndexes(imagesResult.data || [], requestsResult.data || []);
+          if (!activeIndexes.has(variationIndex)) {
+            optionsRef.current.onVariationFailed?.(variationIndex, payload.new.error);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "generations",
+          filter: `id=eq.${generationId}`,
+        },
+        (payload) => {
+          optionsRef.current.onStatusChange?.(payload.new.status);
+        }
+      )
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          catchUp();
+        }
+      });
+
+    // Socket may have been dropped while backgrounded
+    const appStateSubscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        catchUp();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      appStateSubscription.remove();
+      supabase.removeChannel(channel);
+    };
+  }, [generationId]);
+}
@@ -2,11 +2,14 @@
  * usePhotoCapture Hook
  *
  * Handles photo capture logic from camera stream.
- * Manages photo state and preview generation.
+ * Manages photo state and preview generation, plus up to
+ * MAX_FRIEND_PHOTOS friends' photos to include in the generation.
  */
 
 import { useState } from "react";
 
+export const MAX_FRIEND_PHOTOS = 3;
+
 interface UseCaptureProps {
   videoRef: React.RefObject<HTMLVideoElement | null>;
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
@@ -24,6 +27,7 @@ export function usePhotoCapture({
 }: UseCaptureProps) {
   const [photo, setPhoto] = useState<File | null>(null);
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [friendPhotos, setFriendPhotos] = useState<File[]>([]);
 
   const capturePhoto = () => {
     if (!videoRef.current || !canvasRef.current) return;
@@ -54,15 +58,27 @@ export function usePhotoCapture({
     }
   };
 
+  const addFriendPhoto = (file: File) => {
+    setFriendPhotos((prev) => [...prev, file].slice(0, MAX_FRIEND_PHOTOS));
+  };
+
+  const removeFriendPhoto = (index: number) => {
+    setFriendPhotos((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const resetPhoto = () => {
     setPhoto(null);
     setPhotoPreview(null);
+    setFriendPhotos([]);
   };
 
   return {
     photo,
     photoPreview,
+    friendPhotos,
     capturePhoto,
+    addFriendPhoto,
+    removeFriendPhoto,
     resetPhoto,
   };
 }
@@ -0,0 +1,86 @@
+/**
+ * usePresetRegistry Hook
+ *
+ * Presets and photo styles for the pickers, from the server registry.
+ *
+ * Features:
+ * - Renders immediately from the bundled lists, then the AsyncStorage cache
+ * - Fetches list-presets once per app session and caches the result
+ * - Names are translated for the device locale when the registry has them
+ * - Scheduled presets outside their window are hidden, even from the cache
+ */
+
+import { useState, useEffect } from "react";
+import { PRESET_PICKER, STYLE_PICKER } from "../shared/presets";
+import {
+  fetchPresetRegistry,
+  getCachedPresetRegistry,
+  saveCachedPresetRegistry,
+  filterLivePresets,
+  type PresetRegistry,
+} from "../lib/preset-registry";
+
+const BUNDLED_REGISTRY: PresetRegistry = {
+  presets: PRESET_PICKER,
+  styles: STYLE_PICKER,
+};
+
+// Shared across screens so later mounts start from the loaded registry
+let sessionRegistry: PresetRegistry | null = null;
+let sessionFetch: Promise<PresetRegistry | null> | null = null;
+
+function getDeviceLocale(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().locale;
+  } catch {
+    return undefined;
+  }
+}
+
+async function loadFromServer(): Promise<PresetRegistry | null> {
+  try {
+    const registry = filterLivePresets(await fetchPresetRegistry(getDeviceLocale()));
+    // An empty registry means a misconfigured server; keep what we have
+    if (registry.presets.length === 0 || registry.styles.length === 0) {
+      return null;
+    }
+    sessionRegistry = registry;
+    await saveCachedPresetRegistry(registry);
+    return registry;
+  } catch {
+    // Offline or server error - keep the cached or bundled lists
+    sessionFetch = null;
+    return null;
+  }
+}
+
+export function usePresetRegistry(): PresetRegistry {
+  const [registry, setRegistry] = useState<PresetRegistry>(
+    sessionRegistry ?? BUNDLED_REGISTRY
+  );
+
+  useEffect(() => {
+    if (sessionRegistry) return;
+
+    let cancelled = false;
+
+    getCachedPresetRegistry().then((cached) => {
+      if (cached && !cancelled && !sessionRegistry) {
+        setRegistry(filterLivePresets(cached));
+      }
+    });
+
+    sessionFetch ??= loadFromServer();
+    sessionFetch.then((loaded) => {
+      if (loaded && !cancelled) {
+        setRegistry(loaded);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return registry;
+}
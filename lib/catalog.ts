@@ -0,0 +1,64 @@
+/**
+ * Product Catalog Client - Supabase Edge Function Integration
+ *
+ * Loads credit packs and subscription plans from the get-catalog Edge Function, which maps store
+ * product IDs to credit type and amount. The app and web pricing read credit
+ * amounts from here instead of hard-coding them.
+ *
+ * Usage:
+ *   import { fetchCatalog } from "@/lib/catalog";
+ */
+
+const SUPABASE_URL =
+  process.env.EXPO_PUBLIC_SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_ANON_KEY =
+  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+export type ProductStore = "app_store" | "play_store" | "stripe";
+
+export interface CatalogProduct {
+  id: string; // Store product ID (RevenueCat product identifier) or web pack ID
+  store: ProductStore;
+  productType: "pack" | "subscription";
+  creditType: "image" | "video";
+  credits: number; // Monthly allowance for subscriptions
+  label: string;
+  displayPrice: string | null; // For when the store has no localized price
+  tier: "starter" | "popular" | "pro";
+}
+
+/**
+ * Fetch active products, optionally for a single store
+ *
+ * @param store - Only return products sold through this store
+ * @returns Products in display order or throws error
+ */
+export async function fetchCatalog(store?: ProductStore): Promise<CatalogProduct[]> {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error("Supabase not configured");
+  }
+
+  const edgeFunctionUrl = `${SUPABASE_URL}/functions/v1/get-catalog`;
+
+  try {
+    const response = await fetch(edgeFunctionUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ store }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to load catalog");
+    }
+
+    return data.products || [];
+  } catch (error: any) {
+    console.error("[fetchCatalog] Error:", error);
+    throw error;
+  }
+}
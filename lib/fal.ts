@@ -8,11 +8,11 @@
  * 3. Same AI model is used across web and mobile
  *
  * Usage:
- *   import { reserveCredit, generateSingleImage, generatePreview } from "@/lib/fal";
+ *   import { reserveCredit, generateSingleImage, retryVariation, generatePreview } from "@/lib/fal";
  */
 
 import { Session } from "@supabase/supabase-js";
-import type { PhotoStyleId } from "../shared/presets";
+import type { AspectRatio, PhotoStyleId } from "../shared/presets";
 
 // Supabase URL from environment
 const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL;
@@ -27,8 +27,18 @@ export interface GenerateInput {
   imageUrl: string; // Base64 data URL or HTTP URL
   presetId: string;
   styleId?: PhotoStyleId;
+  friendImageUrls?: string[]; // Up to 3 more people, same formats as imageUrl
+  customPrompt?: string; // Scene text for custom presets
+  aspectRatio?: AspectRatio; // Square when omitted
+  imageCount?: number; // At most the preset's variation count; all when omitted (not for previews)
 }
 
+// Server-side checks on custom prompt text, thrown as Error(code)
+const CUSTOM_PROMPT_ERRORS = ["PROMPT_REQUIRED", "PROMPT_TOO_LONG", "PROMPT_REJECTED"];
+
+// Batch size for presets without their own variation set
+export const DEFAULT_IMAGE_COUNT = 4;
+
 export interface FalImage {
   url: string;
   width?: number;
@@ -40,6 +50,7 @@ export interface GenerateResult {
   success: boolean;
   images: FalImage[];
   imageCount: number;
+  variationCount?: number; // Images requested, including failed ones
   isFreeGeneration?: boolean;
   remainingFree?: number;
   remainingPaid?: number;
@@ -87,6 +98,8 @@ export async function generatePreview(
         imageUrl: input.imageUrl,
         presetId: input.presetId,
         styleId: input.styleId || "photorealistic",
+        customPrompt: input.customPrompt,
+        aspectRatio: input.aspectRatio,
       }),
     });
 
@@ -97,6 +110,9 @@ export async function generatePreview(
       if (response.status === 429 || data.code === "RATE_LIMITED") {
         throw new Error("RATE_LIMITED");
       }
+      if (CUSTOM_PROMPT_ERRORS.includes(data.code)) {
+        throw new Error(data.code);
+      }
       throw new Error(data.error || "Preview generation failed");
     }
 
@@ -104,6 +120,7 @@ export async function generatePreview(
       success: true,
       images: data.images || [],
       imageCount: data.imageCount || data.images?.length || 0,
+      variationCount: data.variationCount,
       isPreview: true,
       watermarkRequired: data.watermarkRequired,
     };
@@ -130,6 +147,9 @@ export function base64ToDataUrl(base64: string, mimeType = "image/jpeg"): string
 export interface ReserveCreditResult {
   success: boolean;
   sessionId: string;
+  generationId?: string; // Subscribe to this for realtime progress
+  imageCount: number; // Variation slots in the batch
+  creditCost?: number; // Credits charged for the batch
   isFreeGeneration?: boolean;
   remainingFree?: number;
   remainingPaid?: number;
@@ -145,20 +165,25 @@ export interface ReserveCreditError {
 export interface GenerateSingleInput {
   sessionId: string;
   variationIndex: number; // 0-3
+  async?: boolean; // Return once queued; the image arrives via the fal-webhook
 }
 
 export interface GenerateSingleResult {
   success: boolean;
+  status?: "completed" | "queued";
   variationIndex: number;
-  imageUrl: string;
+  imageUrl: string | null; // null while queued
   imageId: string | null; // Database UUID for sharing/gallery features
+  requestId?: string; // fal.ai request ID when queued
+  generationId?: string;
 }
 
 /**
  * Reserve a credit for parallel image generation
  *
- * This creates a session that allows 4 parallel generate-single calls
- * while only consuming one credit. The session expires after 5 minutes.
+ * This creates a session that allows one generate-single call per
+ * variation of the preset (imageCount in the result) while consuming
+ * getCreditCost(imageCount) credits. The session expires after 5 minutes.
  *
  * @param input - Image and preset configuration
  * @param session - Supabase session with access token
@@ -198,7 +223,10 @@ export async function reserveCredit(
         imageUrl: input.imageUrl,
         presetId: input.presetId,
         styleId: input.styleId || "photorealistic",
-        imageCount: 4,
+        friendImageUrls: input.friendImageUrls || [],
+        customPrompt: input.customPrompt,
+        aspectRatio: input.aspectRatio,
+        imageCount: input.imageCount,
       }),
     });
 
@@ -216,12 +244,21 @@ export async function reserveCredit(
       if (response.status === 402 || data.code === "INSUFFICIENT_CREDITS") {
         throw new Error("INSUFFICIENT_CREDITS");
       }
+      if (data.code === "INVALID_PRESET" || data.code === "PRESET_NOT_AVAILABLE") {
+        throw new Error("PRESET_NOT_AVAILABLE");
+      }
+      if (CUSTOM_PROMPT_ERRORS.includes(data.code)) {
+        throw new Error(data.code);
+      }
       throw new Error(data.error || "Failed to reserve credit");
     }
 
     return {
       success: true,
       sessionId: data.sessionId,
+      generationId: data.generationId,
+      imageCount: data.imageCount || DEFAULT_IMAGE_COUNT,
+      creditCost: data.creditCost,
       isFreeGeneration: data.isFreeGeneration,
       remainingFree: data.remainingFree,
       remainingPaid: data.remainingPaid,
@@ -266,6 +303,7 @@ export async function generateSingleImage(
       body: JSON.stringify({
         sessionId: input.sessionId,
         variationIndex: input.variationIndex,
+        async: input.async,
       }),
     });
 
@@ -301,9 +339,12 @@ export async function generateSingleImage(
 
     return {
       success: true,
+      status: data.status || "completed",
       variationIndex: data.variationIndex,
-      imageUrl: data.imageUrl,
+      imageUrl: data.imageUrl || null,
       imageId: data.imageId || null,
+      requestId: data.requestId,
+      generationId: data.generationId,
     };
   } catch (error: any) {
     console.error(`[generateSingleImage] Error for variation ${input.variationIndex}:`, error);
@@ -311,6 +352,85 @@ export async function generateSingleImage(
   }
 }
 
+export interface RetryVariationResult extends GenerateSingleResult {
+  retriesRemaining?: number;
+}
+
+/**
+ * Retry a single failed variation within its reserved session
+ *
+ * Doesn't consume a new credit. Retries are limited per session; once the
+ * limit is reached this throws RETRY_LIMIT_REACHED.
+ *
+ * @param input - Session ID and variation index to retry
+ * @param session - Supabase session with access token
+ * @returns Generated (or queued) image for the slot
+ */
+export async function retryVariation(
+  input: GenerateSingleInput,
+  session: Session
+): Promise<RetryVariationResult> {
+  if (!SUPABASE_URL) {
+    throw new Error("SUPABASE_URL not configured");
+  }
+
+  if (!session?.access_token) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const edgeFunctionUrl = `${SUPABASE_URL}/functions/v1/retry-variation`;
+
+  try {
+    const response = await fetch(edgeFunctionUrl, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${session.access_token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        sessionId: input.sessionId,
+        variationIndex: input.variationIndex,
+        async: input.async,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error("[retryVariation] Response error:", {
+        status: response.status,
+        data,
+        variationIndex: input.variationIndex,
+      });
+
+      if (response.status === 401) {
+        throw new Error("UNAUTHORIZED");
+      }
+      if (data.code === "RETRY_LIMIT_REACHED" || data.code === "NOT_RETRYABLE") {
+        throw new Error(data.code);
+      }
+      if (response.status === 403 || data.code === "INVALID_SESSION") {
+        throw new Error("INVALID_SESSION");
+      }
+      throw new Error(data.error || "Retry failed");
+    }
+
+    return {
+      success: true,
+      status: data.status || "completed",
+      variationIndex: data.variationIndex,
+      imageUrl: data.imageUrl || null,
+      imageId: data.imageId || null,
+      requestId: data.requestId,
+      generationId: data.generationId,
+      retriesRemaining: data.retriesRemaining,
+    };
+  } catch (error: any) {
+    console.error(`[retryVariation] Error for variation ${input.variationIndex}:`, error);
+    throw error;
+  }
+}
+
 // ============================================
 // Account Management API
 // ============================================
@@ -0,0 +1,127 @@
+/**
+ * Public Feed
+ *
+ * Pages through public images. Each row comes with its author, preset/style
+ * labels and likes.
+ *
+ * Modes:
+ * - latest: newest first (get_public_feed), keyed on (created_at, id)
+ * - following: latest, limited to creators the user follows
+ * - trending: likes decayed by age (get_trending_feed), keyed on (score, id)
+ *   and counting only likes made before the first page's time. An unlike can
+ *   still bring an image back on a later page, so callers drop repeats by id
+ * Any mode can be narrowed to one preset; latest can be narrowed to one
+ * creator (their profile page).
+ *
+ * Usage:
+ *   import { fetchFeedPage } from "@/lib/feed";
+ *   const { images, nextCursor } = await fetchFeedPage({ mode: "trending" }, cursor);
+ */
+
+import { supabase } from "./supabase";
+
+export const FEED_PAGE_SIZE = 20;
+
+export type FeedMode = "latest" | "trending" | "following";
+
+export const FEED_MODE_OPTIONS: { id: FeedMode; label: string }[] = [
+  { id: "latest", label: "Latest" },
+  { id: "trending", label: "Trending" },
+  { id: "following", label: "Following" },
+];
+
+export interface FeedQuery {
+  mode: FeedMode;
+  presetId?: string | null; // null for all presets
+  userId?: string | null; // One creator's images; latest mode only
+}
+
+export interface FeedImage {
+  id: string;
+  user_id: string;
+  image_url: string;
+  preset_id: string;
+  style_id: string | null;
+  created_at: string;
+  preset_name: string | null;
+  preset_emoji: string | null;
+  style_name: string | null;
+  user_name: string | null;
+  user_avatar_url: string | null;
+  like_count: number;
+  liked: boolean;
+}
+
+// Columns of get_public_feed and get_trending_feed (RETURNS TABLE)
+interface FeedRow extends Omit<FeedImage, "like_count" | "liked"> {
+  like_count: number | null;
+  liked: boolean | null;
+  score?: number; // get_trending_feed only
+}
+
+export interface FeedCursor {
+  createdAt: string;
+  id: string;
+  // Trending only
+  score?: number;
+  asOf?: string;
+}
+
+export interface FeedPage {
+  images: FeedImage[];
+  nextCursor: FeedCursor | null; // null when there are no more pages
+}
+
+/**
+ * Fetch one page of the public feed
+ * Pass the previous page's nextCursor to continue, or nothing for the first page
+ */
+export async function fetchFeedPage(
+  query: FeedQuery,
+  cursor: FeedCursor | null = null,
+  limit = FEED_PAGE_SIZE
+): Promise<FeedPage> {
+  const presetId = query.presetId ?? null;
+  // Trending scores are taken at the first page's time for the whole scroll
+  const asOf = cursor?.asOf ?? new Date().toISOString();
+
+  const { data, error } =
+    query.mode === "trending"
+      ? await supabase.rpc("get_trending_feed", {
+          p_as_of: asOf,
+          p_limit: limit,
+          p_cursor_score: cursor?.score ?? null,
+          p_cursor_id: cursor?.id ?? null,
+          p_preset_id: presetId,
+        })
+      : await supabase.rpc("get_public_feed", {
+          p_limit: limit,
+          p_cursor_created_at: cursor?.createdAt ?? null,
+          p_cursor_id: cursor?.id ?? null,
+          p_following_only: query.mode === "following",
+          p_preset_id: presetId,
+          p_user_id: query.userId ?? null,
+        });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows: FeedRow[] = data || [];
+  const images: FeedImage[] = rows.map(({ score, ...row }) => ({
+    ...row,
+    like_count: row.like_count ?? 0,
+    liked: row.liked ?? false,
+  }));
+
+  const last = rows[rows.length - 1];
+  return {
+    images,
+    nextCursor:
+      rows.length === limit && last
+        ? query.mode === "trending"
+          ? { createdAt: last.created_at, id: last.id, score: last.score, asOf }
+          : { createdAt: last.created_at, id: last.id }
+        : null,
+  };
+}
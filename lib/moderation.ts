@@ -0,0 +1,40 @@
+/**
+ * Moderation Helpers
+ *
+ * Generated images are checked server-side before they are stored. Images
+ * that were flagged (or couldn't be checked) stay private: the database
+ * rejects making them public with an IMAGE_NOT_SHAREABLE error. Images that
+ * couldn't be checked are "pending" until a moderator reviews them. Users
+ * banned from publishing by a moderator get PUBLISHING_BANNED instead.
+ */
+
+export const NOT_SHAREABLE_MESSAGE =
+  "This image didn't pass our content check, so it can't be shared to the public feed. You can still keep it in your gallery.";
+
+/**
+ * Whether an error from sharing an image to the feed is a moderation block
+ */
+export function isNotShareableError(message: string | undefined): boolean {
+  return !!message && message.includes("IMAGE_NOT_SHAREABLE");
+}
+
+export const PENDING_REVIEW_MESSAGE =
+  "This image is still waiting for our content check. You'll be able to share it to the public feed once it's been reviewed.";
+
+/**
+ * Whether a moderation block is because the image hasn't been checked yet
+ * (the IMAGE_NOT_SHAREABLE error names the image's moderation status)
+ */
+export function isPendingReviewError(message: string | undefined): boolean {
+  return isNotShareableError(message) && message!.includes("is pending");
+}
+
+export const PUBLISHING_BANNED_MESSAGE =
+  "Your account can't share to the public feed right now because of reports on images you've shared. Your images are still in your gallery.";
+
+/**
+ * Whether an error from sharing an image to the feed is a publishing ban
+ */
+export function isPublishingBannedError(message: string | undefined): boolean {
+  return !!message && message.includes("PUBLISHING_BANNED");
+}
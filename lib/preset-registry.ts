@@ -0,0 +1,131 @@
+/**
+ * Preset Registry Client - Supabase Edge Function Integration
+ *
+ * Loads the enabled presets and photo styles from the list-presets Edge
+ * Function and keeps the last response in AsyncStorage, so pickers render the
+ * current registry offline. Before the first successful load the bundled
+ * lists in shared/presets.ts are used. The registry also carries the price of
+ * one image, which only the server defines.
+ *
+ * Usage:
+ *   import { fetchPresetRegistry } from "@/lib/preset-registry";
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { PresetOption, StyleOption } from "../shared/presets";
+
+const SUPABASE_URL =
+  process.env.EXPO_PUBLIC_SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_ANON_KEY =
+  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+const CACHE_KEY = "photoapp_preset_registry";
+
+export interface PresetRegistry {
+  presets: PresetOption[];
+  styles: StyleOption[];
+  creditsPerImage?: number; // Unknown until the first server load
+}
+
+/**
+ * Fetch the enabled presets and styles, translated for the given locale
+ *
+ * @param locale - BCP 47 locale, e.g. "fr-CA"
+ * @returns Presets and styles in display order or throws error
+ */
+export async function fetchPresetRegistry(locale?: string): Promise<PresetRegistry> {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error("Supabase not configured");
+  }
+
+  const edgeFunctionUrl = `${SUPABASE_URL}/functions/v1/list-presets`;
+
+  try {
+    const response = await fetch(edgeFunctionUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ locale }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to load presets");
+    }
+
+    return {
+      presets: data.presets || [],
+      styles: data.styles || [],
+      creditsPerImage: data.creditsPerImage,
+    };
+  } catch (error: any) {
+    console.error("[fetchPresetRegistry] Error:", error);
+    throw error;
+  }
+}
+
+/**
+ * Drop presets whose schedule window has not started or has passed, so a
+ * cached registry never offers a preset the server would reject
+ */
+export function filterLivePresets(
+  registry: PresetRegistry,
+  now: Date = new Date()
+): PresetRegistry {
+  const presets = registry.presets.filter((preset) => {
+    if (preset.startsAt && new Date(preset.startsAt) > now) return false;
+    if (preset.endsAt && new Date(preset.endsAt) <= now) return false;
+    return true;
+  });
+  return { ...registry, presets };
+}
+
+/**
+ * Credits a batch of imageCount images costs, or null before the price has
+ * been loaded from the server
+ */
+export function getBatchCreditCost(
+  registry: PresetRegistry,
+  imageCount: number
+): number | null {
+  if (registry.creditsPerImage === undefined) return null;
+  return imageCount * registry.creditsPerImage;
+}
+
+/**
+ * Images the given credits pay for, or null before the price has been loaded
+ * from the server
+ */
+export function getImagesForCredits(
+  registry: PresetRegistry,
+  credits: number
+): number | null {
+  if (!registry.creditsPerImage) return null;
+  return Math.floor(credits / registry.creditsPerImage);
+}
+
+/**
+ * Last registry loaded from the server, if any
+ */
+export async function getCachedPresetRegistry(): Promise<PresetRegistry | null> {
+  try {
+    const data = await AsyncStorage.getItem(CACHE_KEY);
+    if (data) {
+      return JSON.parse(data);
+    }
+  } catch (error) {
+    console.error("[PresetRegistry] Error reading cache:", error);
+  }
+  return null;
+}
+
+export async function saveCachedPresetRegistry(registry: PresetRegistry): Promise<void> {
+  try {
+    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(registry));
+  } catch (error) {
+    console.error("[PresetRegistry] Error saving cache:", error);
+  }
+}
@@ -1,8 +1,11 @@
 /**
- * Centralized pricing configuration.
- * Update prices here and they will reflect across the entire app.
+ * Web pricing configuration.
+ * Credit packs (labels, prices, credit amounts) come from the server product
+ * catalog (get-catalog); only the Stripe price IDs are deployment config here.
  */
 
+import { fetchCatalog } from "./catalog";
+
 export interface PricingOption {
   id: string;
   label: string;
@@ -12,69 +15,48 @@ export interface PricingOption {
   creditType: 'image' | 'video';
 }
 
-export const PRICING_OPTIONS: PricingOption[] = [
-  // Image Credits
-  {
-    id: "image_sm",
-    label: "5 Generation",
-    price: "$2.99",
-    priceId: process.env.NEXT_PUBLIC_STRIPE_PRICE_IMAGE_SM,
-    credits: 5,
-    creditType: 'image',
-  },
-  {
-    id: "image_md",
-    label: "10 Generation",
-    price: "$4.99",
-    priceId: process.env.NEXT_PUBLIC_STRIPE_PRICE_IMAGE_MD,
-    credits: 10,
-    creditType: 'image',
-  },
-  {
-    id: "image_lg",
-    label: "25 Generation",
-    price: "$9.99",
-    priceId: process.env.NEXT_PUBLIC_STRIPE_PRICE_IMAGE_LG,
-    credits: 25,
-    creditType: 'image',
-  },
-  // Video Credits
-  {
-    id: "video_sm",
-    label: "4 Video Generation",
-    price: "$4.99",
-    priceId: process.env.NEXT_PUBLIC_STRIPE_PRICE_VIDEO_SM,
-    credits: 4,
-    creditType: 'video',
-  },
-  {
-    id: "video_md",
-    label: "7 Video Generation",
-    price: "$7.99",
-    priceId: process.env.NEXT_PUBLIC_STRIPE_PRICE_VIDEO_MD,
-    credits: 7,
-    creditType: 'video',
-  },
-  {
-    id: "video_lg",
-    label: "14 Video Generation",
-    price: "$14.99",
-    priceId: process.env.NEXT_PUBLIC_STRIPE_PRICE_VIDEO_LG,
-    credits: 14,
-    creditType: 'video',
-  },
-];
+// Stripe price ID for each web pack in the catalog
+const STRIPE_PRICE_IDS: Record<string, string | undefined> = {
+  image_sm: process.env.NEXT_PUBLIC_STRIPE_PRICE_IMAGE_SM,
+  image_md: process.env.NEXT_PUBLIC_STRIPE_PRICE_IMAGE_MD,
+  image_lg: process.env.NEXT_PUBLIC_STRIPE_PRICE_IMAGE_LG,
+  video_sm: process.env.NEXT_PUBLIC_STRIPE_PRICE_VIDEO_SM,
+  video_md: process.env.NEXT_PUBLIC_STRIPE_PRICE_VIDEO_MD,
+  video_lg: process.env.NEXT_PUBLIC_STRIPE_PRICE_VIDEO_LG,
+};
+
+/**
+ * Load web pricing options from the product catalog
+ */
+export async function fetchPricingOptions(): Promise<PricingOption[]> {
+  const products = await fetchCatalog("stripe");
+
+  return products.map((product) => ({
+    id: product.id,
+    label: product.label,
+    price: product.displayPrice || "",
+    priceId: STRIPE_PRICE_IDS[product.id],
+    credits: product.credits,
+    creditType: product.creditType,
+  }));
+}
 
 /**
  * Get pricing option by ID
  */
-export function getPricingOption(id: string): PricingOption | undefined {
-  return PRICING_OPTIONS.find((option) => option.id === id);
+export function getPricingOption(
+  options: PricingOption[],
+  id: string
+): PricingOption | undefined {
+  return options.find((option) => option.id === id);
 }
 
 /**
  * Get pricing option by price ID
  */
-export function getPricingByPriceId(priceId: string): PricingOption | undefined {
-  return PRICING_OPTIONS.find((option) => option.priceId === priceId);
+export function getPricingByPriceId(
+  options: PricingOption[],
+  priceId: string
+): PricingOption | undefined {
+  return options.find((option) => option.priceId === priceId);
 }
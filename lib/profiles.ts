@@ -0,0 +1,72 @@
+/**
+ * Public Profiles
+ *
+ * Creator profile pages and follows. Profiles are read with the
+ * get_public_profile RPC (follower counts aren't readable from the follows
+ * table directly); follows are written straight to the table under RLS.
+ *
+ * Usage:
+ *   import { fetchPublicProfile, setFollowing } from "@/lib/profiles";
+ */
+
+import { supabase } from "./supabase";
+
+export interface PublicProfile {
+  id: string;
+  user_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  hide_from_feed: boolean;
+  image_count: number;
+  follower_count: number;
+  following_count: number;
+  is_following: boolean;
+}
+
+/**
+ * Fetch a creator's public profile
+ * Throws Error("PROFILE_NOT_FOUND") if it doesn't exist or is hidden
+ */
+export async function fetchPublicProfile(userId: string): Promise<PublicProfile> {
+  const { data, error } = await supabase.rpc("get_public_profile", {
+    p_user_id: userId,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  // RPC returns an array with at most one row
+  const profile = data?.[0];
+  if (!profile) {
+    throw new Error("PROFILE_NOT_FOUND");
+  }
+
+  return profile as PublicProfile;
+}
+
+/**
+ * Follow or unfollow a creator as the current user
+ */
+export async function setFollowing(
+  followerId: string,
+  followingId: string,
+  follow: boolean
+): Promise<void> {
+  const { error } = follow
+    ? await supabase
+        .from("follows")
+        .upsert(
+          { follower_id: followerId, following_id: followingId },
+          { onConflict: "follower_id,following_id", ignoreDuplicates: true }
+        )
+    : await supabase
+        .from("follows")
+        .delete()
+        .eq("follower_id", followerId)
+        .eq("following_id", followingId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Purchase Verification Client - Supabase Edge Function Integration
+ *
+ * Reports a completed in-app purchase to the verify-purchase Edge Function,
+ * which checks the transaction with RevenueCat and grants the credits.
+ * The app never grants credits itself.
+ *
+ * Usage:
+ *   import { verifyPurchase } from "@/lib/purchases";
+ */
+
+import { Session } from "@supabase/supabase-js";
+
+const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL;
+
+export interface VerifyPurchaseResult {
+  success: boolean;
+  creditsAdded: number;
+  alreadyProcessed: boolean; // Credited earlier (e.g. by the webhook)
+}
+
+export interface VerifyPurchaseError {
+  error: string;
+  code?: "TRANSACTION_NOT_FOUND" | "VERIFICATION_FAILED" | "UNKNOWN_PRODUCT" | "GRANT_FAILED";
+}
+
+/**
+ * Verify a store transaction and grant its credits
+ *
+ * @param transactionId - Store transaction ID from Purchases.purchasePackage
+ * @param session - Supabase session with access token
+ * @returns Credits granted or throws error
+ */
+export async function verifyPurchase(
+  transactionId: string,
+  session: Session
+): Promise<VerifyPurchaseResult> {
+  if (!SUPABASE_URL) {
+    throw new Error("SUPABASE_URL not configured");
+  }
+
+  if (!session?.access_token) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const edgeFunctionUrl = `${SUPABASE_URL}/functions/v1/verify-purchase`;
+
+  try {
+    const response = await fetch(edgeFunctionUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ transactionId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error("[verifyPurchase] Response error:", {
+        status: response.status,
+        data,
+      });
+
+      if (response.status === 401) {
+        throw new Error("UNAUTHORIZED");
+      }
+      throw new Error(data.code || data.error || "Failed to verify purchase");
+    }
+
+    return {
+      success: true,
+      creditsAdded: data.creditsAdded,
+      alreadyProcessed: data.alreadyProcessed,
+    };
+  } catch (error: any) {
+    console.error("[verifyPurchase] Error:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Image Reactions
+ *
+ * Likes on images shared to the public feed. Likes are toggled with the
+ * toggle_image_like RPC, which keeps images.like_count up to date for the
+ * feed and gallery. Whether the user liked a feed image comes back with the
+ * feed itself (see lib/feed.ts).
+ *
+ * Usage:
+ *   import { toggleImageLike } from "@/lib/reactions";
+ */
+
+import { supabase } from "./supabase";
+
+export interface LikeState {
+  liked: boolean;
+  likeCount: number;
+}
+
+/**
+ * Like an image for the current user, or remove their like
+ * Throws Error("IMAGE_NOT_FOUND") if the image is no longer public
+ */
+export async function toggleImageLike(imageId: string): Promise<LikeState> {
+  const { data, error } = await supabase.rpc("toggle_image_like", {
+    p_image_id: imageId,
+  });
+
+  if (error) {
+    if (error.message?.includes("IMAGE_NOT_FOUND")) {
+      throw new Error("IMAGE_NOT_FOUND");
+    }
+    throw new Error(error.message);
+  }
+
+  // RPC returns an array with one row
+  const result = data?.[0];
+  if (!result) {
+    throw new Error("IMAGE_NOT_FOUND");
+  }
+
+  return { liked: result.liked, likeCount: result.like_count };
+}
+
@@ -0,0 +1,53 @@
+/**
+ * Image Reports
+ *
+ * Reporting public feed images with the report_image RPC. Enough open
+ * reports take an image off the feed until a moderator reviews it (see the
+ * moderate-image edge function).
+ *
+ * Usage:
+ *   import { reportImage, REPORT_REASONS } from "@/lib/reports";
+ */
+
+import { supabase } from "./supabase";
+
+export type ReportReason = "spam" | "nudity" | "harassment" | "violence" | "other";
+
+export const REPORT_REASONS: { id: ReportReason; label: string }[] = [
+  { id: "spam", label: "Spam" },
+  { id: "nudity", label: "Nudity or sexual content" },
+  { id: "harassment", label: "Harassment or hate" },
+  { id: "violence", label: "Violence" },
+  { id: "other", label: "Something else" },
+];
+
+/**
+ * Report an image as the current user (repeat reports are ignored)
+ * Throws Error("IMAGE_NOT_FOUND") if the image is no longer public, or
+ * Error("CANNOT_REPORT_OWN_IMAGE")
+ *
+ * @returns true if the image has now been taken off the feed
+ */
+export async function reportImage(
+  imageId: string,
+  reason: ReportReason,
+  details?: string
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("report_image", {
+    p_image_id: imageId,
+    p_reason: reason,
+    p_details: details?.trim() || null,
+  });
+
+  if (error) {
+    if (error.message?.includes("IMAGE_NOT_FOUND")) {
+      throw new Error("IMAGE_NOT_FOUND");
+    }
+    if (error.message?.includes("CANNOT_REPORT_OWN_IMAGE")) {
+      throw new Error("CANNOT_REPORT_OWN_IMAGE");
+    }
+    throw new Error(error.message);
+  }
+
+  return data === true;
+}
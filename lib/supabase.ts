@@ -79,6 +79,8 @@ export interface Credits {
   user_id: string;
   image_credits: number;
   free_credits: number;
+  allowance_credits: number; // Monthly plan credits, spent first
+  allowance_expires_at: string | null;
   total_generations: number;
   last_generation_at: string | null;
   last_preset: string | null;
@@ -87,6 +89,64 @@ export interface Credits {
   updated_at: string;
 }
 
+// Credits the user can spend now; an allowance past its period end doesn't count
+export function getSpendableCredits(credits: Credits | null): number {
+  if (!credits) return 0;
+  const allowanceLive =
+    !!credits.allowance_expires_at &&
+    new Date(credits.allowance_expires_at).getTime() > Date.now();
+  return (
+    (credits.free_credits || 0) +
+    (credits.image_credits || 0) +
+    (allowanceLive ? credits.allowance_credits || 0 : 0)
+  );
+}
+
+export type SubscriptionStatus = "active" | "billing_issue" | "expired";
+
+// Monthly plan state, written by the RevenueCat webhook
+export interface Subscription {
+  id: string;
+  user_id: string;
+  product_id: string;
+  status: SubscriptionStatus;
+  will_renew: boolean;
+  current_period_start: string | null;
+  current_period_end: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreditTransactionKind =
+  | "purchase"
+  | "generation"
+  | "refund"
+  | "admin_grant"
+  | "referral_bonus"
+  | "expiry"
+  | "signup_bonus"
+  | "adjustment"
+  | "purchase_refund"
+  | "transfer"
+  | "subscription_allowance";
+
+// Append-only ledger entry; credits balances are derived from these
+export interface CreditTransaction {
+  id: string;
+  user_id: string;
+  kind: CreditTransactionKind;
+  pool: "free" | "paid" | "allowance";
+  amount: number; // Negative when credits are spent or expire
+  balance_after: number;
+  generation_id: string | null;
+  purchase_id: string | null;
+  description: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+export type GenerationStatus = "pending" | "in_progress" | "completed" | "failed";
+
 export interface Generation {
   id: string;
   user_id: string;
@@ -94,6 +154,12 @@ export interface Generation {
   style_id: string | null;
   image_urls: string[];
   input_image_url: string | null;
+  friend_image_urls: string[];
+  custom_prompt: string | null; // Scene text for the custom preset
+  image_count: number; // One image per variation of the preset
+  aspect_ratio: "1:1" | "4:5" | "9:16";
+  credit_cost: number; // Credits charged for the batch
   is_free_generation: boolean;
+  status: GenerationStatus;
   created_at: string;
 }
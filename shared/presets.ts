@@ -1,33 +1,67 @@
 /**
  * Preset & Style Types for Mobile App
  *
- * UI-only data for pickers. Full prompts live in edge function (_shared/presets.ts).
- * When adding a preset: update edge function + add picker entry here.
+ * UI-only data for pickers. Presets and styles live in the presets and styles
+ * tables and are served by the list-presets edge function (see
+ * lib/preset-registry.ts); prompts never leave the server.
+ * The lists below are the bundled fallback for a first launch offline.
  */
 
-// Type definitions (must match edge function)
-export type PresetId =
-  | 'mapleAutumn'
-  | 'winterWonderland'
-  | 'northernLights'
-  | 'cottageLife'
-  | 'urbanCanada'
-  | 'wildernessExplorer'
-  | 'editorialCanada'
-  | 'canadianWildlifeParty'
-  | 'ehEdition'
-  | 'withus';
-
-export type PhotoStyleId =
-  | 'photorealistic'
-  | 'cartoon'
-  | 'vintage50s'
-  | 'cinematic'
-  | 'oilPainting'
-  | 'watercolor';
-
-// Picker data for UI
-export const PRESET_PICKER: { id: PresetId; name: string; emoji: string }[] = [
+// presets.id / styles.id
+export type PresetId = string;
+export type PhotoStyleId = string;
+
+export type PresetBadge = 'new' | 'ending_soon';
+
+export interface PresetOption {
+  id: PresetId;
+  name: string;
+  emoji: string;
+  description?: string;
+  requiresRefs?: boolean;
+  // Schedule window (ISO timestamps) and badge for time-limited presets
+  startsAt?: string | null;
+  endsAt?: string | null;
+  badge?: PresetBadge | null;
+  // Scene comes from the user's own text ("Custom")
+  allowsCustomPrompt?: boolean;
+}
+
+// Server-enforced limit on custom prompt text
+export const CUSTOM_PROMPT_MAX_LENGTH = 300;
+
+// Output shapes; the server maps each to the closest ratio the model supports
+export type AspectRatio = '1:1' | '4:5' | '9:16';
+
+export interface AspectRatioOption {
+  id: AspectRatio;
+  label: string;
+  value: number; // width / height, for layout
+}
+
+export const ASPECT_RATIO_OPTIONS: AspectRatioOption[] = [
+  { id: '1:1', label: 'Square', value: 1 },
+  { id: '4:5', label: 'Portrait', value: 4 / 5 },
+  { id: '9:16', label: 'Story', value: 9 / 16 },
+];
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = '1:1';
+
+export function getAspectRatioValue(id: string | null | undefined): number {
+  return ASPECT_RATIO_OPTIONS.find((option) => option.id === id)?.value ?? 1;
+}
+
+// Batch sizes users can pick; presets with fewer variations return fewer images
+export const IMAGE_COUNT_OPTIONS = [1, 2, 4];
+
+export interface StyleOption {
+  id: PhotoStyleId;
+  name: string;
+  emoji: string;
+}
+
+// Bundled picker data
+export const PRESET_PICKER: PresetOption[] = [
   { id: 'mapleAutumn', name: 'Maple Autumn', emoji: '🍁' },
   { id: 'winterWonderland', name: 'Winter Wonderland', emoji: '❄️' },
   { id: 'northernLights', name: 'Northern Lights', emoji: '🌌' },
@@ -37,10 +71,11 @@ export const PRESET_PICKER: { id: PresetId; name: string; emoji: string }[] = [
   { id: 'editorialCanada', name: 'Editorial Canada', emoji: '📸' },
   { id: 'canadianWildlifeParty', name: 'Canadian Wildlife Party', emoji: '🦫' },
   { id: 'ehEdition', name: 'Eh Edition', emoji: '🍁' },
-  { id: 'withus', name: 'With Us', emoji: '👥' },
+  { id: 'withus', name: 'With Us', emoji: '👥', requiresRefs: true },
+  { id: 'custom', name: 'Custom', emoji: '✏️', allowsCustomPrompt: true },
 ];
 
-export const STYLE_PICKER: { id: PhotoStyleId; name: string; emoji: string }[] = [
+export const STYLE_PICKER: StyleOption[] = [
   { id: 'photorealistic', name: 'Photo', emoji: '📷' },
   { id: 'cartoon', name: 'Cartoon', emoji: '🎨' },
   { id: 'vintage50s', name: '50s Vibe', emoji: '📺' },
@@ -0,0 +1,102 @@
+/**
+ * Product catalog for Supabase Edge Functions
+ *
+ * Maps store product IDs to credit type and amount from the products table,
+ * the single source for the app, the web pricing block and purchase grants.
+ * For subscription products, credits is the allowance granted each period.
+ */
+
+import { createServiceClient } from "./auth.ts";
+
+export type ProductStore = "app_store" | "play_store" | "stripe";
+export type CreditType = "image" | "video";
+export type ProductTier = "starter" | "popular" | "pro";
+export type ProductType = "pack" | "subscription";
+
+export interface Product {
+  id: string;
+  store: ProductStore;
+  productType: ProductType;
+  creditType: CreditType;
+  credits: number;
+  label: string;
+  displayPrice: string | null;
+  tier: ProductTier;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+interface ProductRow {
+  id: string;
+  store: ProductStore;
+  product_type: ProductType;
+  credit_type: CreditType;
+  credits: number;
+  label: string;
+  display_price: string | null;
+  tier: ProductTier;
+  sort_order: number;
+  is_active: boolean;
+}
+
+function toProduct(row: ProductRow): Product {
+  return {
+    id: row.id,
+    store: row.store,
+    productType: row.product_type,
+    creditType: row.credit_type,
+    credits: row.credits,
+    label: row.label,
+    displayPrice: row.display_price,
+    tier: row.tier,
+    sortOrder: row.sort_order,
+    isActive: row.is_active,
+  };
+}
+
+/**
+ * Look up a product by store product ID
+ * Includes inactive products so purchases of retired packs still resolve
+ */
+export async function getProduct(productId: string): Promise<Product | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("products")
+    .select("*")
+    .eq("id", productId)
+    .maybeSingle<ProductRow>();
+
+  if (error) {
+    console.error("[catalog] Failed to load product:", error);
+    throw error;
+  }
+
+  return data ? toProduct(data) : null;
+}
+
+/**
+ * List active products, optionally for one store, in display order
+ */
+export async function listProducts(store?: ProductStore): Promise<Product[]> {
+  const supabase = createServiceClient();
+
+  let query = supabase
+    .from("products")
+    .select("*")
+    .eq("is_active", true)
+    .order("sort_order", { ascending: true });
+
+  if (store) {
+    query = query.eq("store", store);
+  }
+
+  const { data, error } = await query.returns<ProductRow[]>();
+
+  if (error) {
+    console.error("[catalog] Failed to list products:", error);
+    throw error;
+  }
+
+  return (data || []).map(toProduct);
+}
@@ -0,0 +1,212 @@
+/**
+ * Credit and Session Tests
+ *
+ * Runs the session helpers against a local HTTP stub of the Supabase REST
+ * API (PostgREST), so the checks in front of each RPC can be exercised
+ * without a database. The SQL functions are tested in supabase/tests/database.
+ *
+ * Run: deno test --allow-net --allow-env supabase/functions/_shared/credits.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+const STUB_PORT = 8788;
+const STUB_URL = `http://localhost:${STUB_PORT}`;
+
+const USER_ID = "00000000-0000-0000-0000-000000000001";
+const SESSION_ID = "10000000-0000-0000-0000-000000000001";
+const GENERATION_ID = "20000000-0000-0000-0000-000000000001";
+
+// What the stubbed database holds for each step
+interface StubDatabase {
+  session: Record<string, unknown> | null;
+  imageCount: number;
+  queuedCount: number;
+  rpc: Record<string, (args: Record<string, unknown>) => unknown>;
+}
+
+const rpcCalls: { name: string; args: Record<string, unknown> }[] = [];
+let db: StubDatabase;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function counted(count: number): Response {
+  return new Response(null, { status: 200, headers: { "Content-Range": `*/${count}` } });
+}
+
+function sessionRow(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: SESSION_ID,
+    user_id: USER_ID,
+    preset_id: "portrait",
+    style_id: "natural",
+    image_url: "https://cdn.test/input.jpg",
+    friend_image_urls: [],
+    custom_prompt: null,
+    aspect_ratio: "1:1",
+    is_free: false,
+    image_count: 4,
+    variation_prompts: ["a", "b", "c", "d"],
+    completed_images: 4,
+    requested_indexes: [0, 1, 2, 3],
+    retry_count: 0,
+    expires_at: new Date(Date.now() + 60_000).toISOString(),
+    created_at: new Date().toISOString(),
+    generation_id: GENERATION_ID,
+    ...overrides,
+  };
+}
+
+async function handleStub(req: Request): Promise<Response> {
+  const { pathname } = new URL(req.url);
+
+  if (pathname.startsWith("/rest/v1/rpc/")) {
+    const name = pathname.slice("/rest/v1/rpc/".length);
+    const args = await req.json();
+    rpcCalls.push({ name, args });
+    const handler = db.rpc[name];
+    return handler ? json(handler(args)) : json({ message: `no stub for ${name}` }, 404);
+  }
+
+  if (pathname === "/rest/v1/generation_sessions") {
+    return db.session ? json(db.session) : json({ message: "not found" }, 406);
+  }
+  if (pathname === "/rest/v1/images") return counted(db.imageCount);
+  if (pathname === "/rest/v1/fal_requests") return counted(db.queuedCount);
+  if (pathname === "/rest/v1/generations") return new Response(null, { status: 204 });
+
+  return json({ message: `unexpected ${req.method} ${pathname}` }, 500);
+}
+
+// Failed lookups leave fetch bodies unread, which the resource sanitizer flags
+Deno.test({ name: "retry session validation", sanitizeResources: false }, async (t: Deno.TestContext) => {
+  const server = Deno.serve({ port: STUB_PORT, onListen() {} }, handleStub);
+
+  // auth.ts reads its config at import time
+  Deno.env.set("SUPABASE_URL", STUB_URL);
+  Deno.env.set("SUPABASE_ANON_KEY", "anon-key");
+  Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", "service-key");
+  const { validateRetrySession, MAX_SESSION_RETRIES } = await import("./credits.ts");
+
+  const retry = (variationIndex = 2) => validateRetrySession(SESSION_ID, USER_ID, variationIndex);
+  const reset = (state: Partial<StubDatabase> = {}) => {
+    rpcCalls.length = 0;
+    db = {
+      session: sessionRow(),
+      imageCount: 0,
+      queuedCount: 0,
+      rpc: { claim_session_retry: () => true },
+      ...state,
+    };
+  };
+
+  try {
+    await t.step("claims a failed slot and extends the session", async () => {
+      reset();
+
+      const result = await retry();
+
+      assertEquals(result.success, true);
+      assertEquals(result.retriesRemaining, MAX_SESSION_RETRIES - 1);
+      assertEquals(result.sessionResult?.variationPrompt, "c");
+      assertEquals(rpcCalls.length, 1);
+
+      const { name, args } = rpcCalls[0];
+      assertEquals(name, "claim_session_retry");
+      assertEquals(args.p_variation_index, 2);
+      assertEquals(args.p_retry_count, 0);
+      assert(new Date(args.p_expires_at as string).getTime() > Date.now() + 2 * 60_000);
+    });
+
+    await t.step("refuses a slot whose image was saved", async () => {
+      reset({ imageCount: 1 });
+
+      assertEquals(await retry(), { success: false, error: "NOT_RETRYABLE" });
+      assertEquals(rpcCalls.length, 0);
+    });
+
+    await t.step("refuses a slot still queued on fal.ai", async () => {
+      reset({ queuedCount: 1 });
+
+      assertEquals(await retry(), { success: false, error: "NOT_RETRYABLE" });
+      assertEquals(rpcCalls.length, 0);
+    });
+
+    await t.step("refuses a slot that is in flight or already being retried", async () => {
+      // claim_session_retry returns false for both: the slot is in
+      // slots_in_flight, or retry_count moved on since the session was read
+      reset({ rpc: { claim_session_retry: () => false } });
+
+      assertEquals(await retry(), { success: false, error: "NOT_RETRYABLE" });
+      assertEquals(rpcCalls.map((call) => call.name), ["claim_session_retry"]);
+    });
+
+    await t.step("refuses when the claim errors", async () => {
+      reset({ rpc: {} });
+
+      assertEquals(await retry(), { success: false, error: "NOT_RETRYABLE" });
+    });
+
+    await t.step("stops at the retry limit", async () => {
+      reset({ session: sessionRow({ retry_count: MAX_SESSION_RETRIES }) });
+
+      assertEquals(await retry(), {
+        success: false,
+        error: "RETRY_LIMIT_REACHED",
+        retriesRemaining: 0,
+      });
+      assertEquals(rpcCalls.length, 0);
+    });
+
+    await t.step("treats a slot that was never requested as its first request", async () => {
+      reset({
+        session: sessionRow({ requested_indexes: [0, 1, 3], retry_count: 1 }),
+        rpc: { claim_session_slot: () => 4 },
+      });
+
+      const result = await retry();
+
+      assertEquals(result.success, true);
+      assertEquals(result.retriesRemaining, MAX_SESSION_RETRIES - 1);
+      assertEquals(result.sessionResult?.isLastImage, true);
+      assertEquals(rpcCalls.map((call) => call.name), ["claim_session_slot"]);
+    });
+
+    await t.step("refuses a first request that lost the slot claim", async () => {
+      reset({
+        session: sessionRow({ requested_indexes: [0, 1, 3] }),
+        rpc: { claim_session_slot: () => null },
+      });
+
+      assertEquals(await retry(), { success: false, error: "NOT_RETRYABLE" });
+    });
+
+    await t.step("rejects an expired session", async () => {
+      reset({ session: sessionRow({ expires_at: new Date(Date.now() - 1000).toISOString() }) });
+
+      assertEquals(await retry(), { success: false, error: "INVALID_SESSION" });
+    });
+
+    await t.step("rejects a variation outside the batch", async () => {
+      reset();
+
+      assertEquals(await retry(4), { success: false, error: "INVALID_SESSION" });
+    });
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test("batch pricing", async () => {
+  const { getCreditCost } = await import("./credits.ts");
+
+  // A credit buys a four-image batch; smaller batches cost less
+  assertEquals(getCreditCost(4), 1);
+  assertEquals(getCreditCost(2), 0.5);
+  assertEquals(getCreditCost(1), 0.25);
+});
@@ -7,6 +7,11 @@
  */
 
 import { createServiceClient } from "./auth.ts";
+import { DEFAULT_ASPECT_RATIO, DEFAULT_VARIATIONS, type AspectRatio } from "./presets.ts";
+
+// Price of one generated image: a credit buys a four-image batch. The app
+// reads it from list-presets, so this is the only place pricing is defined.
+export const CREDITS_PER_IMAGE = 0.25;
 
 export interface CreditResult {
   success: boolean;
@@ -15,10 +20,24 @@ export interface CreditResult {
   remainingPaid: number;
 }
 
+/**
+ * Credits charged for a batch of imageCount images
+ */
+export function getCreditCost(imageCount: number): number {
+  return Math.max(1, imageCount) * CREDITS_PER_IMAGE;
+}
+
+/**
+ * Spend credits (allowance, then free, then paid, splitting the amount across
+ * pools as needed), recorded in credit_transactions
+ * Pass the generation the credits pay for so the ledger entries link to it
+ */
 export async function decrementCredits(
   userId: string,
   preset: string,
-  style: string
+  style: string,
+  generationId?: string,
+  amount = 1
 ): Promise<CreditResult> {
   const supabase = createServiceClient();
 
@@ -26,6 +45,8 @@ export async function decrementCredits(
     p_user_id: userId,
     p_preset: preset,
     p_style: style,
+    p_generation_id: generationId ?? null,
+    p_amount: amount,
   });
 
   if (error) {
@@ -131,6 +152,38 @@ export async function updateGenerationImages(
   return true;
 }
 
+export type RefundReason = "all_variations_failed" | "session_expired";
+
+/**
+ * Settle a batch and refund the share of its cost for each missing image to
+ * the pools it came from, atomically. A batch with no images is marked failed,
+ * one with some is marked completed. No-op if every image arrived, requests
+ * are still queued, a partial batch's session is still open for retries, or
+ * it was already refunded. Allowance credits whose period has ended are not
+ * refunded. Returns true if credits were refunded.
+ */
+export async function refundFailedGeneration(
+  generationId: string,
+  reason: RefundReason
+): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc("fail_generation_with_refund", {
+    p_generation_id: generationId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    console.error("Error refunding generation:", error);
+    return false;
+  }
+
+  if (data) {
+    console.log(`Refunded credit for generation ${generationId} (${reason})`);
+  }
+  return data === true;
+}
+
 // ============================================
 // Session reservation for parallel generation
 // ============================================
@@ -139,6 +192,8 @@ export interface ReserveSessionResult {
   success: boolean;
   sessionId?: string;
   generationId?: string; // Canonical generation record ID
+  imageCount?: number; // One image per variation prompt
+  creditCost?: number;
   isFree?: boolean;
   remainingFree?: number;
   remainingPaid?: number;
@@ -150,6 +205,9 @@ export interface GenerationSession {
   presetId: string;
   styleId: string;
   imageUrl: string;
+  friendImageUrls: string[]; // Extra people to include, after imageUrl
+  customPrompt: string | null; // Moderated scene text for custom presets
+  aspectRatio: AspectRatio;
   isFree: boolean;
   imageCount: number;
   completedImages: number;
@@ -166,18 +224,27 @@ export interface GenerationSession {
  * 2. A `generation_sessions` record (temporary, for session management)
  *
  * Returns sessionId for parallel generation calls and generationId for data integrity
+ * The batch has one image per variation prompt and costs getCreditCost of that
  */
 export async function reserveGenerationSession(
   userId: string,
   presetId: string,
   styleId: string,
   imageUrl: string,
-  imageCount: number = 4
+  variationPrompts: string[],
+  friendImageUrls: string[] = [],
+  customPrompt: string | null = null,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
 ): Promise<ReserveSessionResult> {
   const supabase = createServiceClient();
 
+  // ID assigned up front so the ledger entry links to the generation
+  const generationId = crypto.randomUUID();
+  const imageCount = variationPrompts.length;
+  const creditCost = getCreditCost(imageCount);
+
   // First decrement credits
-  const creditResult = await decrementCredits(userId, presetId, styleId);
+  const creditResult = await decrementCredits(userId, presetId, styleId, generationId, creditCost);
 
   if (!creditResult.success) {
     return {
@@ -192,11 +259,17 @@ export async function reserveGenerationSession(
   const { data: generation, error: genError } = await supabase
     .from("generations")
     .insert({
+      id: generationId,
       user_id: userId,
       preset_id: presetId,
       style_id: styleId,
       image_urls: [], // Will be populated as images complete
       input_image_url: imageUrl,
+      friend_image_urls: friendImageUrls,
+      custom_prompt: customPrompt,
+      image_count: imageCount,
+      aspect_ratio: aspectRatio,
+      credit_cost: creditCost,
       is_free_generation: creditResult.isFree,
       status: "pending",
     })
@@ -221,8 +294,12 @@ export async function reserveGenerationSession(
       preset_id: presetId,
       style_id: styleId,
       image_url: imageUrl,
+      friend_image_urls: friendImageUrls,
+      custom_prompt: customPrompt,
+      aspect_ratio: aspectRatio,
       is_free: creditResult.isFree,
       image_count: imageCount,
+      variation_prompts: variationPrompts,
       completed_images: 0,
       expires_at: expiresAt,
       generation_id: generation.id, // Link to canonical record
@@ -244,26 +321,55 @@ export async function reserveGenerationSession(
     success: true,
     sessionId: session.id,
     generationId: generation.id,
+    imageCount,
+    creditCost,
     isFree: creditResult.isFree,
     remainingFree: creditResult.remainingFree,
     remainingPaid: creditResult.remainingPaid,
   };
 }
 
+export interface ValidatedSession {
+  session: GenerationSession;
+  variationPrompt: string;
+  generationId: string;
+  isLastImage: boolean;
+}
+
+// Retries allowed per session, across all variation slots
+export const MAX_SESSION_RETRIES = 3;
+
+// A retry keeps the session alive for at least this long
+const RETRY_EXTENSION_MS = 3 * 60 * 1000;
+
+interface GenerationSessionRow {
+  id: string;
+  user_id: string;
+  preset_id: string;
+  style_id: string;
+  image_url: string;
+  friend_image_urls: string[] | null;
+  custom_prompt: string | null;
+  aspect_ratio: AspectRatio | null;
+  is_free: boolean;
+  image_count: number;
+  variation_prompts: string[] | null;
+  completed_images: number;
+  requested_indexes: number[] | null;
+  retry_count: number | null;
+  expires_at: string;
+  created_at: string;
+  generation_id: string | null;
+}
+
 /**
- * Validate a generation session and mark an image slot as used
- * Returns session details including generationId for proper data linking
+ * Load a session the user owns and check it can serve the variation slot
  */
-export async function validateAndUseSession(
+async function loadUsableSession(
   sessionId: string,
   userId: string,
   variationIndex: number
-): Promise<{
-  session: GenerationSession;
-  variationPrompt: string;
-  generationId: string;
-  isLastImage: boolean;
-} | null> {
+): Promise<(GenerationSessionRow & { generation_id: string }) | null> {
   const supabase = createServiceClient();
 
   // Get the session
@@ -272,7 +378,7 @@ export async function validateAndUseSession(
     .select("*")
     .eq("id", sessionId)
     .eq("user_id", userId)
-    .single();
+    .single<GenerationSessionRow>();
 
   if (error || !session) {
     console.error("Session not found or invalid:", error);
@@ -285,9 +391,9 @@ export async function validateAndUseSession(
     return null;
   }
 
-  // Check if already completed all images
-  if (session.completed_images >= session.image_count) {
-    console.error("Session already completed all images");
+  // Each session covers a fixed set of variation slots
+  if (variationIndex < 0 || variationIndex >= session.image_count) {
+    console.error(`Variation index ${variationIndex} out of range`);
     return null;
   }
 
@@ -297,48 +403,224 @@ export async function validateAndUseSession(
     return null;
   }
 
-  const newCompletedCount = session.completed_images + 1;
-  const isLastImage = newCompletedCount >= session.image_count;
-
-  // Increment completed images
-  await supabase
-    .from("generation_sessions")
-    .update({ completed_images: newCompletedCount })
-    .eq("id", sessionId);
-
-  // Update generation status to in_progress if this is the first image
-  if (session.completed_images === 0) {
-    await supabase
-      .from("generations")
-      .update({ status: "in_progress" })
-      .eq("id", session.generation_id);
-  }
-
-  // Variation prompts for lighting/atmosphere
-  const variations = [
-    "morning light, golden hour warmth",
-    "soft afternoon glow, natural lighting",
-    "sunset glow, warm amber tones",
-    "bright midday, clear crisp light",
-  ];
-
-  const variationPrompt = variations[variationIndex % variations.length];
+  return { ...session, generation_id: session.generation_id };
+}
 
+function toValidatedSession(
+  session: GenerationSessionRow & { generation_id: string },
+  variationIndex: number,
+  completedImages: number
+): ValidatedSession {
   return {
     session: {
       userId: session.user_id,
       presetId: session.preset_id,
       styleId: session.style_id,
       imageUrl: session.image_url,
+      friendImageUrls: session.friend_image_urls || [],
+      customPrompt: session.custom_prompt,
+      aspectRatio: session.aspect_ratio ?? DEFAULT_ASPECT_RATIO,
       isFree: session.is_free,
       imageCount: session.image_count,
-      completedImages: newCompletedCount,
+      completedImages,
       createdAt: session.created_at,
       expiresAt: session.expires_at,
       generationId: session.generation_id,
     },
-    variationPrompt,
+    // Sessions from before per-preset variations have no prompts stored
+    variationPrompt: session.variation_prompts?.[variationIndex] ??
+      DEFAULT_VARIATIONS[variationIndex % DEFAULT_VARIATIONS.length],
     generationId: session.generation_id,
-    isLastImage,
+    isLastImage: completedImages >= session.image_count,
+  };
+}
+
+/**
+ * Validate a generation session and mark an image slot as used
+ * Each slot can only be requested once here; retries use validateRetrySession
+ * Returns session details including generationId for proper data linking
+ */
+export async function validateAndUseSession(
+  sessionId: string,
+  userId: string,
+  variationIndex: number
+): Promise<ValidatedSession | null> {
+  const supabase = createServiceClient();
+
+  const session = await loadUsableSession(sessionId, userId, variationIndex);
+  if (!session) {
+    return null;
+  }
+
+  // Claim the slot atomically; parallel requests for other slots don't
+  // overwrite it and a second request for the same slot gets nothing
+  const { data: requestedCount, error: claimError } = await supabase.rpc(
+    "claim_session_slot",
+    {
+      p_session_id: sessionId,
+      p_variation_index: variationIndex,
+    }
+  );
+
+  if (claimError) {
+    console.error("Failed to claim variation slot:", claimError);
+    return null;
+  }
+
+  if (typeof requestedCount !== "number") {
+    console.error(`Variation ${variationIndex} already requested`);
+    return null;
+  }
+
+  // Update generation status to in_progress if this is the first image
+  if (requestedCount === 1) {
+    await supabase
+      .from("generations")
+      .update({ status: "in_progress" })
+      .eq("id", session.generation_id);
+  }
+
+  return toValidatedSession(session, variationIndex, requestedCount);
+}
+
+/**
+ * Mark a slot's request as no longer in flight, once it finished or is
+ * tracked in fal_requests (best-effort; stale entries expire on their own)
+ */
+export async function releaseSessionSlot(
+  generationId: string,
+  variationIndex: number
+): Promise<void> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase.rpc("release_session_slot", {
+    p_generation_id: generationId,
+    p_variation_index: variationIndex,
+  });
+
+  if (error) {
+    console.error(`Failed to release variation ${variationIndex} of ${generationId}:`, error);
+  }
+}
+
+/**
+ * The session of a generation, for sending a variation slot to a fallback
+ * model from fal-webhook. Null once the session is gone or expired.
+ */
+export async function getSessionForGeneration(
+  generationId: string,
+  variationIndex: number
+): Promise<ValidatedSession | null> {
+  const supabase = createServiceClient();
+
+  const { data: session, error } = await supabase
+    .from("generation_sessions")
+    .select("*")
+    .eq("generation_id", generationId)
+    .maybeSingle<GenerationSessionRow>();
+
+  if (error || !session?.generation_id) {
+    return null;
+  }
+
+  if (new Date(session.expires_at) < new Date()) {
+    return null;
+  }
+
+  return toValidatedSession(
+    { ...session, generation_id: session.generation_id },
+    variationIndex,
+    session.completed_images
+  );
+}
+
+export interface RetrySessionResult {
+  success: boolean;
+  sessionResult?: ValidatedSession;
+  retriesRemaining?: number;
+  error?: "INVALID_SESSION" | "NOT_RETRYABLE" | "RETRY_LIMIT_REACHED";
+}
+
+/**
+ * Validate a retry of a variation slot
+ *
+ * Only slots with nothing persisted, nothing queued on fal.ai and no request
+ * still running (slots_in_flight) can be retried, so a session never yields
+ * more than image_count images. Retries are
+ * capped per session and each one extends the session expiry. A slot that was
+ * never requested is treated as its first request and doesn't count as a retry.
+ */
+export async function validateRetrySession(
+  sessionId: string,
+  userId: string,
+  variationIndex: number
+): Promise<RetrySessionResult> {
+  const supabase = createServiceClient();
+
+  const session = await loadUsableSession(sessionId, userId, variationIndex);
+  if (!session) {
+    return { success: false, error: "INVALID_SESSION" };
+  }
+
+  const retryCount = session.retry_count || 0;
+  const requestedIndexes = session.requested_indexes || [];
+
+  // Slot never reached the server (e.g. request lost in transit) - this is its
+  // first request. The claim is atomic, so if generate-single claims the slot
+  // in the meantime it's in flight and can't be retried.
+  if (!requestedIndexes.includes(variationIndex)) {
+    const sessionResult = await validateAndUseSession(sessionId, userId, variationIndex);
+    return sessionResult
+      ? { success: true, sessionResult, retriesRemaining: MAX_SESSION_RETRIES - retryCount }
+      : { success: false, error: "NOT_RETRYABLE" };
+  }
+
+  if (retryCount >= MAX_SESSION_RETRIES) {
+    console.error(`Session ${sessionId} reached its retry limit`);
+    return { success: false, error: "RETRY_LIMIT_REACHED", retriesRemaining: 0 };
+  }
+
+  const [{ count: imageCount }, { count: queuedCount }] = await Promise.all([
+    supabase
+      .from("images")
+      .select("id", { count: "exact", head: true })
+      .eq("generation_batch_id", session.generation_id)
+      .eq("image_index", variationIndex),
+    supabase
+      .from("fal_requests")
+      .select("id", { count: "exact", head: true })
+      .eq("generation_id", session.generation_id)
+      .eq("variation_index", variationIndex)
+      .eq("status", "queued"),
+  ]);
+
+  if ((imageCount ?? 0) > 0 || (queuedCount ?? 0) > 0) {
+    console.error(`Variation ${variationIndex} already generated or in progress`);
+    return { success: false, error: "NOT_RETRYABLE" };
+  }
+
+  const extendedExpiry = Math.max(
+    new Date(session.expires_at).getTime(),
+    Date.now() + RETRY_EXTENSION_MS
+  );
+
+  // Compare-and-set on retry_count so concurrent retries can't both pass;
+  // also refused while generate-single is still polling the slot
+  const { data: claimed, error: claimError } = await supabase.rpc("claim_session_retry", {
+    p_session_id: sessionId,
+    p_variation_index: variationIndex,
+    p_retry_count: retryCount,
+    p_expires_at: new Date(extendedExpiry).toISOString(),
+  });
+
+  if (claimError || claimed !== true) {
+    console.error(`Variation ${variationIndex} of session ${sessionId} is in flight or being retried`, claimError ?? "");
+    return { success: false, error: "NOT_RETRYABLE" };
+  }
+
+  return {
+    success: true,
+    sessionResult: toValidatedSession(session, variationIndex, requestedIndexes.length),
+    retriesRemaining: MAX_SESSION_RETRIES - retryCount - 1,
   };
 }
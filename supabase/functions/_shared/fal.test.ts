@@ -0,0 +1,155 @@
+/**
+ * fal.ai Queue Client Tests
+ *
+ * Runs the client against a local HTTP stub of the fal.ai queue.
+ *
+ * Run: deno test --allow-net --allow-env supabase/functions/_shared/fal.test.ts
+ */
+
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+const MODEL = "fal-ai/kling-image/v3/image-to-image";
+const STUB_PORT = 8787;
+const STUB_URL = `http://localhost:${STUB_PORT}`;
+
+// Fast polling so the tests don't wait on the production intervals
+const FAST_POLL = {
+  initialIntervalMs: 1,
+  maxIntervalMs: 5,
+  backoffFactor: 1,
+};
+
+// Per-step stub behaviour; each step sets what the queue returns
+interface StubQueue {
+  submit: () => Response;
+  status: () => Response;
+  result: () => Response;
+}
+
+const calls: string[] = [];
+let queue: StubQueue;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function queued(requestId: string): Response {
+  const base = `${STUB_URL}/${MODEL}/requests/${requestId}`;
+  return json({
+    status: "IN_QUEUE",
+    request_id: requestId,
+    response_url: base,
+    status_url: `${base}/status`,
+    cancel_url: `${base}/cancel`,
+  });
+}
+
+function handleStub(req: Request): Response {
+  const { pathname } = new URL(req.url);
+  calls.push(`${req.method} ${pathname}`);
+
+  if (req.headers.get("Authorization") !== "Key test-key") {
+    return json({ detail: "Unauthorized" }, 401);
+  }
+
+  if (req.method === "POST" && pathname === `/${MODEL}`) return queue.submit();
+  if (req.method === "PUT" && pathname.endsWith("/cancel")) return json({ status: "CANCELLATION_REQUESTED" });
+  if (pathname.endsWith("/status")) return queue.status();
+  return queue.result();
+}
+
+// Error paths leave fetch bodies unread, which the resource sanitizer flags
+Deno.test({ name: "fal queue client", sanitizeResources: false }, async (t: Deno.TestContext) => {
+  const server = Deno.serve({ port: STUB_PORT, onListen() {} }, handleStub);
+
+  // fal.ts reads its config at import time
+  Deno.env.set("FAL_KEY", "test-key");
+  Deno.env.set("FAL_QUEUE_URL", STUB_URL);
+  const { FalError, generateImage, generateWithPolling } = await import("./fal.ts");
+
+  const expectFalError = async (promise: Promise<unknown>, code: string) => {
+    const error = await assertRejects(() => promise, FalError);
+    assertEquals((error as InstanceType<typeof FalError>).code, code);
+  };
+
+  try {
+    await t.step("submits, polls and returns the first image", async () => {
+      let polls = 0;
+      calls.length = 0;
+      queue = {
+        submit: () => queued("req-ok"),
+        status: () => json({ status: ++polls < 2 ? "IN_PROGRESS" : "COMPLETED" }),
+        result: () => json({ images: [{ url: "https://cdn.test/a.png" }] }),
+      };
+
+      const imageUrl = await generateImage(MODEL, { prompt: "test" }, FAST_POLL);
+
+      assertEquals(imageUrl, "https://cdn.test/a.png");
+      assertEquals(polls, 2);
+      assertEquals(calls[0], `POST /${MODEL}`);
+    });
+
+    await t.step("throws SUBMIT_FAILED when the queue rejects the request", async () => {
+      queue = {
+        submit: () => json({ detail: "bad input" }, 422),
+        status: () => json({ status: "COMPLETED" }),
+        result: () => json({ images: [] }),
+      };
+
+      await expectFalError(generateImage(MODEL, {}, FAST_POLL), "SUBMIT_FAILED");
+    });
+
+    await t.step("cancels and throws TIMEOUT when the poll budget runs out", async () => {
+      calls.length = 0;
+      queue = {
+        submit: () => queued("req-slow"),
+        status: () => json({ status: "IN_QUEUE" }),
+        result: () => json({ images: [] }),
+      };
+
+      await expectFalError(
+        generateWithPolling(MODEL, {}, { ...FAST_POLL, maxPollTimeMs: 30 }),
+        "TIMEOUT"
+      );
+      assertEquals(calls.at(-1), `PUT /${MODEL}/requests/req-slow/cancel`);
+    });
+
+    await t.step("throws UNEXPECTED_STATUS for an unknown queue status", async () => {
+      queue = {
+        submit: () => queued("req-odd"),
+        status: () => json({ status: "EXPLODED" }),
+        result: () => json({ images: [] }),
+      };
+
+      await expectFalError(generateImage(MODEL, {}, FAST_POLL), "UNEXPECTED_STATUS");
+    });
+
+    await t.step("throws RESULT_FAILED when the result can't be fetched", async () => {
+      queue = {
+        submit: () => queued("req-lost"),
+        status: () => json({ status: "COMPLETED" }),
+        result: () => json({ detail: "gone" }, 500),
+      };
+
+      await expectFalError(generateImage(MODEL, {}, FAST_POLL), "RESULT_FAILED");
+    });
+
+    await t.step("throws NO_IMAGE when the result has no images", async () => {
+      queue = {
+        submit: () => queued("req-empty"),
+        status: () => json({ status: "COMPLETED" }),
+        result: () => json({ images: [] }),
+      };
+
+      await expectFalError(generateImage(MODEL, {}, FAST_POLL), "NO_IMAGE");
+    });
+  } finally {
+    await server.shutdown();
+  }
+});
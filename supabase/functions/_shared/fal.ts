@@ -0,0 +1,434 @@
+/**
+ * fal.ai Queue Client for Supabase Edge Functions
+ *
+ * Single implementation of the fal.ai queue protocol shared by all edge
+ * functions: submit -> poll status -> fetch result, with cancellation on
+ * timeout and typed result parsing per model.
+ *
+ * Set FAL_QUEUE_URL to point the client at a local HTTP stub for testing.
+ */
+
+import type { ModelId } from "./presets.ts";
+
+const FAL_KEY = Deno.env.get("FAL_KEY");
+const FAL_QUEUE_URL = Deno.env.get("FAL_QUEUE_URL") || "https://queue.fal.run";
+const FAL_WEBHOOK_ENABLED = Deno.env.get("FAL_WEBHOOK_ENABLED") === "true";
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+
+// ============================================
+// Errors
+// ============================================
+
+export type FalErrorCode =
+  | "FAL_NOT_CONFIGURED"
+  | "SUBMIT_FAILED"
+  | "RESULT_FAILED"
+  | "UNEXPECTED_STATUS"
+  | "TIMEOUT"
+  | "NO_IMAGE";
+
+export class FalError extends Error {
+  code: FalErrorCode;
+  requestId?: string;
+
+  constructor(code: FalErrorCode, message: string, requestId?: string) {
+    super(message);
+    this.name = "FalError";
+    this.code = code;
+    this.requestId = requestId;
+  }
+}
+
+// ============================================
+// Poll configuration
+// ============================================
+
+export interface FalPollOptions {
+  /** Total time budget for polling before giving up */
+  maxPollTimeMs: number;
+  /** Delay before the first status check */
+  initialIntervalMs: number;
+  /** Upper bound for the delay between status checks */
+  maxIntervalMs: number;
+  /** Multiplier applied to the delay after each status check */
+  backoffFactor: number;
+  /** Cancel the queued request on fal.ai when the poll budget runs out */
+  cancelOnTimeout: boolean;
+}
+
+// Kling v3 image-to-image typically takes 60-90 seconds
+// Supabase Edge Functions have a 150s wall-clock limit on all plans
+export const DEFAULT_POLL_OPTIONS: FalPollOptions = {
+  maxPollTimeMs: 120000,
+  initialIntervalMs: 2000,
+  maxIntervalMs: 5000,
+  backoffFactor: 1.25,
+  cancelOnTimeout: true,
+};
+
+// ============================================
+// Queue protocol types
+// ============================================
+
+export interface FalQueueResponse {
+  status: string;
+  request_id: string;
+  response_url: string;
+  status_url: string;
+  cancel_url?: string;
+}
+
+interface FalStatusResponse {
+  status: "IN_QUEUE" | "IN_PROGRESS" | "COMPLETED";
+  response_url?: string;
+}
+
+// ============================================
+// Model result types
+// ============================================
+
+export interface FalImageFile {
+  url: string;
+  content_type?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface KlingImageResult {
+  images: FalImageFile[];
+}
+
+export interface NanoBananaResult {
+  images: FalImageFile[];
+  description?: string;
+}
+
+export interface FalModelResults {
+  "fal-ai/kling-image/v3/image-to-image": KlingImageResult;
+  "fal-ai/nano-banana-pro/edit": NanoBananaResult;
+}
+
+// ============================================
+// Webhook payloads
+// ============================================
+
+export interface FalWebhookPayload {
+  request_id: string;
+  gateway_request_id?: string;
+  status: "OK" | "ERROR";
+  payload: unknown;
+  error?: string;
+  payload_error?: string;
+}
+
+// ============================================
+// Webhook signatures
+// ============================================
+
+// fal.ai signs every webhook with ED25519; the public keys are published here
+const FAL_JWKS_URL = "https://rest.alpha.fal.ai/.well-known/jwks.json";
+const JWKS_CACHE_MS = 24 * 60 * 60 * 1000;
+
+// Reject callbacks signed more than 5 minutes from now (replay protection)
+const WEBHOOK_TIMESTAMP_TOLERANCE_S = 300;
+
+let cachedWebhookKeys: { keys: CryptoKey[]; fetchedAt: number } | null = null;
+
+async function getWebhookKeys(): Promise<CryptoKey[]> {
+  if (cachedWebhookKeys && Date.now() - cachedWebhookKeys.fetchedAt < JWKS_CACHE_MS) {
+    return cachedWebhookKeys.keys;
+  }
+
+  const response = await fetch(FAL_JWKS_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch fal.ai JWKS: ${response.status}`);
+  }
+
+  const { keys: jwks }: { keys: JsonWebKey[] } = await response.json();
+  const keys = await Promise.all(
+    jwks.map((jwk) =>
+      crypto.subtle.importKey("jwk", jwk, { name: "Ed25519" }, false, ["verify"])
+    )
+  );
+
+  cachedWebhookKeys = { keys, fetchedAt: Date.now() };
+  return keys;
+}
+
+function hexToBytes(hex: string): ArrayBuffer | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return null;
+  }
+  const buffer = new ArrayBuffer(hex.length / 2);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return buffer;
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Verify the signature headers fal.ai sends with a webhook against the raw body
+ * The signed message is request id, user id, timestamp and the body's SHA-256,
+ * newline separated. Throws if the signing keys can't be fetched.
+ */
+export async function verifyWebhookSignature(
+  headers: Headers,
+  body: ArrayBuffer
+): Promise<boolean> {
+  const requestId = headers.get("x-fal-webhook-request-id");
+  const userId = headers.get("x-fal-webhook-user-id");
+  const timestamp = headers.get("x-fal-webhook-timestamp");
+  const signatureHex = headers.get("x-fal-webhook-signature");
+
+  if (!requestId || !userId || !timestamp || !signatureHex) {
+    return false;
+  }
+
+  const signedAt = Number(timestamp);
+  if (!Number.isFinite(signedAt) ||
+    Math.abs(Date.now() / 1000 - signedAt) > WEBHOOK_TIMESTAMP_TOLERANCE_S) {
+    return false;
+  }
+
+  const signature = hexToBytes(signatureHex);
+  if (!signature) {
+    return false;
+  }
+
+  const message = new TextEncoder().encode(
+    [requestId, userId, timestamp, await sha256Hex(body)].join("\n")
+  );
+
+  for (const key of await getWebhookKeys()) {
+    if (await crypto.subtle.verify({ name: "Ed25519" }, key, signature, message)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// ============================================
+// Queue operations
+// ============================================
+
+function authHeaders(): Record<string, string> {
+  if (!FAL_KEY) {
+    throw new FalError("FAL_NOT_CONFIGURED", "FAL_KEY is not set");
+  }
+  return { "Authorization": `Key ${FAL_KEY}` };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * URL of the fal-webhook edge function, or null if webhooks aren't enabled
+ * Callbacks are authenticated by fal.ai's signature (verifyWebhookSignature)
+ */
+export function getWebhookUrl(): string | null {
+  if (!FAL_WEBHOOK_ENABLED || !SUPABASE_URL) {
+    return null;
+  }
+  return `${SUPABASE_URL}/functions/v1/fal-webhook`;
+}
+
+/**
+ * Submit a request to the fal.ai queue
+ * When webhookUrl is given, fal.ai POSTs the result there on completion
+ */
+export async function submitToQueue(
+  model: ModelId,
+  params: Record<string, unknown>,
+  webhookUrl?: string
+): Promise<FalQueueResponse> {
+  const submitUrl = webhookUrl
+    ? `${FAL_QUEUE_URL}/${model}?fal_webhook=${encodeURIComponent(webhookUrl)}`
+    : `${FAL_QUEUE_URL}/${model}`;
+
+  const response = await fetch(submitUrl, {
+    method: "POST",
+    headers: {
+      ...authHeaders(),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new FalError("SUBMIT_FAILED", `Queue submit failed: ${errorText}`);
+  }
+
+  const queueData: FalQueueResponse = await response.json();
+  console.log(`[fal] Queued request: ${queueData.request_id}`);
+  return queueData;
+}
+
+/**
+ * Cancel a queued or running request (best-effort)
+ */
+export async function cancelRequest(
+  model: ModelId,
+  queueData: FalQueueResponse
+): Promise<boolean> {
+  const cancelUrl =
+    queueData.cancel_url ||
+    `${FAL_QUEUE_URL}/${model}/requests/${queueData.request_id}/cancel`;
+
+  try {
+    const response = await fetch(cancelUrl, {
+      method: "PUT",
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      console.warn(`[fal] Cancel failed for ${queueData.request_id}: ${response.status}`);
+      return false;
+    }
+
+    console.log(`[fal] Cancelled request: ${queueData.request_id}`);
+    return true;
+  } catch (error) {
+    console.warn(`[fal] Cancel error for ${queueData.request_id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Poll a queued request until it completes, then fetch the result
+ */
+export async function pollForResult<M extends ModelId>(
+  model: M,
+  queueData: FalQueueResponse,
+  options: Partial<FalPollOptions> = {}
+): Promise<FalModelResults[M]> {
+  const config = { ...DEFAULT_POLL_OPTIONS, ...options };
+  const startTime = Date.now();
+  let interval = config.initialIntervalMs;
+
+  while (Date.now() - startTime < config.maxPollTimeMs) {
+    await delay(interval);
+    interval = Math.min(interval * config.backoffFactor, config.maxIntervalMs);
+
+    const statusResponse = await fetch(queueData.status_url, {
+      headers: authHeaders(),
+    });
+
+    if (!statusResponse.ok) {
+      console.warn("[fal] Status check failed, retrying...");
+      continue;
+    }
+
+    const statusData: FalStatusResponse = await statusResponse.json();
+
+    if (statusData.status === "COMPLETED") {
+      const resultResponse = await fetch(
+        statusData.response_url || queueData.response_url,
+        { headers: authHeaders() }
+      );
+
+      if (!resultResponse.ok) {
+        throw new FalError(
+          "RESULT_FAILED",
+          "Failed to fetch completed result",
+          queueData.request_id
+        );
+      }
+
+      return resultResponse.json();
+    }
+
+    if (statusData.status !== "IN_QUEUE" && statusData.status !== "IN_PROGRESS") {
+      throw new FalError(
+        "UNEXPECTED_STATUS",
+        `Unexpected status: ${statusData.status}`,
+        queueData.request_id
+      );
+    }
+  }
+
+  if (config.cancelOnTimeout) {
+    await cancelRequest(model, queueData);
+  }
+
+  throw new FalError("TIMEOUT", "Generation timed out", queueData.request_id);
+}
+
+/**
+ * Submit a generation request to fal.ai queue and poll for result
+ */
+export async function generateWithPolling<M extends ModelId>(
+  model: M,
+  params: Record<string, unknown>,
+  options: Partial<FalPollOptions> = {}
+): Promise<FalModelResults[M]> {
+  const queueData = await submitToQueue(model, params);
+  return pollForResult(model, queueData, options);
+}
+
+// ============================================
+// Result parsing
+// ============================================
+
+function imageFileUrls(images: unknown): string[] {
+  if (!Array.isArray(images)) {
+    return [];
+  }
+
+  const urls: string[] = [];
+  for (const img of images) {
+    if (typeof img === "object" && img !== null && "url" in img) {
+      urls.push((img as FalImageFile).url);
+    } else if (typeof img === "string") {
+      urls.push(img);
+    }
+  }
+  return urls;
+}
+
+// One parser per model - adding a ModelId without a parser is a type error
+const resultParsers: { [M in ModelId]: (result: FalModelResults[M]) => string[] } = {
+  "fal-ai/kling-image/v3/image-to-image": (result) => imageFileUrls(result?.images),
+  "fal-ai/nano-banana-pro/edit": (result) => imageFileUrls(result?.images),
+};
+
+/**
+ * Extract image URLs from a fal.ai result for the given model
+ */
+export function extractImageUrls<M extends ModelId>(
+  model: M,
+  result: FalModelResults[M]
+): string[] {
+  if (typeof result !== "object" || result === null) {
+    return [];
+  }
+  return resultParsers[model](result);
+}
+
+/**
+ * Run a model and return the first generated image URL
+ * Throws FalError with code NO_IMAGE if the result contains no images
+ */
+export async function generateImage(
+  model: ModelId,
+  params: Record<string, unknown>,
+  options: Partial<FalPollOptions> = {}
+): Promise<string> {
+  const result = await generateWithPolling(model, params, options);
+  const [imageUrl] = extractImageUrls(model, result);
+
+  if (!imageUrl) {
+    throw new FalError("NO_IMAGE", "No image generated");
+  }
+
+  return imageUrl;
+}
@@ -0,0 +1,360 @@
+/**
+ * Variation generation for Supabase Edge Functions
+ *
+ * Runs one variation of a reserved generation session: builds the prompt for
+ * each model in the style's chain, then either queues it on fal.ai with a
+ * webhook (async) or polls for the result and persists it. Shared by
+ * generate-single (first request of a slot) and retry-variation (bounded
+ * retries of a slot).
+ *
+ * When a model fails the next one in the chain is tried: right away when
+ * polling, and from fal-webhook (queueFallbackVariation) in async mode. The
+ * model that produced an image is stored on its images row.
+ */
+
+import { corsHeaders } from "./cors.ts";
+import { createServiceClient } from "./auth.ts";
+import {
+  getSessionForGeneration,
+  releaseSessionSlot,
+  updateGenerationImages,
+  type ValidatedSession,
+} from "./credits.ts";
+import {
+  getModelRoutes,
+  getPresetReferenceUrls,
+  buildModelParams,
+  type ModelId,
+  type ModelRoute,
+  type PhotoStyleId,
+} from "./presets.ts";
+import {
+  generateImage,
+  submitToQueue,
+  cancelRequest,
+  getWebhookUrl,
+  FalError,
+  DEFAULT_POLL_OPTIONS,
+  type FalQueueResponse,
+} from "./fal.ts";
+import { persistImage } from "./images.ts";
+
+// Poll time held back for the next model when the current one has a fallback
+const FALLBACK_RESERVE_MS = 30_000;
+
+export type VariationResult =
+  | { success: true; status: "queued"; requestId: string }
+  | { success: true; status: "completed"; imageUrl: string; imageId: string | null }
+  | { success: false; error: "INVALID_PRESET" };
+
+/**
+ * Generate one variation of a validated session
+ * The slot stays marked in flight until this returns, so it can't be retried
+ * while polling. Throws FalError on fal.ai failures
+ */
+export async function runVariation(
+  userId: string,
+  sessionResult: ValidatedSession,
+  variationIndex: number,
+  isAsync: boolean
+): Promise<VariationResult> {
+  try {
+    return await generateVariation(userId, sessionResult, variationIndex, isAsync);
+  } finally {
+    await releaseSessionSlot(sessionResult.generationId, variationIndex);
+  }
+}
+
+async function generateVariation(
+  userId: string,
+  sessionResult: ValidatedSession,
+  variationIndex: number,
+  isAsync: boolean
+): Promise<VariationResult> {
+  const { session, generationId, isLastImage } = sessionResult;
+
+  // Models to try for the preset+style (and any extra people), with their prompts
+  const routes = await getSessionRoutes(sessionResult);
+  if (!routes) {
+    return { success: false, error: "INVALID_PRESET" };
+  }
+
+  // Friends' photos go right after the user's, then the preset's references
+  const referenceUrls = [
+    ...session.friendImageUrls,
+    ...(await getPresetReferenceUrls(session.presetId)),
+  ];
+
+  // Async mode: submit with webhook and let fal-webhook persist the result
+  const webhookUrl = isAsync ? getWebhookUrl() : null;
+  if (webhookUrl) {
+    const requestId = await queueVariation(
+      userId,
+      sessionResult,
+      variationIndex,
+      routes,
+      referenceUrls,
+      webhookUrl
+    );
+    return { success: true, status: "queued", requestId };
+  }
+
+  console.log(`Generating image ${variationIndex} (generation: ${generationId})`);
+  const { imageUrl, modelId } = await generateWithFallback(
+    routes,
+    (route) => buildVariationParams(route, sessionResult, referenceUrls)
+  );
+
+  console.log(`Image ${variationIndex} generated successfully with ${modelId}`);
+
+  // Persist image to Supabase Storage and database
+  const persistResult = await persistImage(
+    imageUrl,
+    userId,
+    generationId, // Use generationId for consistent data linking
+    variationIndex,
+    session.presetId,
+    session.styleId,
+    session.isFree,
+    modelId
+  );
+
+  if (!persistResult) {
+    // Fallback: return fal.ai URL if persistence fails (images will be temporary)
+    console.warn("Image persistence failed, returning temporary URL");
+    return { success: true, status: "completed", imageUrl, imageId: null };
+  }
+
+  // Update generations.image_urls array for unified tracking
+  await updateGenerationImages(
+    generationId,
+    persistResult.storageUrl,
+    isLastImage
+  );
+
+  return {
+    success: true,
+    status: "completed",
+    imageUrl: persistResult.storageUrl,
+    imageId: persistResult.imageId,
+  };
+}
+
+/**
+ * Resubmit a failed queued variation to the next model in its chain
+ * Called by fal-webhook before giving up on a slot. Returns true when a
+ * fallback request was queued (and tracked), false when there is none left.
+ */
+export async function queueFallbackVariation(
+  userId: string,
+  generationId: string,
+  variationIndex: number,
+  failedModelId: ModelId
+): Promise<boolean> {
+  const webhookUrl = getWebhookUrl();
+  if (!webhookUrl) return false;
+
+  const sessionResult = await getSessionForGeneration(generationId, variationIndex);
+  if (!sessionResult) return false;
+
+  const routes = await getSessionRoutes(sessionResult);
+  const failedIndex = routes?.findIndex((route) => route.modelConfig.modelId === failedModelId) ?? -1;
+  const remainingRoutes = routes && failedIndex >= 0 ? routes.slice(failedIndex + 1) : [];
+  if (remainingRoutes.length === 0) return false;
+
+  try {
+    const referenceUrls = [
+      ...sessionResult.session.friendImageUrls,
+      ...(await getPresetReferenceUrls(sessionResult.session.presetId)),
+    ];
+    const requestId = await queueVariation(
+      userId,
+      sessionResult,
+      variationIndex,
+      remainingRoutes,
+      referenceUrls,
+      webhookUrl
+    );
+    console.log(`[generation] Variation ${variationIndex} of ${generationId} fell back from ${failedModelId} (request ${requestId})`);
+    return true;
+  } catch (error) {
+    console.error(`[generation] Fallback for variation ${variationIndex} of ${generationId} failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Run models in order until one returns an image
+ * A fal.ai failure or timeout moves on to the next model; the last model's
+ * error is thrown. The poll budget is shared, keeping some back for fallbacks.
+ */
+export async function generateWithFallback(
+  routes: ModelRoute[],
+  buildParams: (route: ModelRoute) => Record<string, unknown>
+): Promise<{ imageUrl: string; modelId: ModelId }> {
+  const deadline = Date.now() + DEFAULT_POLL_OPTIONS.maxPollTimeMs;
+  let lastError: unknown = new FalError("NO_IMAGE", "No model to run");
+
+  for (const [index, route] of routes.entries()) {
+    const { modelId } = route.modelConfig;
+    const hasFallback = index < routes.length - 1;
+    const maxPollTimeMs = deadline - Date.now() - (hasFallback ? FALLBACK_RESERVE_MS : 0);
+    if (maxPollTimeMs <= 0) break;
+
+    try {
+      const imageUrl = await generateImage(modelId, buildParams(route), { maxPollTimeMs });
+      return { imageUrl, modelId };
+    } catch (error) {
+      if (!(error instanceof FalError)) throw error;
+      lastError = error;
+      if (hasFallback) {
+        console.warn(`[generation] ${modelId} failed (${error.code}), falling back to ${routes[index + 1].modelConfig.modelId}`);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Model routes for a session's preset, style and extra people
+ * The preset's window is checked as of the reservation: the credit is already
+ * spent, so a preset that ends mid-session still generates the whole batch.
+ */
+function getSessionRoutes(sessionResult: ValidatedSession): Promise<ModelRoute[] | null> {
+  const { session } = sessionResult;
+  return getModelRoutes(
+    session.presetId,
+    session.styleId as PhotoStyleId,
+    {
+      friendCount: session.friendImageUrls.length,
+      customPrompt: session.customPrompt,
+    },
+    new Date(session.createdAt)
+  );
+}
+
+/**
+ * Model input for one variation on one route (handles image_url vs image_urls)
+ */
+function buildVariationParams(
+  route: ModelRoute,
+  sessionResult: ValidatedSession,
+  referenceUrls: string[]
+): Record<string, unknown> {
+  const { session, variationPrompt } = sessionResult;
+  return buildModelParams(
+    route.modelConfig,
+    session.imageUrl,
+    `${route.prompt}, ${variationPrompt}`,
+    referenceUrls,
+    session.aspectRatio
+  );
+}
+
+/**
+ * Submit a variation to the first model that accepts it and track the request
+ * so fal-webhook can match the callback. If it can't be tracked the request is
+ * cancelled, since its result could never be stored.
+ */
+async function queueVariation(
+  userId: string,
+  sessionResult: ValidatedSession,
+  variationIndex: number,
+  routes: ModelRoute[],
+  referenceUrls: string[],
+  webhookUrl: string
+): Promise<string> {
+  const { session, generationId } = sessionResult;
+  let queued: { queueData: FalQueueResponse; modelId: ModelId } | null = null;
+  let lastError: unknown = new FalError("SUBMIT_FAILED", "No model to submit to");
+
+  for (const route of routes) {
+    const { modelId } = route.modelConfig;
+    try {
+      const queueData = await submitToQueue(
+        modelId,
+        buildVariationParams(route, sessionResult, referenceUrls),
+        webhookUrl
+      );
+      queued = { queueData, modelId };
+      break;
+    } catch (error) {
+      if (!(error instanceof FalError)) throw error;
+      console.warn(`[generation] Submit to ${modelId} failed (${error.code})`);
+      lastError = error;
+    }
+  }
+
+  if (!queued) throw lastError;
+
+  const supabase = createServiceClient();
+  const requestId = queued.queueData.request_id;
+  const { error: trackError } = await supabase.from("fal_requests").insert({
+    request_id: requestId,
+    user_id: userId,
+    generation_id: generationId,
+    variation_index: variationIndex,
+    image_count: session.imageCount,
+    model_id: queued.modelId,
+    preset_id: session.presetId,
+    style_id: session.styleId,
+    is_free: session.isFree,
+  });
+
+  if (trackError) {
+    // Without a tracking row the webhook can't match the callback
+    console.error("Failed to record fal request:", trackError);
+    await cancelRequest(queued.modelId, queued.queueData);
+    throw new Error("Failed to record queued request");
+  }
+
+  return requestId;
+}
+
+/**
+ * Build the HTTP response for a variation result
+ */
+export function variationResponse(
+  result: VariationResult,
+  variationIndex: number,
+  generationId: string,
+  extra: Record<string, unknown> = {}
+): Response {
+  if (!result.success) {
+    return new Response(
+      JSON.stringify({ error: "Invalid preset or style", code: result.error }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const body = result.status === "queued"
+    ? {
+      success: true,
+      status: "queued",
+      variationIndex,
+      imageUrl: null,
+      imageId: null,
+      requestId: result.requestId,
+      generationId,
+    }
+    : {
+      success: true,
+      status: "completed",
+      variationIndex,
+      imageUrl: result.imageUrl,
+      imageId: result.imageId,
+      generationId, // Include for client-side reference
+    };
+
+  return new Response(
+    JSON.stringify({ ...body, ...extra }),
+    {
+      status: result.status === "queued" ? 202 : 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
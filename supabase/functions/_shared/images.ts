@@ -0,0 +1,138 @@
+/**
+ * Image persistence utilities for Supabase Edge Functions
+ *
+ * Copies generated images from fal.ai into Supabase Storage and records them
+ * in the `images` table. Shared by generate-single (polling) and fal-webhook
+ * (queue callbacks) so both paths store images identically. Every image goes
+ * through the moderation stage first; only approved ones can later be shared.
+ * The model that generated the image is recorded with it.
+ *
+ * Each batch slot (generation_batch_id, image_index) is stored once; repeated
+ * deliveries of a slot get the image that's already there.
+ */
+
+import { createServiceClient } from "./auth.ts";
+import { moderateImage } from "./moderation.ts";
+import type { ModelId } from "./presets.ts";
+
+/**
+ * Download image from fal.ai, upload to Supabase Storage, and insert into images table
+ * Uses generationId (from generations table) as the batch identifier for data consistency
+ */
+export async function persistImage(
+  falImageUrl: string,
+  userId: string,
+  generationId: string, // Canonical generation record ID
+  variationIndex: number,
+  presetId: string,
+  styleId: string,
+  isFree: boolean,
+  modelId: ModelId
+): Promise<{ storageUrl: string; imageId: string } | null> {
+  try {
+    const supabase = createServiceClient();
+
+    const existing = await findSlotImage(generationId, variationIndex);
+    if (existing) {
+      console.log(`Image ${variationIndex} already persisted: ${existing.imageId}`);
+      return existing;
+    }
+
+    // Download image from fal.ai
+    const imageResponse = await fetch(falImageUrl);
+    if (!imageResponse.ok) {
+      console.error("Failed to download image from fal.ai:", imageResponse.status);
+      return null;
+    }
+
+    const imageBlob = await imageResponse.blob();
+    const imageBuffer = await imageBlob.arrayBuffer();
+
+    // Flagged (or unchecked) images are kept private: the images trigger
+    // rejects is_public unless moderation_status is 'approved'
+    const moderation = await moderateImage(falImageUrl);
+
+    // Upload to Supabase Storage: generations/{userId}/{generationId}/{variationIndex}.jpg
+    const storagePath = `${userId}/${generationId}/${variationIndex}.jpg`;
+
+    const { error: uploadError } = await supabase.storage
+      .from("generations")
+      .upload(storagePath, imageBuffer, {
+        contentType: "image/jpeg",
+        upsert: true,
+      });
+
+    if (uploadError) {
+      console.error("Failed to upload to storage:", uploadError);
+      return null;
+    }
+
+    // Get public URL
+    const { data: urlData } = supabase.storage
+      .from("generations")
+      .getPublicUrl(storagePath);
+
+    const storageUrl = urlData.publicUrl;
+
+    // Insert record into images table with generationId as batch reference
+    const { data: imageRecord, error: insertError } = await supabase
+      .from("images")
+      .upsert({
+        user_id: userId,
+        generation_batch_id: generationId, // Links to generations.id
+        image_url: storageUrl,
+        storage_path: storagePath,
+        preset_id: presetId,
+        style_id: styleId,
+        model_id: modelId,
+        image_index: variationIndex,
+        is_public: false,
+        is_free_generation: isFree,
+        moderation_status: moderation.status,
+        moderation_reason: moderation.reason,
+      }, { onConflict: "generation_batch_id,image_index", ignoreDuplicates: true })
+      .select("id")
+      .maybeSingle();
+
+    if (insertError) {
+      console.error("Failed to insert image record:", insertError);
+      // Try to clean up the uploaded file
+      await supabase.storage.from("generations").remove([storagePath]);
+      return null;
+    }
+
+    if (!imageRecord) {
+      // A concurrent delivery stored the slot first (same storage path)
+      return await findSlotImage(generationId, variationIndex);
+    }
+
+    console.log(`Image ${variationIndex} persisted: ${imageRecord.id}`);
+    return { storageUrl, imageId: imageRecord.id };
+  } catch (error) {
+    console.error("Error persisting image:", error);
+    return null;
+  }
+}
+
+/**
+ * Look up the image already stored for a batch slot, if any
+ */
+async function findSlotImage(
+  generationId: string,
+  variationIndex: number
+): Promise<{ storageUrl: string; imageId: string } | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("images")
+    .select("id, image_url")
+    .eq("generation_batch_id", generationId)
+    .eq("image_index", variationIndex)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up image slot: ${error.message}`);
+  }
+
+  return data ? { storageUrl: data.image_url, imageId: data.id } : null;
+}
@@ -0,0 +1,246 @@
+/**
+ * Moderation stage for Supabase Edge Functions
+ *
+ * Runs custom prompt text (before a credit is spent) and generated images
+ * (before persistImage stores them) through a list of moderation providers:
+ * - blocklist: keyword matching, always on, text only
+ * - classifier: an external HTTP classifier, on when
+ *   MODERATION_CLASSIFIER_URL is set, for text and images
+ *
+ * The first provider to flag wins. Images are stored with the resulting
+ * moderation_status; only "approved" images can be made public (enforced by
+ * a trigger on images, see migration 023). Images no provider could check are
+ * "pending" and wait in the moderate-image review queue. Without an image
+ * provider every image is pending, unless MODERATION_ALLOW_UNCHECKED_IMAGES
+ * is "true" (local development).
+ */
+
+const MODERATION_CLASSIFIER_URL = Deno.env.get("MODERATION_CLASSIFIER_URL");
+const MODERATION_CLASSIFIER_KEY = Deno.env.get("MODERATION_CLASSIFIER_KEY");
+const MODERATION_ALLOW_UNCHECKED_IMAGES =
+  Deno.env.get("MODERATION_ALLOW_UNCHECKED_IMAGES") === "true";
+
+export const CUSTOM_PROMPT_MAX_LENGTH = 300;
+
+export type CustomPromptError = "PROMPT_REQUIRED" | "PROMPT_TOO_LONG" | "PROMPT_REJECTED";
+
+export type CustomPromptCheck =
+  | { ok: true; prompt: string }
+  | { ok: false; error: CustomPromptError };
+
+// images.moderation_status; "pending" means no provider could check the image
+export type ModerationStatus = "approved" | "flagged" | "pending";
+
+export interface ModerationVerdict {
+  flagged: boolean;
+  provider: string;
+  reason?: string;
+}
+
+export interface ImageModerationResult {
+  status: ModerationStatus;
+  provider: string | null;
+  reason: string | null;
+}
+
+/**
+ * A moderation backend; either check may be left out if unsupported
+ * Checks throw when the provider can't reach a verdict
+ */
+export interface ModerationProvider {
+  name: string;
+  checkText?: (text: string) => Promise<ModerationVerdict>;
+  checkImage?: (imageUrl: string) => Promise<ModerationVerdict>;
+}
+
+// ============================================
+// Blocklist provider
+// ============================================
+
+// Matched as whole words or phrases (spaces or hyphens), case-insensitively
+const BLOCKED_TERMS = [
+  // Sexual content and nudity
+  "nude", "nudes", "naked", "nsfw", "porn", "porno", "pornographic", "sex", "sexy",
+  "sexual", "topless", "bottomless", "lingerie", "underwear", "erotic", "fetish",
+  "onlyfans", "undressed", "stripper",
+  // Violence and gore
+  "gore", "gory", "blood", "bloody", "corpse", "dead body", "decapitated", "beheaded",
+  "murder", "murdered", "suicide", "self harm", "torture", "massacre",
+  // Hate and extremism
+  "nazi", "swastika", "kkk", "isis", "terrorist", "terrorism", "white power",
+  // Drugs
+  "cocaine", "heroin", "meth",
+];
+
+const BLOCKED_PATTERN = new RegExp(
+  `\\b(${BLOCKED_TERMS.map((term) => term.replace(/ /g, "[\\s-]+")).join("|")})\\b`,
+  "i"
+);
+
+export const blocklistProvider: ModerationProvider = {
+  name: "blocklist",
+  checkText: (text) => {
+    const match = text.match(BLOCKED_PATTERN);
+    return Promise.resolve({
+      flagged: !!match,
+      provider: "blocklist",
+      reason: match ? `blocked term: ${match[1].toLowerCase()}` : undefined,
+    });
+  },
+};
+
+// ============================================
+// External classifier provider
+// ============================================
+
+/**
+ * Provider for an HTTP classifier
+ * POSTs { type: "text", text } or { type: "image", imageUrl } and expects
+ * { flagged: boolean, categories?: string[] } back
+ */
+export function createClassifierProvider(url: string, apiKey?: string): ModerationProvider {
+  const classify = async (body: Record<string, unknown>): Promise<ModerationVerdict> => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Classifier returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      flagged: data.flagged === true,
+      provider: "classifier",
+      reason: Array.isArray(data.categories) && data.categories.length > 0
+        ? data.categories.join(", ")
+        : undefined,
+    };
+  };
+
+  return {
+    name: "classifier",
+    checkText: (text) => classify({ type: "text", text }),
+    checkImage: (imageUrl) => classify({ type: "image", imageUrl }),
+  };
+}
+
+/**
+ * Providers in the order they run
+ */
+export function getModerationProviders(): ModerationProvider[] {
+  const providers = [blocklistProvider];
+  if (MODERATION_CLASSIFIER_URL) {
+    providers.push(createClassifierProvider(MODERATION_CLASSIFIER_URL, MODERATION_CLASSIFIER_KEY));
+  }
+  return providers;
+}
+
+// ============================================
+// Moderation stage
+// ============================================
+
+/**
+ * Check text with every provider; the first flag wins
+ * A provider that fails is skipped: the blocklist always runs first
+ */
+export async function moderateText(
+  text: string,
+  providers: ModerationProvider[] = getModerationProviders()
+): Promise<ModerationVerdict | null> {
+  for (const provider of providers) {
+    if (!provider.checkText) continue;
+    try {
+      const verdict = await provider.checkText(text);
+      if (verdict.flagged) return verdict;
+    } catch (error) {
+      console.error(`[moderation] ${provider.name} text check failed:`, error);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a generated image with every provider that supports images
+ * Approved when none flag it; pending when a provider failed or none is
+ * configured, so the image stays private until a moderator reviews it
+ */
+export async function moderateImage(
+  imageUrl: string,
+  providers: ModerationProvider[] = getModerationProviders()
+): Promise<ImageModerationResult> {
+  if (!providers.some((provider) => provider.checkImage)) {
+    if (MODERATION_ALLOW_UNCHECKED_IMAGES) {
+      console.warn("[moderation] No image provider configured, approving unchecked image");
+      return { status: "approved", provider: null, reason: null };
+    }
+    console.error(
+      "[moderation] No image provider configured (set MODERATION_CLASSIFIER_URL); image held for review"
+    );
+    return { status: "pending", provider: null, reason: "no image moderation provider" };
+  }
+
+  let unchecked = false;
+
+  for (const provider of providers) {
+    if (!provider.checkImage) continue;
+    try {
+      const verdict = await provider.checkImage(imageUrl);
+      if (verdict.flagged) {
+        console.warn(`[moderation] Image flagged by ${provider.name}: ${verdict.reason ?? "no reason"}`);
+        return { status: "flagged", provider: provider.name, reason: verdict.reason ?? null };
+      }
+    } catch (error) {
+      console.error(`[moderation] ${provider.name} image check failed:`, error);
+      unchecked = true;
+    }
+  }
+
+  return unchecked
+    ? { status: "pending", provider: null, reason: "moderation unavailable" }
+    : { status: "approved", provider: null, reason: null };
+}
+
+// ============================================
+// Custom prompts
+// ============================================
+
+/**
+ * Normalize custom prompt text: no control characters, single spaces
+ */
+export function normalizeCustomPrompt(text: string): string {
+  return text
+    .replace(/[\u0000-\u001f\u007f]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Validate a custom prompt; returns the normalized text when it can be used
+ */
+export async function checkCustomPrompt(text: unknown): Promise<CustomPromptCheck> {
+  if (typeof text !== "string") {
+    return { ok: false, error: "PROMPT_REQUIRED" };
+  }
+
+  const prompt = normalizeCustomPrompt(text);
+  if (!prompt) {
+    return { ok: false, error: "PROMPT_REQUIRED" };
+  }
+  if (prompt.length > CUSTOM_PROMPT_MAX_LENGTH) {
+    return { ok: false, error: "PROMPT_TOO_LONG" };
+  }
+
+  const verdict = await moderateText(prompt);
+  if (verdict) {
+    console.warn(`[moderation] Custom prompt rejected by ${verdict.provider}: ${verdict.reason ?? "no reason"}`);
+    return { ok: false, error: "PROMPT_REJECTED" };
+  }
+
+  return { ok: true, prompt };
+}
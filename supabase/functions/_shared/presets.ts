@@ -1,43 +1,115 @@
 /**
- * Preset Definitions for Edge Functions
+ * Preset Registry for Edge Functions
  *
- * Contains the full preset definitions with prompts for image generation.
- * These are kept server-side to:
- * 1. Keep prompts secure and not exposed in client code
- * 2. Allow prompt updates without app releases
- * 3. Reduce client bundle size
+ * Presets and photo styles (prompts, order, model routing, locale strings) live
+ * in the presets and styles tables and are edited there without a deploy.
+ * Prompts are kept server-side: list-presets serves only the picker fields.
+ *
+ * The registry is cached per isolate for REGISTRY_TTL_MS, so edits reach
+ * generation within a minute. Presets with a starts_at/ends_at window are only
+ * listed and accepted for generation inside it.
+ *
+ * Each style has an ordered chain of models in style_model_routes (just
+ * styles.model_id when it has none); generation falls back along the chain
+ * when a model fails, and every model gets the prompt in its own terms.
+ *
+ * Presets with requiresRefs put the user in a photo with people from
+ * preset_reference_images; models that can't take every photo are skipped,
+ * and they are unavailable until they have at least one reference image.
+ * Friends' photos added to a generation are routed and prompted the same way.
+ *
+ * Presets with allowsCustomPrompt ("Custom") have no scene prompt of their
+ * own: the user's moderated text is used in its place.
+ *
+ * Each image in a batch adds one variation prompt. Presets can define their
+ * own variation set, overridden per style in preset_style_variations; the set
+ * size is the largest batch users can ask for.
  */
 
-export type PhotoStyleId =
-  | "photorealistic"
-  | "cartoon"
-  | "vintage50s"
-  | "cinematic"
-  | "oilPainting"
-  | "watercolor";
+import { createServiceClient } from "./auth.ts";
+
+// styles.id; the set of styles is data, see the styles table
+export type PhotoStyleId = string;
 
 export type ModelId =
   | "fal-ai/kling-image/v3/image-to-image"
   | "fal-ai/nano-banana-pro/edit";
 
+// Output shapes users can pick: square, Instagram portrait, stories
+export type AspectRatio = "1:1" | "4:5" | "9:16";
+
+export const ASPECT_RATIOS: AspectRatio[] = ["1:1", "4:5", "9:16"];
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = "1:1";
+
+// Face preservation for image-to-image models (Kling) — references "reference image"
+const facePreservationBase = `Preserve the exact face from the reference image — same person, recognizable features. Generate their body, clothing, and pose naturally to fit the scene. Adapt outfit for the environment (warm layers for cold, etc.) and use natural body language. Do not warp or distort the face, but allow natural lighting and angle adjustments.`;
+
+// Face preservation for edit models (Nano Banana) — references "input image"
+const facePreservationEdit = `Preserve the exact face from the input image — same person, recognizable features. Generate their body, clothing, and pose naturally to fit the scene. Adapt outfit for the environment (warm layers for cold, etc.) and use natural body language. Do not warp or distort the face, but allow natural lighting and angle adjustments.`;
+
 export interface ModelConfig {
   modelId: ModelId;
   imageParamFormat: "image_url" | "image_urls";
+  maxInputImages: number; // User photo plus any reference images
+  aspectRatios: Record<AspectRatio, string>; // Closest aspect_ratio the model accepts
+  facePreservation: string; // Single-person face instruction in the model's terms
   defaults: Record<string, unknown>;
 }
 
 export const KLING_MODEL: ModelConfig = {
   modelId: "fal-ai/kling-image/v3/image-to-image",
   imageParamFormat: "image_url",
-  defaults: { num_images: 1, output_format: "jpeg", aspect_ratio: "1:1" },
+  maxInputImages: 1,
+  // Kling has no 4:5; 3:4 is the nearest portrait ratio
+  aspectRatios: { "1:1": "1:1", "4:5": "3:4", "9:16": "9:16" },
+  facePreservation: facePreservationBase,
+  defaults: { num_images: 1, output_format: "jpeg" },
 };
 
 export const NANO_BANANA_MODEL: ModelConfig = {
   modelId: "fal-ai/nano-banana-pro/edit",
   imageParamFormat: "image_urls",
-  defaults: { num_images: 1, output_format: "jpeg", aspect_ratio: "1:1" },
+  maxInputImages: 14,
+  aspectRatios: { "1:1": "1:1", "4:5": "4:5", "9:16": "9:16" },
+  facePreservation: facePreservationEdit,
+  defaults: { num_images: 1, output_format: "jpeg" },
+};
+
+const MODEL_CONFIGS: Record<ModelId, ModelConfig> = {
+  "fal-ai/kling-image/v3/image-to-image": KLING_MODEL,
+  "fal-ai/nano-banana-pro/edit": NANO_BANANA_MODEL,
 };
 
+// Used when no model in a style's chain takes every photo of the generation
+const MULTI_IMAGE_MODEL = NANO_BANANA_MODEL;
+
+const REFERENCE_BUCKET = "preset-references";
+const REFERENCE_URL_TTL_SECONDS = 60 * 60; // Covers queued fal.ai requests
+
+export const DEFAULT_STYLE_ID: PhotoStyleId = "photorealistic";
+
+// Lighting variations for presets without their own set
+export const DEFAULT_VARIATIONS = [
+  "morning light, golden hour warmth",
+  "soft afternoon glow, natural lighting",
+  "sunset glow, warm amber tones",
+  "bright midday, clear crisp light",
+];
+
+// Largest batch a variation set can produce (see migration 024)
+export const MAX_VARIATIONS = 6;
+
+// Translated picker strings keyed by locale, e.g. { fr: { name: "Avec nous" } }
+export type LocaleStrings = Record<string, { name?: string; description?: string }>;
+
+export type PresetBadge = "new" | "ending_soon";
+
+// Badge windows for scheduled presets
+const NEW_BADGE_DAYS = 7;
+const ENDING_SOON_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export interface Preset {
   id: string;
   name: string;
@@ -46,187 +118,423 @@ export interface Preset {
   prompt: string;
   requiresRefs: boolean;
   type: "image" | "video";
+  sortOrder: number;
+  locales: LocaleStrings;
+  startsAt: string | null;
+  endsAt: string | null;
+  createdAt: string;
+  referenceImagePaths: string[]; // In preset-references, in prompt order
+  allowsCustomPrompt: boolean;
+  variations: string[] | null; // null uses DEFAULT_VARIATIONS
+  styleVariations: Record<PhotoStyleId, string[]>; // Per-style overrides
 }
 
-// Face preservation for image-to-image models (Kling) — references "reference image"
-const facePreservationBase = `Preserve the exact face from the reference image — same person, recognizable features. Generate their body, clothing, and pose naturally to fit the scene. Adapt outfit for the environment (warm layers for cold, etc.) and use natural body language. Do not warp or distort the face, but allow natural lighting and angle adjustments.`;
+export interface Style {
+  id: PhotoStyleId;
+  name: string;
+  emoji: string;
+  prompt: string;
+  modelId: ModelId;
+  modelChain: ModelId[]; // Fallback order, first model first
+  sortOrder: number;
+  locales: LocaleStrings;
+}
 
-// Face preservation for edit models (Nano Banana) — references "input image"
-const facePreservationEdit = `Preserve the exact face from the input image — same person, recognizable features. Generate their body, clothing, and pose naturally to fit the scene. Adapt outfit for the environment (warm layers for cold, etc.) and use natural body language. Do not warp or distort the face, but allow natural lighting and angle adjustments.`;
+interface PresetRow {
+  id: string;
+  name: string;
+  emoji: string;
+  description: string | null;
+  prompt: string;
+  requires_refs: boolean;
+  type: "image" | "video";
+  sort_order: number;
+  locales: LocaleStrings | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  created_at: string;
+  allows_custom_prompt: boolean;
+  variations: string[] | null;
+}
+
+interface StyleRow {
+  id: string;
+  name: string;
+  emoji: string;
+  prompt: string;
+  model_id: ModelId;
+  sort_order: number;
+  locales: LocaleStrings | null;
+}
 
-const photoRealisticStyle = `The person is in an iconic Canadian landscape — the turquoise lakes of Banff, Rocky Mountain peaks, Maritime coastlines, Parliament Hill, CN Tower skyline, or maple-lined country roads. Natural composition, make the person look happy and relaxed, friendly atmosphere, realistic photo, high-resolution, cinematic detail, even lighting preserving all facial features, natural confident expression, photorealistic portrait quality, be creative. Do not just place the persons face to the picture. Blend the person into the picture with right proportions.`;
+interface ReferenceImageRow {
+  preset_id: string;
+  storage_path: string;
+}
 
-const cartoonStyle = `The person is in a vibrant Canadian cartoon world — friendly Mounties in the background, cheerful moose and beavers as sidekicks, Tim Hortons-style cafés, totem poles, maple leaf banners, and quirky Canadian landmarks. Vibrant cartoon illustration style, animated character design, make the person look happy and cheerful, friendly atmosphere, colorful and expressive, high-quality digital art, even lighting preserving all facial features, natural confident expression, cartoon portrait quality with clean lines and bold colors, be creative. Do not just place the persons face to the picture. Blend the person into the cartoon scene with right proportions and consistent art style.`;
+interface StyleModelRouteRow {
+  style_id: string;
+  model_id: ModelId;
+}
 
-const vintage50sStyle = `The person is in a 1950s Canadian scene — retro diners with bilingual English-French signs, Canadian Pacific Railway stations, classic ski lodges in the Laurentians, period Montreal or Toronto streetscapes, vintage Hudson's Bay Company storefronts. Authentic 1950s vintage aesthetic, retro color grading with slightly faded warm tones, subtle film grain and vignette, period-appropriate styling, nostalgic atmosphere, vintage photo quality resembling old photographs from the era, natural happy expression, friendly atmosphere, be creative. Do not just place the persons face to the picture. Blend the person into the vintage scene with right proportions and authentic period feel.`;
+interface StyleVariationsRow {
+  preset_id: string;
+  style_id: string;
+  variations: string[];
+}
 
-const cinematicStyle = `The person is in a dramatic Canadian setting — vast Rocky Mountain ranges, misty Pacific Northwest rainforests, frozen Arctic tundra, stormy Atlantic coastlines, or moody urban cityscapes of Vancouver, Montreal, or Toronto at night. Dramatic cinematic look, moody atmospheric lighting, rich color grading with deep shadows and highlights, film-like quality with shallow depth of field, epic composition, movie poster aesthetic, professional color correction, natural confident expression, friendly atmosphere, be creative. Do not just place the persons face to the picture. Blend the person into the cinematic scene with right proportions and dramatic impact.`;
+// Face preservation for several people (edit models) — one person per input image
+function facePreservationGroup(peopleCount: number): string {
+  return `The ${peopleCount} input images show ${peopleCount} different people; the first is the main subject. Include all ${peopleCount} people together in the photo. Preserve every person's exact face — same people, recognizable features, nobody merged or duplicated. Generate their bodies, clothing, and poses naturally to fit the scene. Adapt outfits for the environment (warm layers for cold, etc.) and use natural body language. Do not warp or distort the faces, but allow natural lighting and angle adjustments.`;
+}
 
-const oilPaintingStyle = `The person is in a Canadian wilderness scene inspired by the Group of Seven — bold autumn forests with fiery reds and oranges, northern lakes reflecting dramatic skies, rugged Canadian Shield rock formations, windswept Georgian Bay pines, and vivid prairie sunsets. Rendered as a classical oil painting, visible brush strokes and rich texture, traditional painting techniques, warm color palette with depth, artistic interpretation while maintaining likeness, museum-quality portrait style, natural happy expression, friendly atmosphere, fine art quality, be creative. Do not just place the persons face to the picture. Blend the person into the painted scene with right proportions and artistic style.`;
+// ============================================
+// Registry loading
+// ============================================
 
-const watercolorStyle = `The person is in a dreamy Canadian scene — misty Muskoka lakes at dawn, Vancouver cherry blossoms in spring, Quebec City rooftops during gentle snowfall, Prairie wildflower meadows stretching to the horizon, or Prince Edward Island red shorelines. Painted in soft watercolor technique, delicate color washes and gentle blending, translucent layers with artistic flow, light and airy atmosphere, painterly edges and soft details, natural happy expression, friendly atmosphere, fine watercolor art quality, be creative. Do not just place the persons face to the picture. Blend the person into the watercolor scene with right proportions and artistic style.`;
+const REGISTRY_TTL_MS = 60_000;
 
-const styleMap: Record<PhotoStyleId, string> = {
-  photorealistic: photoRealisticStyle,
-  cartoon: cartoonStyle,
-  vintage50s: vintage50sStyle,
-  cinematic: cinematicStyle,
-  oilPainting: oilPaintingStyle,
-  watercolor: watercolorStyle,
-};
+interface Registry {
+  presets: Preset[];
+  styles: Style[];
+  loadedAt: number;
+}
 
-const styleModelMap: Record<PhotoStyleId, ModelConfig> = {
-  photorealistic: KLING_MODEL,
-  cinematic: KLING_MODEL,
-  vintage50s: KLING_MODEL,
-  cartoon: NANO_BANANA_MODEL,
-  oilPainting: NANO_BANANA_MODEL,
-  watercolor: NANO_BANANA_MODEL,
-};
+let cachedRegistry: Registry | null = null;
 
-export function getModelForStyle(styleId: PhotoStyleId): ModelConfig {
-  return styleModelMap[styleId] || KLING_MODEL;
+/**
+ * Enabled presets and styles in display order, cached per isolate
+ */
+async function loadRegistry(): Promise<Registry> {
+  if (cachedRegistry && Date.now() - cachedRegistry.loadedAt < REGISTRY_TTL_MS) {
+    return cachedRegistry;
+  }
+
+  const supabase = createServiceClient();
+
+  const [presetsResult, stylesResult, referencesResult, variationsResult, routesResult] = await Promise.all([
+    supabase
+      .from("presets")
+      .select("id, name, emoji, description, prompt, requires_refs, type, sort_order, locales, starts_at, ends_at, created_at, allows_custom_prompt, variations")
+      .eq("is_enabled", true)
+      .order("sort_order", { ascending: true })
+      .returns<PresetRow[]>(),
+    supabase
+      .from("styles")
+      .select("id, name, emoji, prompt, model_id, sort_order, locales")
+      .eq("is_enabled", true)
+      .order("sort_order", { ascending: true })
+      .returns<StyleRow[]>(),
+    supabase
+      .from("preset_reference_images")
+      .select("preset_id, storage_path")
+      .eq("is_enabled", true)
+      .order("sort_order", { ascending: true })
+      .returns<ReferenceImageRow[]>(),
+    supabase
+      .from("preset_style_variations")
+      .select("preset_id, style_id, variations")
+      .returns<StyleVariationsRow[]>(),
+    supabase
+      .from("style_model_routes")
+      .select("style_id, model_id")
+      .order("priority", { ascending: true })
+      .returns<StyleModelRouteRow[]>(),
+  ]);
+
+  const loadError =
+    presetsResult.error ||
+    stylesResult.error ||
+    referencesResult.error ||
+    variationsResult.error ||
+    routesResult.error;
+  if (loadError) {
+    console.error("[presets] Failed to load registry:", loadError);
+    // Keep serving the last good copy rather than failing generation
+    if (cachedRegistry) return cachedRegistry;
+    throw loadError;
+  }
+
+  const referencePaths = new Map<string, string[]>();
+  for (const row of referencesResult.data || []) {
+    const paths = referencePaths.get(row.preset_id) || [];
+    paths.push(row.storage_path);
+    referencePaths.set(row.preset_id, paths);
+  }
+
+  const styleVariations = new Map<string, Record<PhotoStyleId, string[]>>();
+  for (const row of variationsResult.data || []) {
+    const byStyle = styleVariations.get(row.preset_id) || {};
+    byStyle[row.style_id] = row.variations;
+    styleVariations.set(row.preset_id, byStyle);
+  }
+
+  const modelChains = new Map<string, ModelId[]>();
+  for (const row of routesResult.data || []) {
+    const chain = modelChains.get(row.style_id) || [];
+    chain.push(row.model_id);
+    modelChains.set(row.style_id, chain);
+  }
+
+  cachedRegistry = {
+    presets: (presetsResult.data || []).map((row: PresetRow) => ({
+      id: row.id,
+      name: row.name,
+      emoji: row.emoji,
+      description: row.description || "",
+      prompt: row.prompt,
+      requiresRefs: row.requires_refs,
+      type: row.type,
+      sortOrder: row.sort_order,
+      locales: row.locales || {},
+      startsAt: row.starts_at,
+      endsAt: row.ends_at,
+      createdAt: row.created_at,
+      referenceImagePaths: referencePaths.get(row.id) || [],
+      allowsCustomPrompt: row.allows_custom_prompt,
+      variations: row.variations,
+      styleVariations: styleVariations.get(row.id) || {},
+    })),
+    styles: (stylesResult.data || []).map((row: StyleRow) => ({
+      id: row.id,
+      name: row.name,
+      emoji: row.emoji,
+      prompt: row.prompt,
+      modelId: row.model_id,
+      modelChain: modelChains.get(row.id) || [row.model_id],
+      sortOrder: row.sort_order,
+      locales: row.locales || {},
+    })),
+    loadedAt: Date.now(),
+  };
+
+  return cachedRegistry;
 }
 
+/**
+ * Whether a preset's schedule window contains now
+ */
+export function isPresetLive(preset: Preset, now: Date = new Date()): boolean {
+  if (preset.startsAt && new Date(preset.startsAt) > now) return false;
+  if (preset.endsAt && new Date(preset.endsAt) <= now) return false;
+  return true;
+}
+
+/**
+ * Whether a preset can be generated right now: inside its window, and with
+ * the reference images it needs
+ */
+export function isPresetAvailable(preset: Preset, now: Date = new Date()): boolean {
+  if (preset.requiresRefs && preset.referenceImagePaths.length === 0) return false;
+  return isPresetLive(preset, now);
+}
+
+/**
+ * "ending_soon" in the last days of a window, "new" in the first days after
+ * a preset starts (or is added), otherwise null
+ */
+export function getPresetBadge(preset: Preset, now: Date = new Date()): PresetBadge | null {
+  if (preset.endsAt && new Date(preset.endsAt).getTime() - now.getTime() <= ENDING_SOON_DAYS * DAY_MS) {
+    return "ending_soon";
+  }
+  const startedAt = new Date(preset.startsAt || preset.createdAt);
+  if (now.getTime() - startedAt.getTime() <= NEW_BADGE_DAYS * DAY_MS) {
+    return "new";
+  }
+  return null;
+}
+
+/**
+ * Presets available right now, in display order
+ */
+export async function listPresets(): Promise<Preset[]> {
+  const now = new Date();
+  return (await loadRegistry()).presets.filter((preset) => isPresetAvailable(preset, now));
+}
+
+export async function listStyles(): Promise<Style[]> {
+  return (await loadRegistry()).styles;
+}
+
+/**
+ * Look up an enabled preset, whether or not it is available right now
+ */
+export async function getPreset(id: string): Promise<Preset | undefined> {
+  return (await loadRegistry()).presets.find((preset) => preset.id === id);
+}
+
+export async function getStyle(id: PhotoStyleId): Promise<Style | undefined> {
+  return (await loadRegistry()).styles.find((style) => style.id === id);
+}
+
+/**
+ * Look up a translated picker string, trying "fr-CA" then "fr"
+ */
+export function getLocalizedString(
+  locales: LocaleStrings,
+  locale: string | undefined,
+  field: "name" | "description"
+): string | undefined {
+  if (!locale) return undefined;
+  const language = locale.split("-")[0];
+  return locales[locale]?.[field] || locales[language]?.[field];
+}
+
+// ============================================
+// Prompt and model routing
+// ============================================
+
+/**
+ * People in the photo: the user, their friends and the preset's references
+ */
+function countPeople(preset: Preset | undefined, friendCount: number): number {
+  return 1 + friendCount + (preset?.referenceImagePaths.length ?? 0);
+}
+
+/**
+ * The style's model chain, without models that can't take every photo
+ * Falls back to the multi-image model when none of them can
+ */
+function resolveModelChain(
+  preset: Preset | undefined,
+  style: Style | undefined,
+  friendCount: number
+): ModelConfig[] {
+  const inputImages = countPeople(preset, friendCount);
+  const chain = (style?.modelChain ?? [KLING_MODEL.modelId])
+    .map((modelId) => MODEL_CONFIGS[modelId])
+    .filter((config, index, configs) => !!config && configs.indexOf(config) === index)
+    .filter((config) => inputImages <= config.maxInputImages);
+  return chain.length > 0 ? chain : [MULTI_IMAGE_MODEL];
+}
+
+/**
+ * Prompt adapted to a model: group wording when several people are sent,
+ * otherwise the model's own face preservation instruction
+ */
+function adaptPrompt(
+  modelConfig: ModelConfig,
+  peopleCount: number,
+  stylePrompt: string,
+  scenePrompt: string
+): string {
+  const faceInstruction = peopleCount > 1
+    ? facePreservationGroup(peopleCount)
+    : modelConfig.facePreservation;
+  return `${faceInstruction} ${stylePrompt}. ${scenePrompt}`;
+}
+
+/**
+ * Variation prompts for a preset in a style, one per image in the batch
+ * The preset+style override wins, then the preset's set, then the defaults.
+ * imageCount keeps only the first prompts of the set.
+ */
+export async function getVariationPrompts(
+  presetId: string,
+  styleId: PhotoStyleId,
+  imageCount: number = MAX_VARIATIONS
+): Promise<string[]> {
+  const preset = await getPreset(presetId);
+  const variations =
+    preset?.styleVariations[styleId] || preset?.variations || DEFAULT_VARIATIONS;
+  const count = Number.isInteger(imageCount) ? Math.max(1, imageCount) : MAX_VARIATIONS;
+  return variations.slice(0, Math.min(count, MAX_VARIATIONS));
+}
+
+/**
+ * Whether a request value is one of the supported aspect ratios
+ */
+export function isAspectRatio(value: unknown): value is AspectRatio {
+  return ASPECT_RATIOS.includes(value as AspectRatio);
+}
+
+/**
+ * Signed URLs for a preset's reference images, in prompt order
+ * Empty for presets without reference images
+ */
+export async function getPresetReferenceUrls(presetId: string): Promise<string[]> {
+  const preset = await getPreset(presetId);
+  if (!preset || preset.referenceImagePaths.length === 0) {
+    return [];
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase.storage
+    .from(REFERENCE_BUCKET)
+    .createSignedUrls(preset.referenceImagePaths, REFERENCE_URL_TTL_SECONDS);
+
+  if (error || !data) {
+    console.error("[presets] Failed to sign reference images:", error);
+    throw new Error("Failed to load reference images");
+  }
+
+  return data
+    .map((item: { signedUrl: string | null }) => item.signedUrl)
+    .filter((url: string | null): url is string => !!url);
+}
+
+/**
+ * Model input for one image: friends' and reference images go after the
+ * user's photo and are only sent to models that take a list of images
+ */
 export function buildModelParams(
   modelConfig: ModelConfig,
   imageUrl: string,
-  prompt: string
+  prompt: string,
+  referenceUrls: string[] = [],
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
 ): Record<string, unknown> {
-  const params: Record<string, unknown> = { ...modelConfig.defaults, prompt };
+  const params: Record<string, unknown> = {
+    ...modelConfig.defaults,
+    aspect_ratio: modelConfig.aspectRatios[aspectRatio],
+    prompt,
+  };
   if (modelConfig.imageParamFormat === "image_urls") {
-    params.image_urls = [imageUrl];
+    params.image_urls = [imageUrl, ...referenceUrls];
   } else {
     params.image_url = imageUrl;
   }
   return params;
 }
 
-export const PRESETS: Record<string, Preset> = {
-  mapleAutumn: {
-    id: "mapleAutumn",
-    name: "Maple Autumn",
-    emoji: "🍁",
-    description: "Golden fall leaves and cozy Canadian atmosphere",
-    requiresRefs: false,
-    type: "image",
-    prompt: `Immerse the person in a stunning Canadian autumn scene with vibrant fall colors - warm oranges, deep reds, and golden yellows. Create diverse and creative compositions featuring maple leaves, cozy seasonal clothing, and beautiful fall lighting. Vary the settings between forests, lakesides, parks, and charming towns. Experiment with different times of day, weather conditions, and activities. Make each generation unique - from cozy and intimate to grand and cinematic. Capture the magical essence of Canadian fall with creativity and variety.`,
-  },
-  winterWonderland: {
-    id: "winterWonderland",
-    name: "Winter Wonderland",
-    emoji: "❄️",
-    description: "Snowy Canadian winter moments",
-    requiresRefs: false,
-    type: "image",
-    prompt: `Place the person in a magical Canadian winter wonderland with pristine snow, frosted trees, and beautiful winter light. Use soft whites, cool blues, and warm accent colors. Be creative with winter elements - snowfall, ice, evergreens, cozy cabins, winter sports. Vary the locations between wilderness, mountains, lakesides, and charming snowy towns. Experiment with different lighting conditions, weather, and activities. Create diverse moods from adventurous and dynamic to cozy and serene. Each generation should feel unique and capture the breathtaking beauty of Canadian winter.`,
-  },
-  northernLights: {
-    id: "northernLights",
-    name: "Northern Lights",
-    emoji: "🌌",
-    description: "Magical aurora and night sky filters",
-    requiresRefs: false,
-    type: "image",
-    prompt: `Create breathtaking scenes with the person under the Northern Lights in the Canadian wilderness. Use vibrant aurora colors - greens, purples, blues, and pinks dancing across the night sky. Include stunning night elements like stars, snow, wilderness, water reflections. Be creative with compositions - from dramatic silhouettes to illuminated portraits. Vary the settings between arctic landscapes, frozen lakes, snowy forests, and remote wilderness. Experiment with different aurora patterns, lighting contrasts, and perspectives. Make each generation unique and magical, capturing the awe-inspiring wonder of the aurora borealis in diverse and creative ways.`,
-  },
-  cottageLife: {
-    id: "cottageLife",
-    name: "Cottage Life",
-    emoji: "🏕️",
-    description: "Peaceful lakefront and cozy cabin filters",
-    requiresRefs: false,
-    type: "image",
-    prompt: `Immerse the person in serene Canadian cottage country with beautiful lakefront settings. Use natural colors - greens, blues, warm wood tones. Create diverse scenes with cottage elements like docks, canoes, Muskoka chairs, cabins, fire pits. Vary the locations between lakesides, forests, and waterfront properties. Experiment with different times of day - sunrise, golden hour, misty mornings, sunset. Include various activities like paddling, relaxing, enjoying nature, or peaceful moments. Make each generation unique with different moods from tranquil and peaceful to adventurous and lively. Capture the essence of Canadian cottage living with creativity and variety.`,
-  },
-  urbanCanada: {
-    id: "urbanCanada",
-    name: "Urban Canada",
-    emoji: "🏙️",
-    description: "Modern Canadian city life filter",
-    requiresRefs: false,
-    type: "image",
-    prompt: `Place the person in vibrant Canadian city environments showcasing modern urban life. Feature contemporary architecture, city lights, street art, trendy cafés, bustling markets, iconic buildings, and multicultural neighborhoods. Vary the settings between downtown cores, waterfronts, rooftops, markets, and historic districts. Experiment with different times - daytime energy, blue hour, golden hour, night lights. Include diverse activities like exploring, dining, walking, or enjoying city views. Create unique compositions with varied moods from energetic and dynamic to sophisticated and casual. Capture the cosmopolitan essence of Canadian cities with creativity and diversity.`,
-  },
-  wildernessExplorer: {
-    id: "wildernessExplorer",
-    name: "Wilderness Explorer",
-    emoji: "🏔️",
-    description: "Wild landscapes and adventure scenes",
-    requiresRefs: false,
-    type: "image",
-    prompt: `Place the person in epic Canadian wilderness settings full of adventure and natural beauty. Feature dramatic landscapes - towering mountains, ancient forests, rushing waterfalls, pristine lakes, rugged trails, and vast national parks. Use stunning natural lighting and powerful compositions. Vary the locations and scale - from intimate forest scenes to grand mountain vistas. Experiment with different weather conditions, times of day, and activities like hiking, exploring, camping, or contemplating nature. Make each generation unique with diverse moods from peaceful and contemplative to dramatic and adventurous. Capture the raw, majestic beauty of Canada's wild spaces creatively.`,
-  },
-  editorialCanada: {
-    id: "editorialCanada",
-    name: "Editorial Canada",
-    emoji: "📸",
-    description: "Stylish portrait filters inspired by Canadian fashion & culture",
-    requiresRefs: false,
-    type: "image",
-    prompt: `Create magazine-worthy editorial portraits with the person in stylish Canadian settings. Use sophisticated lighting, elegant compositions, and fashion-forward aesthetics. Feature diverse backdrops - modern urban architecture, minimalist nature, cultural landmarks, or unique Canadian locations. Experiment with different styling approaches - contemporary, rustic-elegant, bold, or classic. Vary the lighting from dramatic and moody to soft and refined. Include creative depth of field, interesting angles, and professional techniques. Make each generation unique with varied moods from confident and powerful to sophisticated and casual-chic. Capture the intersection of Canadian culture and contemporary fashion with artistic creativity.`,
-  },
-  canadianWildlifeParty: {
-    id: "canadianWildlifeParty",
-    name: "Canadian Wildlife Party",
-    emoji: "🦫",
-    description: "Funny and surreal wildlife interactions in Canadian settings",
-    requiresRefs: false,
-    type: "image",
-    prompt: `Create hilarious and surreal scenes with the person surrounded by a GROUP of 3 to 5 DIFFERENT Canadian animals together in one image — MULTIPLE animals are REQUIRED. Include a mix from: a towering moose (much taller than the person), a knee-height beaver, a person-sized black bear, a cat-sized raccoon, and waist-height Canada geese. All animals must be anatomically correct with realistic proportions relative to each other and the person. Show them in fun group activities — playing hockey together on a frozen pond, gathered around a campfire roasting marshmallows, paddling canoes in a line, having a picnic with poutine, or doing a group photo at a National Park sign. Vary the settings from wilderness to urban to recreational areas. Use good lighting and realistic rendering while embracing the humor and whimsy. Make each generation uniquely funny with different animal combinations, group activities, and comedic situations. Keep it charming and heartwarming while capturing the playful side of Canadian wildlife encounters. IMPORTANT: Always show MULTIPLE different animals together, never just one animal.`,
-  },
-  ehEdition: {
-    id: "ehEdition",
-    name: "Eh Edition",
-    emoji: "🍁",
-    description: "Lighthearted and comedic takes on Canadian stereotypes",
-    requiresRefs: false,
-    type: "image",
-    prompt: `Create fun and comedic scenes celebrating Canadian stereotypes with the person in hilarious situations. Feature iconic Canadiana - maple syrup, hockey, Tim Hortons, Mounties, extreme politeness, winter obsessions, apologizing excessively, poutine. Imagine creative scenarios that playfully exaggerate national pride and cultural quirks. Vary the settings and situations - everyday life with excessive Canadian elements, over-the-top polite encounters, winter worship, or hockey fanaticism. Use photorealistic quality while embracing good-natured humor. Make each generation uniquely funny with different stereotypes and comedic situations. Keep it affectionate and lighthearted, capturing Canadian humor with pride and charm.`,
-  },
-  withus: {
-    id: "withus",
-    name: "With Us",
-    emoji: "👥",
-    description: "User appears with two reference hosts in Canadian settings",
-    requiresRefs: true,
-    type: "image",
-    prompt: `Create natural and authentic group photos with three people together exploring beautiful Canadian settings. Use balanced compositions with all three faces clearly visible and naturally integrated. Feature diverse Canadian backdrops - stunning nature, vibrant cities, cultural landmarks, or unique locations. Vary the group activities and interactions - outdoor adventures, city exploration, relaxed moments, shared experiences, laughing together. Experiment with different lighting, times of day, and perspectives. Make each generation unique with varied settings, poses, and moods from adventurous and dynamic to relaxed and joyful. Capture the genuine atmosphere of friends experiencing Canada together with creativity and authenticity. Maintain realistic proportions and natural group dynamics.`,
-  },
-};
-
-export const PRESET_ORDER = [
-  "mapleAutumn",
-  "winterWonderland",
-  "northernLights",
-  "cottageLife",
-  "urbanCanada",
-  "wildernessExplorer",
-  "editorialCanada",
-  "canadianWildlifeParty",
-  "ehEdition",
-  "withus",
-];
+export interface PromptOptions {
+  friendCount?: number; // Extra people from friends' photos
+  customPrompt?: string | null; // Moderated text for custom presets
+}
 
-export function getPreset(id: string): Preset | undefined {
-  return PRESETS[id];
+// A model to try and the full prompt adapted to it
+export interface ModelRoute {
+  modelConfig: ModelConfig;
+  prompt: string;
 }
 
-export function getPresetPromptWithStyle(
+/**
+ * Models to try for a preset in a style, in fallback order, each with its
+ * own prompt
+ * Returns null for unknown, disabled or unavailable presets, and for custom
+ * presets without text; unknown styles use the default. Availability is
+ * checked as of `now`, so a reserved session can pass its reservation time.
+ */
+export async function getModelRoutes(
   presetId: string,
-  styleId: PhotoStyleId = "photorealistic"
-): string | null {
-  const preset = PRESETS[presetId];
-  if (!preset) {
+  styleId: PhotoStyleId = DEFAULT_STYLE_ID,
+  { friendCount = 0, customPrompt = null }: PromptOptions = {},
+  now: Date = new Date()
+): Promise<ModelRoute[] | null> {
+  const preset = await getPreset(presetId);
+  if (!preset || !isPresetAvailable(preset, now)) {
+    return null;
+  }
+
+  const scenePrompt = preset.allowsCustomPrompt ? customPrompt : preset.prompt;
+  if (!scenePrompt) {
     return null;
   }
 
-  const selectedStyle = styleMap[styleId] || photoRealisticStyle;
-  const modelConfig = getModelForStyle(styleId);
-  // Use edit-model face preservation for Nano Banana, reference-model for Kling
-  const faceInstruction =
-    modelConfig.imageParamFormat === "image_urls"
-      ? facePreservationEdit
-      : facePreservationBase;
-  return `${faceInstruction} ${selectedStyle}. ${preset.prompt}`;
+  const style = (await getStyle(styleId)) || (await getStyle(DEFAULT_STYLE_ID));
+  const peopleCount = countPeople(preset, friendCount);
+  return resolveModelChain(preset, style, friendCount).map((modelConfig) => ({
+    modelConfig,
+    prompt: adaptPrompt(modelConfig, peopleCount, style?.prompt ?? "", scenePrompt),
+  }));
 }
@@ -0,0 +1,422 @@
+/**
+ * RevenueCat utilities for Supabase Edge Functions
+ *
+ * Credits are only ever granted server-side, in the amounts set by the
+ * products table (see catalog.ts), from either the RevenueCat webhook
+ * or a client-reported transaction verified against RevenueCat's REST API.
+ * Both paths grant through grantPurchase(), which is idempotent on
+ * purchases.rc_transaction_id. Sandbox purchases only grant credits when
+ * REVENUECAT_ALLOW_SANDBOX is "true" (development and TestFlight builds). Subscription renewals grant the plan's monthly
+ * allowance the same way, one purchases row per billing period, and plan
+ * status is kept in subscriptions. Store refunds and TRANSFER events adjust
+ * balances through the credit ledger, and every webhook event is stored raw
+ * in revenuecat_events.
+ *
+ * REVENUECAT_API_URL can point at a local stand-in for the REST API during
+ * development; it defaults to RevenueCat's v1 API.
+ */
+
+import { createServiceClient } from "./auth.ts";
+import { getProduct } from "./catalog.ts";
+
+const REVENUECAT_SECRET_API_KEY = Deno.env.get("REVENUECAT_SECRET_API_KEY");
+const REVENUECAT_API_URL =
+  Deno.env.get("REVENUECAT_API_URL") || "https://api.revenuecat.com/v1";
+const REVENUECAT_ALLOW_SANDBOX = Deno.env.get("REVENUECAT_ALLOW_SANDBOX") === "true";
+
+/**
+ * Whether sandbox (test store) purchases may grant credits in this environment
+ */
+export function isSandboxAllowed(): boolean {
+  return REVENUECAT_ALLOW_SANDBOX;
+}
+
+export type PurchasePlatform = "ios" | "android" | "web";
+
+export function getPlatformForStore(store: string): PurchasePlatform {
+  if (store === "APP_STORE" || store === "MAC_APP_STORE") return "ios";
+  if (store === "STRIPE" || store === "RC_BILLING") return "web";
+  return "android";
+}
+
+// ============================================
+// Transaction verification
+// ============================================
+
+export interface VerifiedTransaction {
+  productId: string;
+  transactionId: string;
+  store: string;
+  purchasedAt: string;
+  isSandbox: boolean;
+}
+
+export type VerifyTransactionError =
+  | "NOT_CONFIGURED"
+  | "NOT_FOUND"
+  | "SANDBOX_NOT_ALLOWED"
+  | "REQUEST_FAILED";
+
+export interface VerifyTransactionResult {
+  success: boolean;
+  transaction?: VerifiedTransaction;
+  error?: VerifyTransactionError;
+}
+
+interface RevenueCatNonSubscription {
+  id: string;
+  store_transaction_id: string;
+  purchase_date: string;
+  store: string;
+  is_sandbox: boolean;
+}
+
+interface RevenueCatSubscriberResponse {
+  subscriber: {
+    non_subscriptions: Record<string, RevenueCatNonSubscription[]>;
+  };
+}
+
+/**
+ * Look up a store transaction on the RevenueCat customer it belongs to
+ * A transaction reported by another customer is treated as not found, and
+ * sandbox transactions are rejected unless isSandboxAllowed()
+ */
+export async function verifyTransaction(
+  appUserId: string,
+  transactionId: string
+): Promise<VerifyTransactionResult> {
+  if (!REVENUECAT_SECRET_API_KEY) {
+    console.error("[RevenueCat] REVENUECAT_SECRET_API_KEY not configured");
+    return { success: false, error: "NOT_CONFIGURED" };
+  }
+
+  const response = await fetch(
+    `${REVENUECAT_API_URL}/subscribers/${encodeURIComponent(appUserId)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${REVENUECAT_SECRET_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    console.error("[RevenueCat] Subscriber lookup failed:", response.status, await response.text());
+    return { success: false, error: "REQUEST_FAILED" };
+  }
+
+  const data: RevenueCatSubscriberResponse = await response.json();
+  const nonSubscriptions = data.subscriber?.non_subscriptions || {};
+
+  for (const [productId, purchases] of Object.entries(nonSubscriptions)) {
+    const match = purchases.find(
+      (purchase) => purchase.store_transaction_id === transactionId
+    );
+
+    if (match) {
+      if (match.is_sandbox && !REVENUECAT_ALLOW_SANDBOX) {
+        console.warn("[RevenueCat] Rejected sandbox transaction:", transactionId);
+        return { success: false, error: "SANDBOX_NOT_ALLOWED" };
+      }
+
+      return {
+        success: true,
+        transaction: {
+          productId,
+          transactionId,
+          store: match.store,
+          purchasedAt: match.purchase_date,
+          isSandbox: match.is_sandbox,
+        },
+      };
+    }
+  }
+
+  return { success: false, error: "NOT_FOUND" };
+}
+
+// ============================================
+// Granting purchased credits
+// ============================================
+
+export interface GrantPurchaseInput {
+  userId: string;
+  productId: string;
+  transactionId: string;
+  originalTransactionId?: string | null;
+  price?: number | null;
+  currency?: string | null;
+  platform: PurchasePlatform;
+  purchasedAt?: string | null;
+  expiresAt?: string | null; // End of the billing period, for subscriptions
+}
+
+export interface GrantPurchaseResult {
+  success: boolean;
+  creditsAdded?: number;
+  alreadyProcessed?: boolean;
+  error?: "UNKNOWN_PRODUCT" | "GRANT_FAILED";
+}
+
+/**
+ * Record a purchase and add its credits exactly once per store transaction
+ * Subscription products grant their allowance for the period ending at expiresAt
+ */
+export async function grantPurchase(
+  input: GrantPurchaseInput
+): Promise<GrantPurchaseResult> {
+  const product = await getProduct(input.productId);
+
+  // Only image credits are backed by the credit ledger
+  if (!product || product.creditType !== "image") {
+    console.warn("[RevenueCat] Unknown product ID:", input.productId);
+    return { success: false, error: "UNKNOWN_PRODUCT" };
+  }
+
+  const isSubscription = product.productType === "subscription";
+  if (isSubscription && !input.expiresAt) {
+    console.error("[RevenueCat] Subscription grant without period end:", input.transactionId);
+    return { success: false, error: "GRANT_FAILED" };
+  }
+
+  const credits = product.credits;
+  const supabase = createServiceClient();
+
+  // Records the purchase and adds its credits in one transaction, so a failed
+  // grant leaves nothing behind and a retry grants again. A plan period
+  // replaces the previous allowance.
+  const { data: granted, error } = await supabase.rpc("grant_purchase", {
+    p_user_id: input.userId,
+    p_rc_product_id: input.productId,
+    p_rc_transaction_id: input.transactionId,
+    p_rc_original_transaction_id: input.originalTransactionId ?? null,
+    p_credits: credits,
+    p_amount_paid: input.price ?? null,
+    p_currency: input.currency ?? null,
+    p_platform: input.platform,
+    p_purchased_at: input.purchasedAt ?? null,
+    p_allowance_expires_at: isSubscription ? input.expiresAt : null,
+  });
+
+  if (error) {
+    console.error("[RevenueCat] Failed to grant purchase:", error);
+    return { success: false, error: "GRANT_FAILED" };
+  }
+
+  if (!granted) {
+    console.log("[RevenueCat] Transaction already processed:", input.transactionId);
+    return { success: true, alreadyProcessed: true };
+  }
+
+  return { success: true, creditsAdded: credits };
+}
+
+// ============================================
+// Refunds and transfers
+// ============================================
+
+/**
+ * Claw back a refunded purchase's unused credits and flag it refunded
+ * Returns the credits removed, or null if the transaction is unknown
+ */
+export async function refundPurchase(
+  transactionId: string,
+  eventId: string
+): Promise<number | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc("refund_purchase", {
+    p_rc_transaction_id: transactionId,
+    p_event_id: eventId,
+  });
+
+  if (error) {
+    console.error("[RevenueCat] Failed to refund purchase:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Move the paid balance and purchases of one app user to another
+ * Returns the credits moved
+ */
+export async function transferCredits(
+  fromUserId: string,
+  toUserId: string,
+  eventId: string
+): Promise<number> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc("transfer_credits", {
+    p_from_user_id: fromUserId,
+    p_to_user_id: toUserId,
+    p_event_id: eventId,
+  });
+
+  if (error) {
+    console.error("[RevenueCat] Failed to transfer credits:", error);
+    throw error;
+  }
+
+  return data ?? 0;
+}
+
+// ============================================
+// Subscription state
+// ============================================
+
+export type SubscriptionStatus = "active" | "billing_issue" | "expired";
+
+export interface SubscriptionUpdate {
+  userId: string;
+  productId: string;
+  status?: SubscriptionStatus;
+  willRenew?: boolean;
+  periodStart?: string | null;
+  periodEnd?: string | null;
+  originalTransactionId?: string | null;
+  platform?: PurchasePlatform;
+}
+
+export interface StoredSubscription {
+  product_id: string;
+  status: SubscriptionStatus;
+  will_renew: boolean;
+  current_period_end: string | null;
+}
+
+export async function getSubscription(userId: string): Promise<StoredSubscription | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("product_id, status, will_renew, current_period_end")
+    .eq("user_id", userId)
+    .maybeSingle<StoredSubscription>();
+
+  if (error) {
+    console.error("[RevenueCat] Failed to load subscription:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Create or update the user's plan; only the fields given are changed
+ */
+export async function upsertSubscription(update: SubscriptionUpdate): Promise<void> {
+  const supabase = createServiceClient();
+
+  const row: Record<string, unknown> = {
+    user_id: update.userId,
+    product_id: update.productId,
+  };
+  if (update.status !== undefined) row.status = update.status;
+  if (update.willRenew !== undefined) row.will_renew = update.willRenew;
+  if (update.periodStart !== undefined) row.current_period_start = update.periodStart;
+  if (update.periodEnd !== undefined) row.current_period_end = update.periodEnd;
+  if (update.originalTransactionId !== undefined) {
+    row.rc_original_transaction_id = update.originalTransactionId;
+  }
+  if (update.platform !== undefined) row.platform = update.platform;
+
+  const { error } = await supabase
+    .from("subscriptions")
+    .upsert(row, { onConflict: "user_id" });
+
+  if (error) {
+    console.error("[RevenueCat] Failed to update subscription:", error);
+    throw error;
+  }
+}
+
+/**
+ * Expire the rest of the user's monthly allowance
+ * Returns the credits removed
+ */
+export async function expireAllowance(userId: string, reason: string): Promise<number> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc("expire_allowance", {
+    p_user_id: userId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    console.error("[RevenueCat] Failed to expire allowance:", error);
+    throw error;
+  }
+
+  return data ?? 0;
+}
+
+// ============================================
+// Raw event storage
+// ============================================
+
+export type StoredEventStatus = "received" | "processed" | "ignored" | "failed";
+
+/**
+ * Store a webhook event before acting on it
+ * Returns the status of an earlier delivery of the same event, if any
+ */
+export async function storeEvent(
+  eventId: string,
+  type: string,
+  appUserId: string | null,
+  environment: string | null,
+  payload: unknown
+): Promise<{ previousStatus: StoredEventStatus | null }> {
+  const supabase = createServiceClient();
+
+  const { data: existing } = await supabase
+    .from("revenuecat_events")
+    .select("status")
+    .eq("event_id", eventId)
+    .maybeSingle();
+
+  if (existing) {
+    return { previousStatus: existing.status };
+  }
+
+  const { error } = await supabase.from("revenuecat_events").insert({
+    event_id: eventId,
+    type,
+    app_user_id: appUserId,
+    environment,
+    payload,
+  });
+
+  // 23505: a concurrent delivery stored it first
+  if (error && error.code !== "23505") {
+    console.error("[RevenueCat] Failed to store event:", error);
+    throw error;
+  }
+
+  return { previousStatus: error ? "received" : null };
+}
+
+export async function markEventStatus(
+  eventId: string,
+  status: StoredEventStatus,
+  errorMessage?: string
+): Promise<void> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from("revenuecat_events")
+    .update({
+      status,
+      error: errorMessage ?? null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq("event_id", eventId);
+
+  if (error) {
+    console.error("[RevenueCat] Failed to update event status:", error);
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * fal.ai Webhook Edge Function
+ *
+ * Receives completion callbacks for requests generate-single submitted to the
+ * fal.ai queue in async mode, so no edge function has to stay alive polling.
+ * This function:
+ * 1. Verifies fal.ai's ED25519 signature on the callback
+ * 2. Claims the queued request in fal_requests by request_id
+ * 3. Persists the image to storage and the images table (same as generate-single)
+ * 4. Appends the image to generations via append_generation_image
+ * 5. Marks the request completed or failed; a failed request is first
+ *    resubmitted to the next model in the style's chain, if there is one
+ *
+ * Security:
+ * - Callbacks must carry valid X-Fal-Webhook-* signature headers, checked
+ *   against fal.ai's published JWKS (see verifyWebhookSignature)
+ * - Deploy with --no-verify-jwt since fal.ai has no Supabase JWT
+ *
+ * Idempotency:
+ * - A request is claimed (claimed_at) before it's processed; callbacks for
+ *   requests that are already claimed or no longer queued are acknowledged
+ *   and ignored
+ * - Claims are released when persisting fails, and expire after
+ *   CLAIM_TIMEOUT_MS in case the function dies mid-delivery
+ * - Any non-2xx response makes fal.ai retry the callback
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createServiceClient } from "../_shared/auth.ts";
+import { updateGenerationImages, refundFailedGeneration } from "../_shared/credits.ts";
+import {
+  extractImageUrls,
+  verifyWebhookSignature,
+  type FalModelResults,
+  type FalWebhookPayload,
+} from "../_shared/fal.ts";
+import { persistImage } from "../_shared/images.ts";
+import { queueFallbackVariation } from "../_shared/generation.ts";
+import type { ModelId } from "../_shared/presets.ts";
+
+interface FalRequestRecord {
+  request_id: string;
+  user_id: string;
+  generation_id: string;
+  variation_index: number;
+  image_count: number;
+  model_id: ModelId;
+  preset_id: string;
+  style_id: string;
+  is_free: boolean;
+  status: "queued" | "completed" | "failed";
+}
+
+// Longer than the edge function wall-clock limit, so a live claim never expires
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req: Request) => {
+  // Only allow POST requests
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    // The signature covers the raw body, so read it before parsing
+    const rawBody = await req.arrayBuffer();
+
+    if (!(await verifyWebhookSignature(req.headers, rawBody))) {
+      console.warn("[fal-webhook] Invalid or missing signature");
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const payload: FalWebhookPayload = JSON.parse(new TextDecoder().decode(rawBody));
+    const requestId = payload.request_id;
+
+    if (!requestId) {
+      return jsonResponse({ error: "Missing request_id" }, 400);
+    }
+
+    console.log(`[fal-webhook] Received ${payload.status} for request ${requestId}`);
+
+    const supabase = createServiceClient();
+
+    // Claim the request so repeated or concurrent deliveries don't process it twice
+    const claimCutoff = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+    const { data: request, error: claimError } = await supabase
+      .from("fal_requests")
+      .update({ claimed_at: new Date().toISOString() })
+      .eq("request_id", requestId)
+      .eq("status", "queued")
+      .or(`claimed_at.is.null,claimed_at.lt.${claimCutoff}`)
+      .select("*")
+      .maybeSingle<FalRequestRecord>();
+
+    if (claimError) {
+      throw new Error(`Failed to claim request: ${claimError.message}`);
+    }
+
+    if (!request) {
+      const { data: existing } = await supabase
+        .from("fal_requests")
+        .select("status")
+        .eq("request_id", requestId)
+        .maybeSingle();
+
+      if (!existing) {
+        // generate-single records the request right after submission; a fast
+        // callback can beat that insert, so ask fal.ai to retry
+        console.error(`[fal-webhook] Unknown request ${requestId}`);
+        return jsonResponse({ error: "Unknown request" }, 404);
+      }
+
+      console.log(`[fal-webhook] Request ${requestId} already ${existing.status} or claimed, skipping`);
+      return jsonResponse({ received: true, duplicate: true });
+    }
+
+    const [falImageUrl] = payload.status === "OK"
+      ? extractImageUrls(request.model_id, payload.payload as FalModelResults[ModelId])
+      : [];
+
+    if (!falImageUrl) {
+      const reason = payload.error || payload.payload_error || "No image generated";
+      console.error(`[fal-webhook] Request ${requestId} failed: ${reason}`);
+      await markRequestFailed(request, reason);
+      return jsonResponse({ received: true, status: "failed" });
+    }
+
+    const persistResult = await persistImage(
+      falImageUrl,
+      request.user_id,
+      request.generation_id,
+      request.variation_index,
+      request.preset_id,
+      request.style_id,
+      request.is_free,
+      request.model_id
+    );
+
+    if (!persistResult) {
+      // Storage or DB hiccup - release the claim and let fal.ai retry while
+      // its result URL is still valid
+      await supabase
+        .from("fal_requests")
+        .update({ claimed_at: null })
+        .eq("request_id", requestId);
+      return jsonResponse({ error: "Failed to persist image" }, 500);
+    }
+
+    // Count persisted images to know whether this completes the batch
+    const { count } = await supabase
+      .from("images")
+      .select("id", { count: "exact", head: true })
+      .eq("generation_batch_id", request.generation_id);
+
+    await updateGenerationImages(
+      request.generation_id,
+      persistResult.storageUrl,
+      (count ?? 0) >= request.image_count
+    );
+
+    await supabase
+      .from("fal_requests")
+      .update({ status: "completed", completed_at: new Date().toISOString() })
+      .eq("request_id", requestId);
+
+    console.log(`[fal-webhook] Image ${request.variation_index} completed for generation ${request.generation_id}`);
+
+    return jsonResponse({
+      received: true,
+      status: "completed",
+      imageId: persistResult.imageId,
+    });
+  } catch (error) {
+    console.error("[fal-webhook] Error processing webhook:", error);
+    return jsonResponse(
+      {
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Mark a queued request as failed. The slot falls back to the next model in
+ * its chain when there is one; otherwise, if this was the last variation of
+ * the batch and nothing was produced, fail the generation and refund its credit.
+ * Batches with variations not yet requested are left to cleanup_expired_sessions.
+ */
+async function markRequestFailed(request: FalRequestRecord, reason: string): Promise<void> {
+  const supabase = createServiceClient();
+
+  // Queued before this request is marked failed, so the batch is never seen
+  // with nothing in flight and refunded in between
+  const fellBack = await queueFallbackVariation(
+    request.user_id,
+    request.generation_id,
+    request.variation_index,
+    request.model_id
+  );
+
+  await supabase
+    .from("fal_requests")
+    .update({
+      status: "failed",
+      error: reason,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("request_id", request.request_id);
+
+  if (fellBack) return;
+
+  const { data: session } = await supabase
+    .from("generation_sessions")
+    .select("image_count, requested_indexes")
+    .eq("generation_id", request.generation_id)
+    .maybeSingle();
+
+  const allRequested = !session ||
+    (session.requested_indexes || []).length >= session.image_count;
+
+  if (allRequested) {
+    // Refunds missing images once nothing is queued; a batch with images
+    // waits for its session to expire, since its failed slots can be retried
+    await refundFailedGeneration(request.generation_id, "all_variations_failed");
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Get Catalog Edge Function
+ *
+ * Returns the active credit packs and subscription plans from the products
+ * table, mapping store product IDs to credit type and amount. Used by the app's purchase screen
+ * and the web pricing block; no auth required.
+ *
+ * Request body (optional): { store: "app_store" | "play_store" | "stripe" }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, handleCors } from "../_shared/cors.ts";
+import { listProducts, type ProductStore } from "../_shared/catalog.ts";
+
+interface GetCatalogRequest {
+  store?: ProductStore;
+}
+
+const STORES: ProductStore[] = ["app_store", "play_store", "stripe"];
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    if (req.method !== "POST") {
+      return new Response(JSON.stringify({ error: "Method not allowed" }), {
+        status: 405,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Body is optional
+    const body: GetCatalogRequest = await req.json().catch(() => ({}));
+    const { store } = body;
+
+    if (store && !STORES.includes(store)) {
+      return new Response(
+        JSON.stringify({ error: "Invalid store", code: "INVALID_STORE" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const products = await listProducts(store);
+
+    return new Response(
+      JSON.stringify({
+        products: products.map((product) => ({
+          id: product.id,
+          store: product.store,
+          productType: product.productType,
+          creditType: product.creditType,
+          credits: product.credits,
+          label: product.label,
+          displayPrice: product.displayPrice,
+          tier: product.tier,
+        })),
+      }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+          "Cache-Control": "public, max-age=300",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Get catalog error:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Failed to load catalog",
+        details: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,87 @@
+/**
+ * List Presets Edge Function
+ *
+ * Returns the enabled presets and photo styles from the presets and styles
+ * tables, in display order, for the app and web pickers. Scheduled presets are
+ * only listed inside their window, with a "new"/"ending_soon" badge. Prompts
+ * are never included. Names and descriptions are translated when the row has
+ * strings for the requested locale; no auth required. The price of one image
+ * (creditsPerImage) is included so the app never hardcodes it.
+ *
+ * Request body (optional): { locale: "fr-CA" }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, handleCors } from "../_shared/cors.ts";
+import { listPresets, listStyles, getLocalizedString, getPresetBadge } from "../_shared/presets.ts";
+import { CREDITS_PER_IMAGE } from "../_shared/credits.ts";
+
+interface ListPresetsRequest {
+  locale?: string;
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    if (req.method !== "POST") {
+      return new Response(JSON.stringify({ error: "Method not allowed" }), {
+        status: 405,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Body is optional
+    const body: ListPresetsRequest = await req.json().catch(() => ({}));
+    const { locale } = body;
+
+    const [presets, styles] = await Promise.all([listPresets(), listStyles()]);
+    const now = new Date();
+
+    return new Response(
+      JSON.stringify({
+        presets: presets.map((preset) => ({
+          id: preset.id,
+          name: getLocalizedString(preset.locales, locale, "name") || preset.name,
+          emoji: preset.emoji,
+          description:
+            getLocalizedString(preset.locales, locale, "description") || preset.description,
+          requiresRefs: preset.requiresRefs,
+          type: preset.type,
+          startsAt: preset.startsAt,
+          endsAt: preset.endsAt,
+          badge: getPresetBadge(preset, now),
+          allowsCustomPrompt: preset.allowsCustomPrompt,
+        })),
+        styles: styles.map((style) => ({
+          id: style.id,
+          name: getLocalizedString(style.locales, locale, "name") || style.name,
+          emoji: style.emoji,
+        })),
+        creditsPerImage: CREDITS_PER_IMAGE,
+      }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+          "Cache-Control": "public, max-age=300",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("List presets error:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Failed to load presets",
+        details: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
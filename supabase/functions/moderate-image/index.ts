@@ -0,0 +1,398 @@
+/**
+ * Moderate Image Edge Function
+ *
+ * Moderator tools for reported feed images. Callers must be in the
+ * moderators table. Actions:
+ * - list: the review queue, images with open reports (most reported first),
+ *   then images the moderation stage couldn't check (pending)
+ * - approve: mark a pending image approved so its owner can share it
+ * - restore: dismiss the reports, and put the image back on the feed if the
+ *   reports took it off
+ * - remove: delete the image and its stored file for good
+ * - ban / unban: stop a user publishing to the feed (ban also unshares all
+ *   their public images)
+ *
+ * Images reach the queue through the report_image RPC, which takes them off
+ * the feed after 3 open reports, or by being stored as pending (see
+ * _shared/moderation.ts). Every action is logged in moderation_actions.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, handleCors } from "../_shared/cors.ts";
+import { validateAuth, createServiceClient } from "../_shared/auth.ts";
+
+type ModerationAction = "list" | "approve" | "restore" | "remove" | "ban" | "unban";
+
+const MODERATION_ACTIONS: ModerationAction[] = ["list", "approve", "restore", "remove", "ban", "unban"];
+
+// Review queue page size
+const QUEUE_LIMIT = 50;
+
+interface ModerateRequest {
+  action: ModerationAction;
+  imageId?: string;
+  userId?: string;
+  reason?: string;
+}
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+interface QueueImage {
+  id: string;
+  user_id: string;
+  image_url: string;
+  preset_id: string;
+  style_id: string | null;
+  is_public: boolean;
+  moderation_status: string;
+  report_count: number;
+  created_at: string;
+  image_reports: { reason: string; details: string | null; status: string; created_at: string }[] | null;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function logAction(
+  supabase: ServiceClient,
+  moderatorId: string,
+  action: Exclude<ModerationAction, "list">,
+  fields: { imageId?: string; targetUserId?: string; reason?: string }
+): Promise<void> {
+  const { error } = await supabase.from("moderation_actions").insert({
+    moderator_id: moderatorId,
+    action,
+    image_id: fields.imageId ?? null,
+    target_user_id: fields.targetUserId ?? null,
+    reason: fields.reason ?? null,
+  });
+
+  if (error) {
+    console.error("[moderate-image] Failed to log action:", error);
+  }
+}
+
+// Close the image's open reports as dismissed or actioned
+async function closeReports(
+  supabase: ServiceClient,
+  imageId: string,
+  moderatorId: string,
+  status: "dismissed" | "actioned"
+): Promise<void> {
+  const { error } = await supabase
+    .from("image_reports")
+    .update({
+      status,
+      reviewed_by: moderatorId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("image_id", imageId)
+    .eq("status", "open");
+
+  if (error) {
+    throw new Error(`Failed to close reports: ${error.message}`);
+  }
+}
+
+async function listQueue(supabase: ServiceClient): Promise<Response> {
+  const { data: images, error } = await supabase
+    .from("images")
+    .select(
+      "id, user_id, image_url, preset_id, style_id, is_public, moderation_status, report_count, created_at, image_reports(reason, details, status, created_at)"
+    )
+    .or("report_count.gt.0,moderation_status.eq.pending")
+    .order("report_count", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(QUEUE_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load queue: ${error.message}`);
+  }
+
+  // Only the open reports are up for review
+  const queue = (images || []).map((image: QueueImage) => ({
+    ...image,
+    image_reports: (image.image_reports || []).filter((report) => report.status === "open"),
+  }));
+
+  return jsonResponse({ images: queue });
+}
+
+async function approveImage(
+  supabase: ServiceClient,
+  moderatorId: string,
+  imageId: string,
+  reason?: string
+): Promise<Response> {
+  // Only images the moderation stage couldn't check; sharing stays up to the owner
+  const { data: image, error } = await supabase
+    .from("images")
+    .update({ moderation_status: "approved", moderation_reason: null })
+    .eq("id", imageId)
+    .eq("moderation_status", "pending")
+    .select("user_id")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to approve image: ${error.message}`);
+  }
+
+  if (!image) {
+    return jsonResponse({ error: "No pending image found", code: "IMAGE_NOT_PENDING" }, 404);
+  }
+
+  await logAction(supabase, moderatorId, "approve", {
+    imageId,
+    targetUserId: image.user_id,
+    reason,
+  });
+  console.log(`[moderate-image] Approved image ${imageId}`);
+
+  return jsonResponse({ success: true });
+}
+
+async function restoreImage(
+  supabase: ServiceClient,
+  moderatorId: string,
+  imageId: string,
+  reason?: string
+): Promise<Response> {
+  const { data: current, error: fetchError } = await supabase
+    .from("images")
+    .select("moderation_status, report_count")
+    .eq("id", imageId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to load image: ${fetchError.message}`);
+  }
+
+  if (!current) {
+    return jsonResponse({ error: "Image not found", code: "IMAGE_NOT_FOUND" }, 404);
+  }
+
+  // Only images report_image took off the feed go back on it; below the
+  // threshold the owner's sharing choice is left alone
+  const wasHidden = current.moderation_status === "reported";
+  if (!wasHidden && current.report_count <= 0) {
+    return jsonResponse({ error: "Image has no open reports", code: "IMAGE_NOT_REPORTED" }, 409);
+  }
+
+  // Fails with PUBLISHING_BANNED if the owner has since been banned
+  const { data: image, error } = wasHidden
+    ? await supabase
+        .from("images")
+        .update({ moderation_status: "approved", is_public: true, report_count: 0 })
+        .eq("id", imageId)
+        .eq("moderation_status", "reported")
+        .select("user_id")
+        .maybeSingle()
+    : await supabase
+        .from("images")
+        .update({ report_count: 0 })
+        .eq("id", imageId)
+        .gt("report_count", 0)
+        .select("user_id")
+        .maybeSingle();
+
+  if (error) {
+    if (error.message?.includes("PUBLISHING_BANNED")) {
+      return jsonResponse(
+        { error: "Owner is banned from publishing", code: "PUBLISHING_BANNED" },
+        409
+      );
+    }
+    throw new Error(`Failed to restore image: ${error.message}`);
+  }
+
+  // Restored or removed by another moderator in the meantime
+  if (!image) {
+    return jsonResponse({ error: "Image has no open reports", code: "IMAGE_NOT_REPORTED" }, 409);
+  }
+
+  await closeReports(supabase, imageId, moderatorId, "dismissed");
+  await logAction(supabase, moderatorId, "restore", {
+    imageId,
+    targetUserId: image.user_id,
+    reason,
+  });
+  console.log(`[moderate-image] Restored image ${imageId}`);
+
+  return jsonResponse({ success: true });
+}
+
+async function removeImage(
+  supabase: ServiceClient,
+  moderatorId: string,
+  imageId: string,
+  reason?: string
+): Promise<Response> {
+  const { data: image, error: fetchError } = await supabase
+    .from("images")
+    .select("user_id, storage_path")
+    .eq("id", imageId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to load image: ${fetchError.message}`);
+  }
+
+  if (!image) {
+    return jsonResponse({ error: "Image not found", code: "IMAGE_NOT_FOUND" }, 404);
+  }
+
+  await closeReports(supabase, imageId, moderatorId, "actioned");
+
+  // Log first: the reports go with the image row
+  await logAction(supabase, moderatorId, "remove", {
+    imageId,
+    targetUserId: image.user_id,
+    reason,
+  });
+
+  // Best-effort file cleanup; the row is what the feed and gallery read
+  if (image.storage_path) {
+    const { error: storageError } = await supabase.storage
+      .from("generations")
+      .remove([image.storage_path]);
+
+    if (storageError) {
+      console.warn(`[moderate-image] Failed to delete file for ${imageId}:`, storageError.message);
+    }
+  }
+
+  const { error: deleteError } = await supabase.from("images").delete().eq("id", imageId);
+
+  if (deleteError) {
+    throw new Error(`Failed to delete image: ${deleteError.message}`);
+  }
+
+  console.log(`[moderate-image] Removed image ${imageId}`);
+  return jsonResponse({ success: true });
+}
+
+async function banUser(
+  supabase: ServiceClient,
+  moderatorId: string,
+  userId: string,
+  reason?: string
+): Promise<Response> {
+  const { error: banError } = await supabase
+    .from("publishing_bans")
+    .upsert(
+      { user_id: userId, reason: reason ?? null, banned_by: moderatorId },
+      { onConflict: "user_id" }
+    );
+
+  if (banError) {
+    throw new Error(`Failed to ban user: ${banError.message}`);
+  }
+
+  // Take everything they've shared off the feed
+  const { error: unshareError } = await supabase
+    .from("images")
+    .update({ is_public: false })
+    .eq("user_id", userId)
+    .eq("is_public", true);
+
+  if (unshareError) {
+    throw new Error(`Failed to unshare images: ${unshareError.message}`);
+  }
+
+  await logAction(supabase, moderatorId, "ban", { targetUserId: userId, reason });
+  console.log(`[moderate-image] Banned user ${userId} from publishing`);
+
+  return jsonResponse({ success: true });
+}
+
+async function unbanUser(
+  supabase: ServiceClient,
+  moderatorId: string,
+  userId: string,
+  reason?: string
+): Promise<Response> {
+  const { error } = await supabase.from("publishing_bans").delete().eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to unban user: ${error.message}`);
+  }
+
+  await logAction(supabase, moderatorId, "unban", { targetUserId: userId, reason });
+  console.log(`[moderate-image] Unbanned user ${userId}`);
+
+  return jsonResponse({ success: true });
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    // Validate authentication
+    const authResult = await validateAuth(req);
+    if (!authResult.success || !authResult.userId) {
+      return jsonResponse({ error: authResult.error || "Unauthorized" }, 401);
+    }
+
+    const moderatorId = authResult.userId;
+    const supabase = createServiceClient();
+
+    // Moderator role is the moderators table, not anything the client sends
+    const { data: moderator, error: roleError } = await supabase
+      .from("moderators")
+      .select("user_id")
+      .eq("user_id", moderatorId)
+      .maybeSingle();
+
+    if (roleError) {
+      throw new Error(`Failed to check moderator role: ${roleError.message}`);
+    }
+
+    if (!moderator) {
+      return jsonResponse({ error: "Moderators only", code: "NOT_MODERATOR" }, 403);
+    }
+
+    const body: ModerateRequest = await req.json();
+    const { action, imageId, userId, reason } = body;
+
+    if (!MODERATION_ACTIONS.includes(action)) {
+      return jsonResponse({ error: "Invalid action", code: "INVALID_ACTION" }, 400);
+    }
+
+    if ((action === "approve" || action === "restore" || action === "remove") && !imageId) {
+      return jsonResponse({ error: "imageId is required", code: "MISSING_IMAGE_ID" }, 400);
+    }
+
+    if ((action === "ban" || action === "unban") && !userId) {
+      return jsonResponse({ error: "userId is required", code: "MISSING_USER_ID" }, 400);
+    }
+
+    switch (action) {
+      case "list":
+        return await listQueue(supabase);
+      case "approve":
+        return await approveImage(supabase, moderatorId, imageId!, reason);
+      case "restore":
+        return await restoreImage(supabase, moderatorId, imageId!, reason);
+      case "remove":
+        return await removeImage(supabase, moderatorId, imageId!, reason);
+      case "ban":
+        return await banUser(supabase, moderatorId, userId!, reason);
+      case "unban":
+        return await unbanUser(supabase, moderatorId, userId!, reason);
+    }
+  } catch (error) {
+    console.error("[moderate-image] Unexpected error:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
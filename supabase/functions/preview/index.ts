@@ -1,99 +1,32 @@
 /**
  * Preview Edge Function - Image Generation for Anonymous Users
  *
- * Generates 4 preview images using fal.ai for anonymous users.
+ * Generates PREVIEW_IMAGE_COUNT preview images (the preset's first variations)
+ * using fal.ai for anonymous users, in the requested aspect ratio. Previews
+ * cost nothing, so the count is fixed and there is no model fallback.
  * Returns image URLs with watermarkRequired flag for client-side watermarking.
  * Uses the same variation prompts as authenticated generation for consistency.
  *
- * Models: Kling (photorealistic/cinematic/vintage) or Nano Banana Pro (cartoon/painting/watercolor)
- * Model selection is automatic based on the style chosen.
+ * Models: Kling or Nano Banana Pro, the first model of the style's model chain.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { corsHeaders, handleCors } from "../_shared/cors.ts";
-import { getPresetPromptWithStyle, getModelForStyle, buildModelParams, type PhotoStyleId } from "../_shared/presets.ts";
-
-const FAL_KEY = Deno.env.get("FAL_KEY");
-const FAL_QUEUE_URL = "https://queue.fal.run";
-
-// Kling v3 image-to-image typically takes 60-90 seconds
-// Supabase Edge Functions have a 150s wall-clock limit on all plans
-const MAX_POLL_TIME_MS = 120000;
-const POLL_INTERVAL_MS = 2000;
-
-interface FalQueueResponse {
-  status: string;
-  request_id: string;
-  response_url: string;
-  status_url: string;
-}
-
-interface FalStatusResponse {
-  status: "IN_QUEUE" | "IN_PROGRESS" | "COMPLETED";
-  response_url?: string;
-}
-
-/**
- * Submit a generation request to fal.ai queue and poll for result
- */
-async function generateWithPolling(
-  model: string,
-  params: Record<string, unknown>
-): Promise<unknown> {
-  // Submit to queue
-  const submitResponse = await fetch(`${FAL_QUEUE_URL}/${model}`, {
-    method: "POST",
-    headers: {
-      "Authorization": `Key ${FAL_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(params),
-  });
-
-  if (!submitResponse.ok) {
-    const errorText = await submitResponse.text();
-    throw new Error(`Queue submit failed: ${errorText}`);
-  }
-
-  const queueData: FalQueueResponse = await submitResponse.json();
-  console.log(`Queued preview request: ${queueData.request_id}`);
-
-  // Poll for completion
-  const startTime = Date.now();
-  while (Date.now() - startTime < MAX_POLL_TIME_MS) {
-    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
-
-    const statusResponse = await fetch(queueData.status_url, {
-      headers: { "Authorization": `Key ${FAL_KEY}` },
-    });
-
-    if (!statusResponse.ok) {
-      console.warn("Status check failed, retrying...");
-      continue;
-    }
-
-    const statusData: FalStatusResponse = await statusResponse.json();
-
-    if (statusData.status === "COMPLETED") {
-      // Fetch the final result
-      const resultResponse = await fetch(queueData.response_url, {
-        headers: { "Authorization": `Key ${FAL_KEY}` },
-      });
-
-      if (!resultResponse.ok) {
-        throw new Error("Failed to fetch completed result");
-      }
-
-      return resultResponse.json();
-    }
-
-    if (statusData.status !== "IN_QUEUE" && statusData.status !== "IN_PROGRESS") {
-      throw new Error(`Unexpected status: ${statusData.status}`);
-    }
-  }
-
-  throw new Error("Generation timed out");
-}
+import {
+  getModelRoutes,
+  getPresetReferenceUrls,
+  getVariationPrompts,
+  buildModelParams,
+  isAspectRatio,
+  DEFAULT_ASPECT_RATIO,
+  type AspectRatio,
+  type PhotoStyleId,
+} from "../_shared/presets.ts";
+import { generateImage } from "../_shared/fal.ts";
+import { checkCustomPrompt } from "../_shared/moderation.ts";
+
+// Images per preview, regardless of the batch sizes signed-in users can pick
+const PREVIEW_IMAGE_COUNT = 4;
 
 interface PreviewRequest {
   // User's photo as base64 data URL or HTTP URL
@@ -102,6 +35,10 @@ interface PreviewRequest {
   presetId: string;
   // Photo style (e.g., "photorealistic", "cartoon")
   styleId?: PhotoStyleId;
+  // Scene text for the "custom" preset
+  customPrompt?: string;
+  // Output shape ("1:1", "4:5", "9:16")
+  aspectRatio?: AspectRatio;
 }
 
 serve(async (req: Request) => {
@@ -119,7 +56,13 @@ serve(async (req: Request) => {
 
     // Parse request body
     const body: PreviewRequest = await req.json();
-    const { imageUrl, presetId, styleId = "photorealistic" } = body;
+    const {
+      imageUrl,
+      presetId,
+      styleId = "photorealistic",
+      customPrompt,
+      aspectRatio = DEFAULT_ASPECT_RATIO,
+    } = body;
 
     // Validate required fields
     if (!imageUrl || !presetId) {
@@ -132,9 +75,37 @@ serve(async (req: Request) => {
       );
     }
 
-    // Get prompt for preset+style combination
-    const prompt = getPresetPromptWithStyle(presetId, styleId);
-    if (!prompt) {
+    if (!isAspectRatio(aspectRatio)) {
+      return new Response(
+        JSON.stringify({ error: "Unsupported aspectRatio", code: "INVALID_ASPECT_RATIO" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Moderate custom text before it reaches the model
+    let moderatedPrompt: string | null = null;
+    if (customPrompt !== undefined) {
+      const promptCheck = await checkCustomPrompt(customPrompt);
+      if (!promptCheck.ok) {
+        return new Response(
+          JSON.stringify({ error: "Custom prompt not accepted", code: promptCheck.error }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      moderatedPrompt = promptCheck.prompt;
+    }
+
+    // Models to try for the preset+style combination, each with its prompt
+    const routes = await getModelRoutes(presetId, styleId, {
+      customPrompt: moderatedPrompt,
+    });
+    if (!routes) {
       return new Response(
         JSON.stringify({ error: "Invalid presetId or styleId" }),
         {
@@ -144,27 +115,27 @@ serve(async (req: Request) => {
       );
     }
 
-    // Variation prompts for lighting/atmosphere (same as authenticated flow)
-    const variations = [
-      "morning light, golden hour warmth",
-      "soft afternoon glow, natural lighting",
-      "sunset glow, warm amber tones",
-      "bright midday, clear crisp light",
-    ];
+    // The preset's variation prompts (same as authenticated flow)
+    const variations = await getVariationPrompts(presetId, styleId, PREVIEW_IMAGE_COUNT);
 
-    // Route to the correct model based on style
-    const modelConfig = getModelForStyle(styleId);
-    console.log(`Starting parallel generation of 4 preview images using model: ${modelConfig.modelId}`);
+    const [route] = routes;
+    const referenceUrls = await getPresetReferenceUrls(presetId);
+    console.log(`Starting parallel generation of ${variations.length} preview images using model: ${route.modelConfig.modelId}`);
 
     const generationPromises = variations.map(async (variation, index) => {
       try {
-        const variationPrompt = `${prompt}, ${variation}`;
-        const modelParams = buildModelParams(modelConfig, imageUrl, variationPrompt);
-        const result = await generateWithPolling(modelConfig.modelId, modelParams);
-
-        const urls = extractImageUrls(result);
+        const url = await generateImage(
+          route.modelConfig.modelId,
+          buildModelParams(
+            route.modelConfig,
+            imageUrl,
+            `${route.prompt}, ${variation}`,
+            referenceUrls,
+            aspectRatio
+          )
+        );
         console.log(`Preview image ${index} generated successfully`);
-        return { index, url: urls[0] || null, error: null };
+        return { index, url, error: null };
       } catch (error) {
         console.error(`Preview image ${index} failed:`, error);
         return {
@@ -185,7 +156,7 @@ serve(async (req: Request) => {
       }
     }
 
-    console.log(`Generated ${imageUrls.length}/4 preview images successfully`);
+    console.log(`Generated ${imageUrls.length}/${variations.length} preview images successfully`);
 
     if (imageUrls.length === 0) {
       return new Response(
@@ -203,6 +174,8 @@ serve(async (req: Request) => {
         success: true,
         images: imageUrls.map((url) => ({ url })),
         imageCount: imageUrls.length,
+        variationCount: variations.length,
+        aspectRatio,
         isPreview: true,
         watermarkRequired: true,
         presetId,
@@ -224,45 +197,3 @@ serve(async (req: Request) => {
     );
   }
 });
-
-/**
- * Extract image URLs from various fal.ai response formats
- */
-function extractImageUrls(falResult: unknown): string[] {
-  const urls: string[] = [];
-
-  if (typeof falResult !== "object" || falResult === null) {
-    return urls;
-  }
-
-  const result = falResult as Record<string, unknown>;
-
-  // Format 1: { images: [{ url: string }] }
-  if (Array.isArray(result.images)) {
-    for (const img of result.images) {
-      if (typeof img === "object" && img !== null && "url" in img) {
-        urls.push((img as { url: string }).url);
-      } else if (typeof img === "string") {
-        urls.push(img);
-      }
-    }
-  }
-
-  // Format 2: { image: { url: string } }
-  if (result.image && typeof result.image === "object" && "url" in result.image) {
-    urls.push((result.image as { url: string }).url);
-  }
-
-  // Format 3: { output: [string] } or { output: string }
-  if (Array.isArray(result.output)) {
-    for (const item of result.output) {
-      if (typeof item === "string") {
-        urls.push(item);
-      }
-    }
-  } else if (typeof result.output === "string") {
-    urls.push(result.output);
-  }
-
-  return urls;
-}
@@ -4,27 +4,51 @@
  * Reserves a generation credit and creates a session for parallel image generation.
  * This function:
  * 1. Validates the user's auth token
- * 2. Decrements one credit atomically
+ * 2. Decrements the batch's credits atomically
  * 3. Creates a generation session with a 5-minute expiry
- * 4. Returns the sessionId for use in parallel generate-single calls
+ * 4. Returns the sessionId for use in parallel generate-single calls, and the
+ *    generationId clients subscribe to for realtime progress
  *
- * This enables the progressive loading pattern where the client makes 4 parallel
- * generation requests that all share a single credit.
+ * This enables the progressive loading pattern where the client makes one
+ * parallel generation request per variation of the preset (imageCount, 4 by
+ * default), all sharing one reservation. Users can ask for fewer images than
+ * the preset has variations; the charge is getCreditCost(imageCount). Every
+ * image in the batch uses the requested aspectRatio (square by default).
+ *
+ * Up to MAX_FRIEND_IMAGES photos of other people can be added with
+ * friendImageUrls; every image in the batch then includes them. Custom
+ * presets take the scene from customPrompt, which is moderated before any
+ * credit is spent.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { corsHeaders, handleCors } from "../_shared/cors.ts";
 import { validateAuth } from "../_shared/auth.ts";
 import { reserveGenerationSession } from "../_shared/credits.ts";
-import type { PhotoStyleId } from "../_shared/presets.ts";
+import {
+  getPreset,
+  isPresetAvailable,
+  getVariationPrompts,
+  isAspectRatio,
+  DEFAULT_ASPECT_RATIO,
+  MAX_VARIATIONS,
+  type AspectRatio,
+  type PhotoStyleId,
+} from "../_shared/presets.ts";
+import { checkCustomPrompt } from "../_shared/moderation.ts";
 
 interface ReserveRequest {
   imageUrl: string;
   presetId: string;
   styleId?: PhotoStyleId;
-  imageCount?: number;
+  friendImageUrls?: string[];
+  customPrompt?: string;
+  aspectRatio?: AspectRatio;
+  imageCount?: number; // Defaults to the preset's full variation set
 }
 
+const MAX_FRIEND_IMAGES = 3;
+
 serve(async (req: Request) => {
   // Handle CORS preflight
   const corsResponse = handleCors(req);
@@ -59,7 +83,10 @@ serve(async (req: Request) => {
       imageUrl,
       presetId,
       styleId = "photorealistic",
-      imageCount = 4,
+      friendImageUrls = [],
+      customPrompt,
+      aspectRatio = DEFAULT_ASPECT_RATIO,
+      imageCount,
     } = body;
 
     // Validate required fields
@@ -73,13 +100,102 @@ serve(async (req: Request) => {
       );
     }
 
+    if (
+      !Array.isArray(friendImageUrls) ||
+      friendImageUrls.length > MAX_FRIEND_IMAGES ||
+      friendImageUrls.some((url) => typeof url !== "string" || !url)
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: `friendImageUrls must be at most ${MAX_FRIEND_IMAGES} image URLs`,
+          code: "INVALID_FRIEND_IMAGES",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!isAspectRatio(aspectRatio)) {
+      return new Response(
+        JSON.stringify({ error: "Unsupported aspectRatio", code: "INVALID_ASPECT_RATIO" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (
+      imageCount !== undefined &&
+      (!Number.isInteger(imageCount) || imageCount < 1 || imageCount > MAX_VARIATIONS)
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: `imageCount must be between 1 and ${MAX_VARIATIONS}`,
+          code: "INVALID_IMAGE_COUNT",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Don't charge for a preset that was disabled or never existed
+    const preset = await getPreset(presetId);
+    if (!preset) {
+      return new Response(
+        JSON.stringify({ error: "Unknown preset", code: "INVALID_PRESET" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // ...or one outside its schedule window or missing its reference images.
+    // Once reserved, the session generates even if the window closes meanwhile.
+    if (!isPresetAvailable(preset)) {
+      return new Response(
+        JSON.stringify({ error: "Preset is not available right now", code: "PRESET_NOT_AVAILABLE" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Custom presets need acceptable text; other presets ignore it
+    let moderatedPrompt: string | null = null;
+    if (preset.allowsCustomPrompt) {
+      const promptCheck = await checkCustomPrompt(customPrompt);
+      if (!promptCheck.ok) {
+        return new Response(
+          JSON.stringify({ error: "Custom prompt not accepted", code: promptCheck.error }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      moderatedPrompt = promptCheck.prompt;
+    }
+
+    // The preset's variation set caps how many images the batch has
+    const variationPrompts = await getVariationPrompts(presetId, styleId, imageCount);
+
     // Reserve credit and create session
     const result = await reserveGenerationSession(
       userId,
       presetId,
       styleId,
       imageUrl,
-      imageCount
+      variationPrompts,
+      friendImageUrls,
+      moderatedPrompt,
+      aspectRatio
     );
 
     if (!result.success) {
@@ -97,11 +213,15 @@ serve(async (req: Request) => {
       );
     }
 
-    // Return success with sessionId
+    // Return success with sessionId and generationId (for realtime tracking)
     return new Response(
       JSON.stringify({
         success: true,
         sessionId: result.sessionId,
+        generationId: result.generationId,
+        imageCount: result.imageCount,
+        creditCost: result.creditCost,
+        aspectRatio,
         isFreeGeneration: result.isFree,
         remainingFree: result.remainingFree,
         remainingPaid: result.remainingPaid,
@@ -0,0 +1,117 @@
+/**
+ * Retry Variation Edge Function
+ *
+ * Retries a single failed variation slot within an existing generation session,
+ * so one failed image doesn't require a new credit.
+ * This function:
+ * 1. Validates the session ID and user ownership
+ * 2. Checks the slot has no image, queued request or request still being
+ *    polled (never-requested slots are handled as a first request)
+ * 3. Enforces the per-session retry limit (MAX_SESSION_RETRIES)
+ * 4. Extends the session expiry and regenerates the slot like generate-single
+ *
+ * Supports the same `async: true` webhook mode as generate-single.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, handleCors } from "../_shared/cors.ts";
+import { validateAuth } from "../_shared/auth.ts";
+import { validateRetrySession } from "../_shared/credits.ts";
+import { FalError } from "../_shared/fal.ts";
+import { runVariation, variationResponse } from "../_shared/generation.ts";
+
+interface RetryVariationRequest {
+  sessionId: string;
+  variationIndex: number; // 0-3
+  async?: boolean; // Return after queue submission; result arrives via fal-webhook
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    if (req.method !== "POST") {
+      return new Response(JSON.stringify({ error: "Method not allowed" }), {
+        status: 405,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate authentication
+    const authResult = await validateAuth(req);
+    if (!authResult.success || !authResult.userId) {
+      return new Response(
+        JSON.stringify({ error: authResult.error || "Unauthorized" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const userId = authResult.userId;
+
+    // Parse request body
+    const body: RetryVariationRequest = await req.json();
+    const { sessionId, variationIndex, async: isAsync } = body;
+
+    // Validate required fields
+    if (!sessionId || variationIndex === undefined) {
+      return new Response(
+        JSON.stringify({ error: "Missing sessionId or variationIndex" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const retryResult = await validateRetrySession(sessionId, userId, variationIndex);
+
+    if (!retryResult.success || !retryResult.sessionResult) {
+      const errorMessages = {
+        INVALID_SESSION: "Invalid or expired session",
+        NOT_RETRYABLE: "This image can't be retried",
+        RETRY_LIMIT_REACHED: "Retry limit reached for this generation",
+      };
+      const code = retryResult.error || "INVALID_SESSION";
+
+      return new Response(
+        JSON.stringify({
+          error: errorMessages[code],
+          code,
+          retriesRemaining: retryResult.retriesRemaining,
+        }),
+        {
+          status: code === "RETRY_LIMIT_REACHED" ? 429 : code === "NOT_RETRYABLE" ? 409 : 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    console.log(`Retrying image ${variationIndex} for session ${sessionId} (${retryResult.retriesRemaining} retries left)`);
+
+    const result = await runVariation(userId, retryResult.sessionResult, variationIndex, !!isAsync);
+    return variationResponse(
+      result,
+      variationIndex,
+      retryResult.sessionResult.generationId,
+      { retriesRemaining: retryResult.retriesRemaining }
+    );
+  } catch (error) {
+    console.error("Retry variation error:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Generation failed",
+        code: error instanceof FalError ? error.code : undefined,
+        details: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: error instanceof FalError && error.code === "TIMEOUT" ? 504 : 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -2,31 +2,45 @@
  * RevenueCat Webhook Edge Function
  *
  * Receives webhook events from RevenueCat and syncs credits to Supabase.
- * This serves as a backup to the client-side credit sync, ensuring credits
- * are always delivered even if the app crashes after payment.
+ * This serves as a backup to the verify-purchase function the app calls,
+ * ensuring credits are always delivered even if the app crashes after payment.
+ *
+ * Every event is stored raw in revenuecat_events before it is acted on, so the
+ * table is a complete record of what the store told us and can be replayed.
  *
  * Handles:
  * - INITIAL_PURCHASE: First-time purchase of a product
  * - NON_RENEWING_PURCHASE: Consumable purchase (our credit packs)
+ * - RENEWAL: Monthly plan renewed, grants the next period's allowance
+ * - CANCELLATION (refunded): Claws back the purchase's unused credits
+ * - CANCELLATION / UNCANCELLATION: Monthly plan auto-renew turned off / on
+ * - BILLING_ISSUE: Monthly plan renewal payment failed
+ * - EXPIRATION: Monthly plan ended, its remaining allowance expires
+ * - TRANSFER: Moves paid balances between app users
+ * - TEST: Acknowledged and stored
  *
  * Security:
  * - Validates webhook bearer token from RevenueCat
  * - Uses rc_transaction_id for idempotency (prevents duplicate credits)
+ * - Uses the RevenueCat event ID to skip redelivered events
+ * - Ignores SANDBOX events unless REVENUECAT_ALLOW_SANDBOX is "true"
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-// Product ID to credits mapping - must match mobile app
-const PRODUCT_CREDITS: Record<string, number> = {
-  "five_token_ios": 5,
-  "ten_token_ios": 10,
-  "twentyfive_token_ios": 25,
-  // Android products (for future)
-  "five_token_android": 5,
-  "ten_token_android": 10,
-  "twentyfive_token_android": 25,
-};
+import {
+  getPlatformForStore,
+  grantPurchase,
+  refundPurchase,
+  transferCredits,
+  storeEvent,
+  markEventStatus,
+  getSubscription,
+  upsertSubscription,
+  expireAllowance,
+  isSandboxAllowed,
+  type StoredEventStatus,
+} from "../_shared/revenuecat.ts";
+import { getProduct, type Product } from "../_shared/catalog.ts";
 
 // RevenueCat webhook event types we care about
 const PURCHASE_EVENTS = [
@@ -35,8 +49,23 @@ const PURCHASE_EVENTS = [
   "PRODUCT_CHANGE",
 ];
 
+// Events about the monthly plan (products with product_type = 'subscription')
+const SUBSCRIPTION_EVENTS = [
+  "INITIAL_PURCHASE",
+  "RENEWAL",
+  "PRODUCT_CHANGE",
+  "CANCELLATION",
+  "UNCANCELLATION",
+  "BILLING_ISSUE",
+  "EXPIRATION",
+];
+
+// Cancellation reasons that mean the customer was refunded
+const REFUND_CANCEL_REASONS = ["CUSTOMER_SUPPORT"];
+
 interface RevenueCatEvent {
   event: {
+    id: string;
     type: string;
     app_user_id: string;
     product_id: string;
@@ -46,10 +75,257 @@ interface RevenueCatEvent {
     currency: string;
     store: string;
     environment: string;
+    purchased_at_ms?: number;
+    expiration_at_ms?: number | null;
+    cancel_reason?: string;
+    transferred_from?: string[];
+    transferred_to?: string[];
   };
   api_version: string;
 }
 
+type WebhookEvent = RevenueCatEvent["event"];
+
+interface HandlerResult {
+  status: StoredEventStatus;
+  httpStatus: number;
+  body: Record<string, unknown>;
+  error?: string;
+}
+
+// RevenueCat may report anonymous IDs alongside Supabase user IDs
+function isAnonymousId(appUserId: string): boolean {
+  return appUserId.startsWith("$RCAnonymousID:");
+}
+
+function toIsoDate(ms: number | null | undefined): string | null {
+  return ms ? new Date(ms).toISOString() : null;
+}
+
+const ANONYMOUS_RESULT: HandlerResult = {
+  status: "ignored",
+  httpStatus: 200,
+  body: { error: "Anonymous user", skipped: true },
+};
+
+async function handlePurchase(event: WebhookEvent): Promise<HandlerResult> {
+  // app_user_id is the Supabase user ID (we set this when calling Purchases.logIn)
+  const userId = event.app_user_id;
+
+  // Skip anonymous users (shouldn't happen, but safety check)
+  if (isAnonymousId(userId)) {
+    console.warn("[Webhook] Received event for anonymous user");
+    return ANONYMOUS_RESULT;
+  }
+
+  const grantResult = await grantPurchase({
+    userId,
+    productId: event.product_id,
+    transactionId: event.transaction_id,
+    originalTransactionId: event.original_transaction_id,
+    price: event.price,
+    currency: event.currency,
+    platform: getPlatformForStore(event.store),
+    purchasedAt: toIsoDate(event.purchased_at_ms),
+    expiresAt: toIsoDate(event.expiration_at_ms),
+  });
+
+  if (grantResult.alreadyProcessed) {
+    return {
+      status: "processed",
+      httpStatus: 200,
+      body: { success: true, already_processed: true },
+    };
+  }
+
+  // Credit amounts come from the products table
+  if (grantResult.error === "UNKNOWN_PRODUCT") {
+    console.warn("[Webhook] Unknown product ID:", event.product_id);
+    return {
+      status: "failed",
+      httpStatus: 400,
+      body: { error: "Unknown product", product_id: event.product_id },
+      error: "Unknown product",
+    };
+  }
+
+  if (!grantResult.success) {
+    // Nothing was recorded, so RevenueCat's retry grants the purchase again
+    return {
+      status: "failed",
+      httpStatus: 500,
+      body: { success: false, error: "Failed to add credits" },
+      error: grantResult.error,
+    };
+  }
+
+  console.log("[Webhook] Successfully processed purchase:", {
+    user_id: userId,
+    product_id: event.product_id,
+    credits_added: grantResult.creditsAdded,
+    transaction_id: event.transaction_id,
+  });
+
+  return {
+    status: "processed",
+    httpStatus: 200,
+    body: {
+      success: true,
+      credits_added: grantResult.creditsAdded,
+      user_id: userId,
+    },
+  };
+}
+
+async function handleCancellation(event: WebhookEvent): Promise<HandlerResult> {
+  // Other cancellations don't return money (auto-renew is handled separately)
+  if (!REFUND_CANCEL_REASONS.includes(event.cancel_reason || "")) {
+    console.log("[Webhook] Ignoring non-refund cancellation:", event.cancel_reason);
+    return { status: "ignored", httpStatus: 200, body: { success: true, ignored: true } };
+  }
+
+  const clawedBack = await refundPurchase(event.transaction_id, event.id);
+
+  if (clawedBack === null) {
+    console.warn("[Webhook] Refund for unknown transaction:", event.transaction_id);
+    return {
+      status: "ignored",
+      httpStatus: 200,
+      body: { success: true, ignored: true, reason: "Unknown transaction" },
+    };
+  }
+
+  console.log("[Webhook] Processed refund:", {
+    app_user_id: event.app_user_id,
+    transaction_id: event.transaction_id,
+    credits_clawed_back: clawedBack,
+  });
+
+  return {
+    status: "processed",
+    httpStatus: 200,
+    body: { success: true, credits_clawed_back: clawedBack },
+  };
+}
+
+/**
+ * Monthly plan lifecycle: each period's allowance is granted like a purchase,
+ * the rest only changes plan status (and expires the allowance at the end)
+ */
+async function handleSubscriptionEvent(
+  event: WebhookEvent,
+  product: Product
+): Promise<HandlerResult> {
+  const userId = event.app_user_id;
+
+  if (isAnonymousId(userId)) {
+    console.warn("[Webhook] Received subscription event for anonymous user");
+    return ANONYMOUS_RESULT;
+  }
+
+  const subscription = {
+    userId,
+    productId: product.id,
+    originalTransactionId: event.original_transaction_id,
+    platform: getPlatformForStore(event.store),
+  };
+
+  switch (event.type) {
+    case "INITIAL_PURCHASE":
+    case "RENEWAL": {
+      const result = await handlePurchase(event);
+      if (result.status === "processed") {
+        await upsertSubscription({
+          ...subscription,
+          status: "active",
+          willRenew: true,
+          periodStart: toIsoDate(event.purchased_at_ms),
+          periodEnd: toIsoDate(event.expiration_at_ms),
+        });
+      }
+      return result;
+    }
+
+    case "CANCELLATION": {
+      if (REFUND_CANCEL_REASONS.includes(event.cancel_reason || "")) {
+        return handleCancellation(event);
+      }
+      // Plan stays active until the period ends
+      await upsertSubscription({ ...subscription, willRenew: false });
+      return { status: "processed", httpStatus: 200, body: { success: true, will_renew: false } };
+    }
+
+    case "UNCANCELLATION":
+      await upsertSubscription({ ...subscription, willRenew: true });
+      return { status: "processed", httpStatus: 200, body: { success: true, will_renew: true } };
+
+    case "BILLING_ISSUE":
+      // The current allowance stays valid until its period ends
+      await upsertSubscription({ ...subscription, status: "billing_issue" });
+      return { status: "processed", httpStatus: 200, body: { success: true, billing_issue: true } };
+
+    case "EXPIRATION": {
+      // A late EXPIRATION must not end a period that has since renewed
+      const current = await getSubscription(userId);
+      const expiredAt = toIsoDate(event.expiration_at_ms);
+      if (
+        current?.current_period_end && expiredAt &&
+        new Date(current.current_period_end) > new Date(expiredAt)
+      ) {
+        console.log("[Webhook] Ignoring expiration of an earlier period:", event.id);
+        return { status: "ignored", httpStatus: 200, body: { success: true, ignored: true } };
+      }
+
+      await upsertSubscription({ ...subscription, status: "expired", willRenew: false });
+      const creditsExpired = await expireAllowance(userId, "Monthly plan ended");
+
+      console.log("[Webhook] Subscription expired:", {
+        user_id: userId,
+        product_id: product.id,
+        credits_expired: creditsExpired,
+      });
+
+      return {
+        status: "processed",
+        httpStatus: 200,
+        body: { success: true, credits_expired: creditsExpired },
+      };
+    }
+
+    default:
+      // PRODUCT_CHANGE: the new plan's allowance arrives with its RENEWAL
+      console.log("[Webhook] Ignoring subscription event:", event.type);
+      return { status: "ignored", httpStatus: 200, body: { success: true, ignored: true } };
+  }
+}
+
+async function handleTransfer(event: WebhookEvent): Promise<HandlerResult> {
+  const fromIds = (event.transferred_from || []).filter((id) => !isAnonymousId(id));
+  const toId = (event.transferred_to || []).find((id) => !isAnonymousId(id));
+
+  if (!toId || fromIds.length === 0) {
+    console.log("[Webhook] Transfer involves no Supabase users, ignoring");
+    return { status: "ignored", httpStatus: 200, body: { success: true, ignored: true } };
+  }
+
+  let creditsMoved = 0;
+  for (const fromId of fromIds) {
+    creditsMoved += await transferCredits(fromId, toId, event.id);
+  }
+
+  console.log("[Webhook] Processed transfer:", {
+    from: fromIds,
+    to: toId,
+    credits_moved: creditsMoved,
+  });
+
+  return {
+    status: "processed",
+    httpStatus: 200,
+    body: { success: true, credits_moved: creditsMoved },
+  };
+}
+
 serve(async (req: Request) => {
   // Only allow POST requests
   if (req.method !== "POST") {
@@ -59,6 +335,8 @@ serve(async (req: Request) => {
     });
   }
 
+  let eventId: string | null = null;
+
   try {
     // Validate webhook authorization
     const authHeader = req.headers.get("authorization");
@@ -86,77 +364,26 @@ serve(async (req: Request) => {
     const event = payload.event;
 
     console.log("[Webhook] Received event:", {
+      id: event.id,
       type: event.type,
       product_id: event.product_id,
       app_user_id: event.app_user_id,
       environment: event.environment,
     });
 
-    // Ignore events we don't care about
-    if (!PURCHASE_EVENTS.includes(event.type)) {
-      console.log("[Webhook] Ignoring event type:", event.type);
-      return new Response(JSON.stringify({ success: true, ignored: true }), {
-        status: 200,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Ignore sandbox events in production (optional - remove if you want to test)
-    // if (event.environment === "SANDBOX") {
-    //   console.log("[Webhook] Ignoring sandbox event");
-    //   return new Response(JSON.stringify({ success: true, sandbox: true }), {
-    //     status: 200,
-    //     headers: { "Content-Type": "application/json" },
-    //   });
-    // }
-
-    // Map product ID to credits
-    const credits = PRODUCT_CREDITS[event.product_id];
-    if (!credits) {
-      console.warn("[Webhook] Unknown product ID:", event.product_id);
-      return new Response(
-        JSON.stringify({ error: "Unknown product", product_id: event.product_id }),
-        {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
-
-    // app_user_id is the Supabase user ID (we set this when calling Purchases.logIn)
-    const userId = event.app_user_id;
-
-    // Skip anonymous users (shouldn't happen, but safety check)
-    if (userId.startsWith("$RCAnonymousID:")) {
-      console.warn("[Webhook] Received event for anonymous user");
-      return new Response(
-        JSON.stringify({ error: "Anonymous user", skipped: true }),
-        {
-          status: 200,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
-
-    // Create Supabase service client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false,
-      },
-    });
-
-    // Check if this transaction was already processed (idempotency)
-    const { data: existingPurchase } = await supabase
-      .from("purchases")
-      .select("id")
-      .eq("rc_transaction_id", event.transaction_id)
-      .single();
+    // Store the raw event before acting on it
+    const { previousStatus } = await storeEvent(
+      event.id,
+      event.type,
+      event.app_user_id ?? null,
+      event.environment ?? null,
+      payload
+    );
+    eventId = event.id;
 
-    if (existingPurchase) {
-      console.log("[Webhook] Transaction already processed:", event.transaction_id);
+    // Redelivery of an event we already handled
+    if (previousStatus === "processed" || previousStatus === "ignored") {
+      console.log("[Webhook] Event already handled:", event.id);
       return new Response(
         JSON.stringify({ success: true, already_processed: true }),
         {
@@ -166,76 +393,46 @@ serve(async (req: Request) => {
       );
     }
 
-    // Record the purchase first (for idempotency)
-    const { error: purchaseError } = await supabase.from("purchases").insert({
-      user_id: userId,
-      rc_product_id: event.product_id,
-      rc_transaction_id: event.transaction_id,
-      rc_original_transaction_id: event.original_transaction_id,
-      credits_added: credits,
-      amount_paid: event.price,
-      currency: event.currency,
-      platform: event.store === "APP_STORE" ? "ios" : "android",
-    });
+    // Subscription products follow the plan lifecycle instead of pack purchases
+    const product = event.product_id ? await getProduct(event.product_id) : null;
 
-    if (purchaseError) {
-      // If it's a unique constraint violation, another request already processed it
-      if (purchaseError.code === "23505") {
-        console.log("[Webhook] Transaction already processed (race condition):", event.transaction_id);
-        return new Response(
-          JSON.stringify({ success: true, already_processed: true }),
-          {
-            status: 200,
-            headers: { "Content-Type": "application/json" },
-          }
-        );
-      }
-      console.error("[Webhook] Failed to record purchase:", purchaseError);
-      throw purchaseError;
+    let result: HandlerResult;
+    if (event.environment === "SANDBOX" && event.type !== "TEST" && !isSandboxAllowed()) {
+      // Sandbox purchases must not grant production credits
+      console.log("[Webhook] Ignoring sandbox event:", event.id);
+      result = { status: "ignored", httpStatus: 200, body: { success: true, sandbox: true } };
+    } else if (product?.productType === "subscription" && SUBSCRIPTION_EVENTS.includes(event.type)) {
+      result = await handleSubscriptionEvent(event, product);
+    } else if (PURCHASE_EVENTS.includes(event.type)) {
+      result = await handlePurchase(event);
+    } else if (event.type === "CANCELLATION") {
+      result = await handleCancellation(event);
+    } else if (event.type === "TRANSFER") {
+      result = await handleTransfer(event);
+    } else if (event.type === "TEST") {
+      console.log("[Webhook] Test event received");
+      result = { status: "processed", httpStatus: 200, body: { success: true, test: true } };
+    } else {
+      // Ignore events we don't care about (still stored above)
+      console.log("[Webhook] Ignoring event type:", event.type);
+      result = { status: "ignored", httpStatus: 200, body: { success: true, ignored: true } };
     }
 
-    // Add credits to user's account
-    const { data: addResult, error: creditsError } = await supabase.rpc("add_credits", {
-      p_user_id: userId,
-      p_credits: credits,
-    });
+    await markEventStatus(event.id, result.status, result.error);
 
-    if (creditsError) {
-      console.error("[Webhook] Failed to add credits:", creditsError);
-      // Don't throw - purchase is recorded, credits can be added manually if needed
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Failed to add credits",
-          purchase_recorded: true,
-        }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
-
-    console.log("[Webhook] Successfully processed purchase:", {
-      user_id: userId,
-      product_id: event.product_id,
-      credits_added: credits,
-      transaction_id: event.transaction_id,
+    return new Response(JSON.stringify(result.body), {
+      status: result.httpStatus,
+      headers: { "Content-Type": "application/json" },
     });
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        credits_added: credits,
-        user_id: userId,
-      }),
-      {
-        status: 200,
-        headers: { "Content-Type": "application/json" },
-      }
-    );
   } catch (error) {
     console.error("[Webhook] Error processing webhook:", error);
+    if (eventId) {
+      await markEventStatus(
+        eventId,
+        "failed",
+        error instanceof Error ? error.message : JSON.stringify(error)
+      );
+    }
     return new Response(
       JSON.stringify({ error: "Internal server error" }),
       {
@@ -0,0 +1,154 @@
+/**
+ * Verify Purchase Edge Function
+ *
+ * Grants credits for an in-app purchase reported by the app. The app only
+ * sends the store transaction ID; the product and amount come from RevenueCat.
+ * This function:
+ * 1. Validates the user's JWT
+ * 2. Looks the transaction up on the user's RevenueCat customer via the REST API
+ *    (sandbox transactions only count where REVENUECAT_ALLOW_SANDBOX is set)
+ * 3. Grants the product's credits, idempotent on purchases.rc_transaction_id
+ *    (shared with revenuecat-webhook, so whichever arrives first wins)
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, handleCors } from "../_shared/cors.ts";
+import { validateAuth } from "../_shared/auth.ts";
+import { verifyTransaction, getPlatformForStore, grantPurchase } from "../_shared/revenuecat.ts";
+
+interface VerifyPurchaseRequest {
+  transactionId: string;
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    if (req.method !== "POST") {
+      return new Response(JSON.stringify({ error: "Method not allowed" }), {
+        status: 405,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate authentication
+    const authResult = await validateAuth(req);
+    if (!authResult.success || !authResult.userId) {
+      return new Response(
+        JSON.stringify({ error: authResult.error || "Unauthorized" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const userId = authResult.userId;
+
+    // Parse request body
+    const body: VerifyPurchaseRequest = await req.json();
+    const { transactionId } = body;
+
+    if (!transactionId || typeof transactionId !== "string") {
+      return new Response(
+        JSON.stringify({ error: "Missing transactionId" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // The app logs in to RevenueCat with the Supabase user ID
+    const verifyResult = await verifyTransaction(userId, transactionId);
+
+    if (verifyResult.error === "SANDBOX_NOT_ALLOWED") {
+      return new Response(
+        JSON.stringify({
+          error: "Sandbox purchases are not accepted",
+          code: "SANDBOX_NOT_ALLOWED",
+        }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!verifyResult.success || !verifyResult.transaction) {
+      const code = verifyResult.error === "NOT_FOUND"
+        ? "TRANSACTION_NOT_FOUND"
+        : "VERIFICATION_FAILED";
+
+      return new Response(
+        JSON.stringify({
+          error: code === "TRANSACTION_NOT_FOUND"
+            ? "Transaction not found for this user"
+            : "Could not verify purchase",
+          code,
+        }),
+        {
+          status: code === "TRANSACTION_NOT_FOUND" ? 404 : 502,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { transaction } = verifyResult;
+
+    const grantResult = await grantPurchase({
+      userId,
+      productId: transaction.productId,
+      transactionId: transaction.transactionId,
+      platform: getPlatformForStore(transaction.store),
+      purchasedAt: transaction.purchasedAt,
+    });
+
+    if (!grantResult.success) {
+      const code = grantResult.error || "GRANT_FAILED";
+      return new Response(
+        JSON.stringify({
+          error: code === "UNKNOWN_PRODUCT" ? "Unknown product" : "Failed to add credits",
+          code,
+        }),
+        {
+          status: code === "UNKNOWN_PRODUCT" ? 400 : 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    console.log("[verify-purchase] Purchase verified:", {
+      user_id: userId,
+      product_id: transaction.productId,
+      credits_added: grantResult.creditsAdded ?? 0,
+      already_processed: !!grantResult.alreadyProcessed,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        creditsAdded: grantResult.creditsAdded ?? 0,
+        alreadyProcessed: !!grantResult.alreadyProcessed,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Verify purchase error:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
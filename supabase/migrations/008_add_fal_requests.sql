@@ -0,0 +1,131 @@
+-- Migration: Track fal.ai queue requests completed via webhook
+--
+-- generate-single can submit to the fal.ai queue with a webhook URL and return
+-- immediately instead of polling. This table maps each fal.ai request_id back to
+-- the generation slot it belongs to, so the fal-webhook function can persist the
+-- result when fal.ai calls back.
+--
+-- Changes:
+-- 1. Create fal_requests table
+-- 2. Indexes for webhook lookup and per-generation queries
+-- 3. RLS (users can read their own requests; writes are service role only)
+-- 4. Idempotent webhook delivery (request claims, one image per batch slot,
+--    duplicates archived)
+
+-- ============================================
+-- 1. CREATE FAL_REQUESTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.fal_requests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id TEXT UNIQUE NOT NULL,        -- fal.ai queue request ID
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  generation_id UUID REFERENCES public.generations(id) ON DELETE CASCADE NOT NULL,
+  variation_index INTEGER NOT NULL,       -- Slot within the batch (0-3)
+  image_count INTEGER NOT NULL DEFAULT 4, -- Batch size, used to detect completion
+  model_id TEXT NOT NULL,                 -- fal.ai model the request was sent to
+  preset_id TEXT NOT NULL,
+  style_id TEXT NOT NULL,
+  is_free BOOLEAN DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'completed', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- ============================================
+-- 2. CREATE INDEXES
+-- ============================================
+
+-- Index for looking up all requests of a generation batch
+CREATE INDEX IF NOT EXISTS idx_fal_requests_generation
+ON public.fal_requests(generation_id);
+
+-- Index for finding requests still waiting on a callback
+CREATE INDEX IF NOT EXISTS idx_fal_requests_status
+ON public.fal_requests(status, created_at)
+WHERE status = 'queued';
+
+-- ============================================
+-- 3. ENABLE RLS
+-- ============================================
+ALTER TABLE public.fal_requests ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own requests
+CREATE POLICY "Users can view own fal requests"
+ON public.fal_requests FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Service role inserts and updates requests (via Edge Functions)
+-- Note: Service role bypasses RLS
+
+-- ============================================
+-- 4. IDEMPOTENT WEBHOOK DELIVERY
+-- ============================================
+
+-- fal-webhook claims a queued request before persisting it, so a retried or
+-- concurrent delivery of the same callback is skipped. Claims older than a few
+-- minutes are treated as abandoned (the function crashed mid-delivery).
+ALTER TABLE public.fal_requests
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+-- One image per batch slot. If a slot was stored twice the first row stays;
+-- the others move to an archive table (with their storage paths) for support
+-- to review, since they may have been shared.
+CREATE TABLE IF NOT EXISTS public.images_duplicate_archive (
+  LIKE public.images INCLUDING DEFAULTS,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Service role only
+ALTER TABLE public.images_duplicate_archive ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+  v_archived INT;
+BEGIN
+  WITH duplicates AS (
+    DELETE FROM public.images a
+    USING public.images b
+    WHERE a.generation_batch_id = b.generation_batch_id
+      AND a.image_index = b.image_index
+      AND (a.created_at, a.id) > (b.created_at, b.id)
+    RETURNING a.*
+  )
+  INSERT INTO public.images_duplicate_archive
+  SELECT * FROM duplicates;
+
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+  IF v_archived > 0 THEN
+    RAISE NOTICE 'Archived % duplicate batch images to images_duplicate_archive', v_archived;
+  END IF;
+END $$;
+
+ALTER TABLE public.images
+DROP CONSTRAINT IF EXISTS images_generation_slot_key;
+ALTER TABLE public.images
+ADD CONSTRAINT images_generation_slot_key UNIQUE (generation_batch_id, image_index);
+
+-- Appending the same URL twice is a no-op, so a re-delivered slot isn't listed twice
+CREATE OR REPLACE FUNCTION public.append_generation_image(
+  p_generation_id UUID,
+  p_image_url TEXT,
+  p_mark_complete BOOLEAN DEFAULT FALSE
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.generations
+  SET
+    image_urls = CASE
+      WHEN p_image_url = ANY(image_urls) THEN image_urls
+      ELSE array_append(image_urls, p_image_url)
+    END,
+    status = CASE WHEN p_mark_complete THEN 'completed' ELSE 'in_progress' END
+  WHERE id = p_generation_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- DONE: fal.ai request tracking ready
+-- ============================================
@@ -0,0 +1,40 @@
+-- Migration: Enable Realtime for generation progress
+--
+-- The results screen subscribes to a generation batch instead of holding
+-- generate-single requests open, so the rows it listens to must be published
+-- to Supabase Realtime. Realtime respects RLS, so users only receive changes
+-- for their own images, generations and fal requests.
+--
+-- Changes:
+-- 1. Add images, generations and fal_requests to the supabase_realtime publication
+-- 2. Send full rows on UPDATE so status changes carry the filtered columns
+
+-- ============================================
+-- 1. ADD TABLES TO REALTIME PUBLICATION
+-- ============================================
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['images', 'generations', 'fal_requests']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
+
+-- ============================================
+-- 2. REPLICA IDENTITY FOR UPDATE EVENTS
+-- ============================================
+ALTER TABLE public.generations REPLICA IDENTITY FULL;
+ALTER TABLE public.fal_requests REPLICA IDENTITY FULL;
+
+-- ============================================
+-- DONE: Generation progress available over Realtime
+-- ============================================
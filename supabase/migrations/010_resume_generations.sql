@@ -0,0 +1,28 @@
+-- Migration: Resume in-flight generations
+--
+-- When the app is killed mid-generation the batch is left pending/in_progress.
+-- The app lists these unfinished generations and lets the user reopen them and
+-- request any variation slots that were lost.
+--
+-- Changes:
+-- 1. Track which variation slots each session has requested
+-- 2. Index for listing a user's unfinished generations
+
+-- ============================================
+-- 1. ADD REQUESTED_INDEXES TO GENERATION_SESSIONS
+-- ============================================
+
+-- Slots already requested; re-requesting one is only allowed if it was lost
+ALTER TABLE public.generation_sessions
+ADD COLUMN IF NOT EXISTS requested_indexes INTEGER[] DEFAULT '{}';
+
+-- ============================================
+-- 2. INDEX FOR UNFINISHED GENERATIONS
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_generations_user_unfinished
+ON public.generations(user_id, created_at DESC)
+WHERE status IN ('pending', 'in_progress');
+
+-- ============================================
+-- DONE: Unfinished generations can be resumed
+-- ============================================
@@ -0,0 +1,202 @@
+-- Migration: Automatic credit refunds for failed generation batches
+--
+-- reserveGenerationSession charges one credit up front. When a batch ends
+-- without producing a single image (every variation failed, or the session
+-- expired before anything was persisted) the credit is now returned in the same
+-- transaction that marks the generation failed.
+--
+-- Batches that produced at least one image are not refunded; they are marked
+-- completed once nothing is left in flight.
+--
+-- Changes:
+-- 1. Create credit_refunds audit table (one refund per generation)
+-- 2. fail_generation_with_refund(): mark failed + refund atomically
+-- 3. cleanup_expired_sessions(): settle abandoned batches with refunds
+-- 4. Run cleanup every minute via pg_cron when available
+
+-- ============================================
+-- 1. CREATE CREDIT_REFUNDS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.credit_refunds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  generation_id UUID REFERENCES public.generations(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  is_free BOOLEAN NOT NULL,                -- Refunded to free_credits instead of image_credits
+  credits INTEGER NOT NULL DEFAULT 1,
+  reason TEXT NOT NULL CHECK (reason IN ('all_variations_failed', 'session_expired')),
+  details JSONB DEFAULT '{}'::jsonb,       -- Failed variations and errors, for support
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for support lookups by user
+CREATE INDEX IF NOT EXISTS idx_credit_refunds_user
+ON public.credit_refunds(user_id, created_at DESC);
+
+ALTER TABLE public.credit_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own refunds
+CREATE POLICY "Users can view own refunds"
+ON public.credit_refunds FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Service role inserts refunds (via functions below)
+-- Note: Service role bypasses RLS
+
+-- ============================================
+-- 2. FUNCTION: Mark generation failed and refund its credit
+-- ============================================
+
+-- Returns TRUE if a credit was refunded. Does nothing (returns FALSE) if the
+-- batch produced an image, still has requests queued on fal.ai, is already
+-- completed, or was already refunded.
+CREATE OR REPLACE FUNCTION public.fail_generation_with_refund(
+  p_generation_id UUID,
+  p_reason TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_generation RECORD;
+  v_details JSONB;
+BEGIN
+  -- Lock the generation so concurrent callers can't double refund
+  SELECT id, user_id, status, is_free_generation
+  INTO v_generation
+  FROM public.generations
+  WHERE id = p_generation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_generation.status = 'completed' THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.images WHERE generation_batch_id = p_generation_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.fal_requests
+    WHERE generation_id = p_generation_id AND status = 'queued'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.generations
+  SET status = 'failed'
+  WHERE id = p_generation_id;
+
+  -- No further variations may be requested against a refunded batch
+  DELETE FROM public.generation_sessions
+  WHERE generation_id = p_generation_id;
+
+  SELECT jsonb_build_object(
+    'failed_variations',
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'variation_index', variation_index,
+      'model_id', model_id,
+      'error', error
+    ) ORDER BY variation_index), '[]'::jsonb)
+  )
+  INTO v_details
+  FROM public.fal_requests
+  WHERE generation_id = p_generation_id AND status = 'failed';
+
+  INSERT INTO public.credit_refunds (user_id, generation_id, is_free, credits, reason, details)
+  VALUES (v_generation.user_id, p_generation_id, COALESCE(v_generation.is_free_generation, FALSE), 1, p_reason, v_details)
+  ON CONFLICT (generation_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Return the credit to the pool it was taken from
+  IF COALESCE(v_generation.is_free_generation, FALSE) THEN
+    UPDATE public.credits
+    SET free_credits = free_credits + 1,
+        total_generations = GREATEST(total_generations - 1, 0),
+        updated_at = NOW()
+    WHERE user_id = v_generation.user_id;
+  ELSE
+    UPDATE public.credits
+    SET image_credits = image_credits + 1,
+        total_generations = GREATEST(total_generations - 1, 0),
+        updated_at = NOW()
+    WHERE user_id = v_generation.user_id;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only edge functions (service role) may trigger refunds
+REVOKE EXECUTE ON FUNCTION public.fail_generation_with_refund(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. UPDATE FUNCTION: Cleanup expired sessions
+-- ============================================
+
+-- Settles batches nothing more can arrive for:
+-- - fal.ai requests whose webhook never came are failed after 15 minutes
+-- - batches with images are marked completed
+-- - batches without images are failed and refunded
+CREATE OR REPLACE FUNCTION public.cleanup_expired_sessions()
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+  v_generation RECORD;
+BEGIN
+  UPDATE public.fal_requests
+  SET status = 'failed',
+      error = 'No webhook received',
+      completed_at = NOW()
+  WHERE status = 'queued'
+    AND created_at < NOW() - INTERVAL '15 minutes';
+
+  -- Delete expired sessions
+  DELETE FROM public.generation_sessions
+  WHERE expires_at < NOW();
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  FOR v_generation IN
+    SELECT g.id
+    FROM public.generations g
+    WHERE g.status IN ('pending', 'in_progress')
+      AND g.created_at < NOW() - INTERVAL '5 minutes'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.generation_sessions s WHERE s.generation_id = g.id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.fal_requests r
+        WHERE r.generation_id = g.id AND r.status = 'queued'
+      )
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM public.images WHERE generation_batch_id = v_generation.id
+    ) THEN
+      UPDATE public.generations
+      SET status = 'completed'
+      WHERE id = v_generation.id;
+    ELSE
+      PERFORM public.fail_generation_with_refund(v_generation.id, 'session_expired');
+    END IF;
+  END LOOP;
+
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 4. SCHEDULE CLEANUP (if pg_cron is enabled)
+-- ============================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'cleanup-expired-sessions',
+      '* * * * *',
+      'SELECT public.cleanup_expired_sessions()'
+    );
+  END IF;
+END $$;
+
+-- ============================================
+-- DONE: Failed batches are refunded automatically
+-- ============================================
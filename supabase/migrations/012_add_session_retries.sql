@@ -0,0 +1,112 @@
+-- Migration: Bounded per-variation retries within a generation session
+--
+-- A single failed variation can be retried via the retry-variation function
+-- without spending a new credit. Retries are capped per session so a session
+-- can't be used for unlimited generations.
+--
+-- A slot being generated can't be retried. Queued slots are visible through
+-- fal_requests, but a slot that generate-single is polling has no row there,
+-- so the session also records which slots have a request in flight.
+--
+-- Changes:
+-- 1. Track the number of retries used by each session, and slots in flight
+-- 2. claim_session_slot RPC to record a requested slot atomically
+-- 3. claim_session_retry / release_session_slot RPCs
+
+-- ============================================
+-- 1. ADD RETRY_COUNT TO GENERATION_SESSIONS
+-- ============================================
+
+-- Retries used so far; the cap is enforced by Edge Functions (MAX_SESSION_RETRIES)
+ALTER TABLE public.generation_sessions
+ADD COLUMN IF NOT EXISTS retry_count INTEGER NOT NULL DEFAULT 0;
+
+-- Variation index -> when its current request started. Entries are cleared
+-- when the request finishes or is queued on fal.ai; an entry older than the
+-- Edge Function time limit is from a crashed call and no longer counts.
+ALTER TABLE public.generation_sessions
+ADD COLUMN IF NOT EXISTS slots_in_flight JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================
+-- 2. FUNCTION: Claim a variation slot
+-- ============================================
+
+-- Adds the slot to requested_indexes unless it's already there. The row lock
+-- serializes parallel generate-single calls, so each slot is claimed once and
+-- no claim overwrites another. Returns the number of requested slots, or NULL
+-- if the slot was already claimed (or the session is gone).
+CREATE OR REPLACE FUNCTION public.claim_session_slot(
+  p_session_id UUID,
+  p_variation_index INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_requested_count INTEGER;
+BEGIN
+  UPDATE public.generation_sessions
+  SET
+    requested_indexes = array_append(COALESCE(requested_indexes, '{}'), p_variation_index),
+    completed_images = COALESCE(array_length(requested_indexes, 1), 0) + 1,
+    slots_in_flight = slots_in_flight || jsonb_build_object(p_variation_index::TEXT, NOW())
+  WHERE id = p_session_id
+    AND NOT (p_variation_index = ANY(COALESCE(requested_indexes, '{}')))
+  RETURNING completed_images INTO v_requested_count;
+
+  RETURN v_requested_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Edge Functions only (service role)
+REVOKE EXECUTE ON FUNCTION public.claim_session_slot(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. FUNCTIONS: Retry and release a slot
+-- ============================================
+
+-- Uses one retry on the slot: compare-and-set on retry_count so concurrent
+-- retries can't both pass, and refused while the slot has a request in
+-- flight. Extends the session to at least p_expires_at. Returns whether the
+-- retry was granted.
+CREATE OR REPLACE FUNCTION public.claim_session_retry(
+  p_session_id UUID,
+  p_variation_index INTEGER,
+  p_retry_count INTEGER,
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.generation_sessions
+  SET
+    retry_count = retry_count + 1,
+    expires_at = GREATEST(expires_at, p_expires_at),
+    slots_in_flight = slots_in_flight || jsonb_build_object(p_variation_index::TEXT, NOW())
+  WHERE id = p_session_id
+    AND retry_count = p_retry_count
+    AND COALESCE(
+      (slots_in_flight ->> p_variation_index::TEXT)::TIMESTAMPTZ > NOW() - INTERVAL '3 minutes',
+      FALSE
+    ) = FALSE;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The slot's request finished or is now tracked in fal_requests
+CREATE OR REPLACE FUNCTION public.release_session_slot(
+  p_generation_id UUID,
+  p_variation_index INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.generation_sessions
+  SET slots_in_flight = slots_in_flight - p_variation_index::TEXT
+  WHERE generation_id = p_generation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.claim_session_retry(UUID, INTEGER, INTEGER, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_session_slot(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- DONE: Session retries tracked
+-- ============================================
@@ -0,0 +1,479 @@
+-- Migration: Append-only credit ledger
+--
+-- credits.free_credits/image_credits were mutated in place with no record of
+-- why a balance changed. Every change is now an immutable row in
+-- credit_transactions, and the counters in `credits` are only written by
+-- apply_credit_transaction() in the same statement that inserts the row, so
+-- they act as a cache of the ledger for existing readers.
+--
+-- Changes:
+-- 1. Create credit_transactions table (append-only)
+-- 2. credit_balances view derived from the ledger
+-- 3. apply_credit_transaction(): the single writer of credit balances
+-- 4. decrement_credits() / add_credits() record ledger entries
+-- 5. grant_credits(): admin grants, referral bonuses and expiries
+-- 6. fail_generation_with_refund() records a refund entry
+-- 7. Signup bonus recorded in the ledger
+-- 8. Backfill from purchases, generations and refunds
+-- 9. Block updates and direct deletes of ledger entries
+
+-- ============================================
+-- 1. CREATE CREDIT_TRANSACTIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.credit_transactions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN (
+    'purchase',
+    'generation',
+    'refund',
+    'admin_grant',
+    'referral_bonus',
+    'expiry',
+    'signup_bonus',
+    'adjustment'     -- Opening balances from the backfill and manual corrections
+  )),
+  pool TEXT NOT NULL CHECK (pool IN ('free', 'paid')), -- free_credits or image_credits
+  amount INTEGER NOT NULL CHECK (amount <> 0),         -- Signed: negative spends credits
+  balance_after INTEGER NOT NULL,                      -- Pool balance after this entry
+  generation_id UUID,                                  -- No FK: history outlives deleted generations
+  purchase_id UUID,                                    -- No FK: history outlives deleted purchases
+  description TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for the profile history list
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_user
+ON public.credit_transactions(user_id, created_at DESC);
+
+-- A generation is charged and refunded at most once, a purchase credited once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_generation_kind
+ON public.credit_transactions(generation_id, kind)
+WHERE generation_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_purchase_kind
+ON public.credit_transactions(purchase_id, kind)
+WHERE purchase_id IS NOT NULL;
+
+ALTER TABLE public.credit_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own history
+CREATE POLICY "Users can view own credit transactions"
+ON public.credit_transactions FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Entries are only written by the functions below (service role / SECURITY DEFINER)
+REVOKE INSERT, UPDATE, DELETE ON public.credit_transactions FROM anon, authenticated;
+
+-- ============================================
+-- 2. VIEW: Balances derived from the ledger
+-- ============================================
+
+-- security_invoker so the ledger's RLS applies to the caller
+CREATE OR REPLACE VIEW public.credit_balances
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  COALESCE(SUM(amount) FILTER (WHERE pool = 'free'), 0)::INTEGER AS free_credits,
+  COALESCE(SUM(amount) FILTER (WHERE pool = 'paid'), 0)::INTEGER AS image_credits,
+  COALESCE(SUM(amount), 0)::INTEGER AS total_credits,
+  MAX(created_at) AS last_transaction_at
+FROM public.credit_transactions
+GROUP BY user_id;
+
+GRANT SELECT ON public.credit_balances TO authenticated;
+
+-- ============================================
+-- 3. FUNCTION: Apply a credit transaction
+-- ============================================
+
+-- Inserts the ledger entry and updates the cached pool counter together.
+-- Raises check_violation if the entry would take the pool below zero.
+-- Returns the pool balance after the entry.
+CREATE OR REPLACE FUNCTION public.apply_credit_transaction(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_pool TEXT,
+  p_amount INT,
+  p_generation_id UUID DEFAULT NULL,
+  p_purchase_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INT AS $$
+DECLARE
+  v_balance INT;
+BEGIN
+  INSERT INTO public.credits (user_id, free_credits, image_credits)
+  VALUES (p_user_id, 0, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  IF p_pool = 'free' THEN
+    UPDATE public.credits
+    SET free_credits = COALESCE(free_credits, 0) + p_amount,
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING free_credits INTO v_balance;
+  ELSE
+    UPDATE public.credits
+    SET image_credits = COALESCE(image_credits, 0) + p_amount,
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING image_credits INTO v_balance;
+  END IF;
+
+  INSERT INTO public.credit_transactions (
+    user_id, kind, pool, amount, balance_after,
+    generation_id, purchase_id, description, metadata
+  )
+  VALUES (
+    p_user_id, p_kind, p_pool, p_amount, v_balance,
+    p_generation_id, p_purchase_id, p_description, COALESCE(p_metadata, '{}'::jsonb)
+  );
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_credit_transaction(UUID, TEXT, TEXT, INT, UUID, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 4. UPDATE FUNCTIONS: decrement_credits / add_credits
+-- ============================================
+
+-- Signature changes (new optional parameter), so drop the old versions
+DROP FUNCTION IF EXISTS public.decrement_credits(UUID, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.add_credits(UUID, INT);
+
+-- p_generation_id links the charge to the generation it paid for
+CREATE OR REPLACE FUNCTION public.decrement_credits(
+  p_user_id UUID,
+  p_preset TEXT,
+  p_style TEXT,
+  p_generation_id UUID DEFAULT NULL
+)
+RETURNS TABLE(success BOOLEAN, is_free BOOLEAN, remaining_free INT, remaining_paid INT) AS $$
+DECLARE
+  v_free_credits INT;
+  v_image_credits INT;
+  v_is_free BOOLEAN := FALSE;
+BEGIN
+  -- Lock the row to prevent race conditions
+  SELECT free_credits, image_credits
+  INTO v_free_credits, v_image_credits
+  FROM public.credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE NOTICE 'No credits row found for user %', p_user_id;
+    RETURN QUERY SELECT FALSE, FALSE, 0, 0;
+    RETURN;
+  END IF;
+
+  v_free_credits := COALESCE(v_free_credits, 0);
+  v_image_credits := COALESCE(v_image_credits, 0);
+
+  IF v_free_credits <= 0 AND v_image_credits <= 0 THEN
+    RETURN QUERY SELECT FALSE, FALSE, 0, 0;
+    RETURN;
+  END IF;
+
+  -- Use free credits first, then paid
+  IF v_free_credits > 0 THEN
+    v_free_credits := public.apply_credit_transaction(
+      p_user_id, 'generation', 'free', -1, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+    v_is_free := TRUE;
+  ELSE
+    v_image_credits := public.apply_credit_transaction(
+      p_user_id, 'generation', 'paid', -1, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+  END IF;
+
+  UPDATE public.credits
+  SET
+    total_generations = total_generations + 1,
+    last_generation_at = NOW(),
+    last_preset = p_preset,
+    last_style = p_style
+  WHERE user_id = p_user_id;
+
+  RETURN QUERY SELECT TRUE, v_is_free, v_free_credits, v_image_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- p_purchase_id links the entry to the purchases row it came from
+CREATE OR REPLACE FUNCTION public.add_credits(
+  p_user_id UUID,
+  p_credits INT,
+  p_purchase_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM public.apply_credit_transaction(
+    p_user_id, 'purchase', 'paid', p_credits, NULL, p_purchase_id
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 5. FUNCTION: Grant or expire credits
+-- ============================================
+
+-- For support tooling and scheduled jobs (service role only).
+-- Positive amounts for admin_grant/referral_bonus, negative for expiry.
+CREATE OR REPLACE FUNCTION public.grant_credits(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_amount INT,
+  p_pool TEXT DEFAULT 'paid',
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INT AS $$
+BEGIN
+  IF p_kind NOT IN ('admin_grant', 'referral_bonus', 'expiry', 'adjustment') THEN
+    RAISE EXCEPTION 'Unsupported credit transaction kind: %', p_kind;
+  END IF;
+
+  IF (p_kind = 'expiry') <> (p_amount < 0) AND p_kind <> 'adjustment' THEN
+    RAISE EXCEPTION 'Invalid amount % for %', p_amount, p_kind;
+  END IF;
+
+  RETURN public.apply_credit_transaction(
+    p_user_id, p_kind, p_pool, p_amount, NULL, NULL, p_description, p_metadata
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.grant_credits(UUID, TEXT, INT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 6. UPDATE FUNCTION: Refund via the ledger
+-- ============================================
+CREATE OR REPLACE FUNCTION public.fail_generation_with_refund(
+  p_generation_id UUID,
+  p_reason TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_generation RECORD;
+  v_details JSONB;
+BEGIN
+  -- Lock the generation so concurrent callers can't double refund
+  SELECT id, user_id, status, is_free_generation
+  INTO v_generation
+  FROM public.generations
+  WHERE id = p_generation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_generation.status = 'completed' THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.images WHERE generation_batch_id = p_generation_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.fal_requests
+    WHERE generation_id = p_generation_id AND status = 'queued'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.generations
+  SET status = 'failed'
+  WHERE id = p_generation_id;
+
+  -- No further variations may be requested against a refunded batch
+  DELETE FROM public.generation_sessions
+  WHERE generation_id = p_generation_id;
+
+  SELECT jsonb_build_object(
+    'failed_variations',
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'variation_index', variation_index,
+      'model_id', model_id,
+      'error', error
+    ) ORDER BY variation_index), '[]'::jsonb)
+  )
+  INTO v_details
+  FROM public.fal_requests
+  WHERE generation_id = p_generation_id AND status = 'failed';
+
+  INSERT INTO public.credit_refunds (user_id, generation_id, is_free, credits, reason, details)
+  VALUES (v_generation.user_id, p_generation_id, COALESCE(v_generation.is_free_generation, FALSE), 1, p_reason, v_details)
+  ON CONFLICT (generation_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Return the credit to the pool it was taken from
+  PERFORM public.apply_credit_transaction(
+    v_generation.user_id,
+    'refund',
+    CASE WHEN COALESCE(v_generation.is_free_generation, FALSE) THEN 'free' ELSE 'paid' END,
+    1,
+    p_generation_id,
+    NULL,
+    p_reason
+  );
+
+  UPDATE public.credits
+  SET total_generations = GREATEST(total_generations - 1, 0)
+  WHERE user_id = v_generation.user_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 7. SIGNUP BONUS VIA THE LEDGER
+-- ============================================
+
+-- Both signup triggers grant a bonus; whichever runs first wins, as before
+CREATE OR REPLACE FUNCTION public.grant_signup_bonus(p_user_id UUID, p_amount INT)
+RETURNS VOID AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.credit_transactions
+    WHERE user_id = p_user_id AND kind = 'signup_bonus'
+  ) THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.apply_credit_transaction(p_user_id, 'signup_bonus', 'free', p_amount);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.grant_signup_bonus(UUID, INT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Create profile
+  INSERT INTO public.profiles (id, email, full_name, avatar_url)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name'),
+    NEW.raw_user_meta_data->>'avatar_url'
+  );
+
+  -- 1 free generation
+  PERFORM public.grant_signup_bonus(NEW.id, 1);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_credits()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.grant_signup_bonus(NEW.id, 2);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 8. BACKFILL EXISTING HISTORY
+-- ============================================
+
+-- Replays purchases, generations and refunds, then adds an opening
+-- 'adjustment' per pool so the ledger matches the current counters
+-- (covers signup bonuses and manual changes that left no record).
+-- Only runs against an empty ledger.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.credit_transactions) THEN
+    RETURN;
+  END IF;
+
+  CREATE TEMP TABLE credit_backfill ON COMMIT DROP AS
+  SELECT p.user_id, 'purchase'::TEXT AS kind, 'paid'::TEXT AS pool,
+         p.credits_added AS amount, NULL::UUID AS generation_id, p.id AS purchase_id,
+         p.rc_product_id AS description,
+         COALESCE(p.purchased_at, p.created_at) AS created_at
+  FROM public.purchases p
+  JOIN auth.users u ON u.id = p.user_id
+  UNION ALL
+  SELECT g.user_id, 'generation',
+         CASE WHEN COALESCE(g.is_free_generation, FALSE) THEN 'free' ELSE 'paid' END,
+         -1, g.id, NULL,
+         g.preset_id || ' / ' || COALESCE(g.style_id, 'photorealistic'),
+         g.created_at
+  FROM public.generations g
+  JOIN auth.users u ON u.id = g.user_id
+  UNION ALL
+  SELECT r.user_id, 'refund',
+         CASE WHEN r.is_free THEN 'free' ELSE 'paid' END,
+         r.credits, r.generation_id, NULL, r.reason, r.created_at
+  FROM public.credit_refunds r;
+
+  -- Opening balance, dated at account creation
+  INSERT INTO credit_backfill
+  SELECT c.user_id, 'adjustment', pools.pool,
+         pools.current - COALESCE((
+           SELECT SUM(b.amount) FROM credit_backfill b
+           WHERE b.user_id = c.user_id AND b.pool = pools.pool
+         ), 0),
+         NULL, NULL, 'Opening balance',
+         COALESCE(LEAST(c.created_at, (
+           SELECT MIN(b.created_at) FROM credit_backfill b WHERE b.user_id = c.user_id
+         )), NOW()) - INTERVAL '1 second'
+  FROM public.credits c
+  JOIN auth.users u ON u.id = c.user_id
+  CROSS JOIN LATERAL (VALUES
+    ('free', COALESCE(c.free_credits, 0)),
+    ('paid', COALESCE(c.image_credits, 0))
+  ) AS pools(pool, current);
+
+  INSERT INTO public.credit_transactions (
+    user_id, kind, pool, amount, balance_after,
+    generation_id, purchase_id, description, metadata, created_at
+  )
+  SELECT user_id, kind, pool, amount,
+         SUM(amount) OVER (
+           PARTITION BY user_id, pool
+           ORDER BY created_at, kind
+           ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW
+         ),
+         generation_id, purchase_id, description,
+         jsonb_build_object('backfilled', TRUE),
+         created_at
+  FROM credit_backfill
+  WHERE amount <> 0;
+END $$;
+
+-- ============================================
+-- 9. MAKE THE LEDGER APPEND-ONLY
+-- ============================================
+
+-- Created after the backfill; applies to the service role too.
+-- Deletes cascading from auth.users (account deletion) run inside the FK
+-- trigger, so they are still allowed.
+CREATE OR REPLACE FUNCTION public.prevent_credit_transaction_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'credit_transactions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS credit_transactions_append_only ON public.credit_transactions;
+CREATE TRIGGER credit_transactions_append_only
+  BEFORE UPDATE OR DELETE ON public.credit_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_credit_transaction_changes();
+
+-- ============================================
+-- DONE: Credit balances are backed by an append-only ledger
+-- ============================================
@@ -0,0 +1,37 @@
+-- Migration: Credits can only be granted server-side
+--
+-- add_credits was callable from the app with any user ID and amount, and the
+-- credits table let users update (and insert) their own row, so any signed-in
+-- user could mint credits. Purchases are now verified by the verify-purchase
+-- Edge Function (or arrive via revenuecat-webhook), which call add_credits
+-- with the service role.
+--
+-- Changes:
+-- 1. Remove user write policies on credits
+-- 2. Restrict credit functions to the service role
+
+-- ============================================
+-- 1. CREDITS TABLE: READ-ONLY FOR USERS
+-- ============================================
+
+-- From schema.sql; balances change only through apply_credit_transaction()
+DROP POLICY IF EXISTS "Users can update their own credits" ON public.credits;
+DROP POLICY IF EXISTS "Users can update own credits" ON public.credits;
+DROP POLICY IF EXISTS "Service role can insert credits" ON public.credits;
+DROP POLICY IF EXISTS "Users can insert own credits" ON public.credits;
+
+REVOKE INSERT, UPDATE, DELETE ON public.credits FROM anon, authenticated;
+
+-- ============================================
+-- 2. CREDIT FUNCTIONS: SERVICE ROLE ONLY
+-- ============================================
+
+-- Purchases: verify-purchase and revenuecat-webhook
+REVOKE EXECUTE ON FUNCTION public.add_credits(UUID, INT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Spending: reserve-credit (takes any user ID, so users must not call it)
+REVOKE EXECUTE ON FUNCTION public.decrement_credits(UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- DONE: Credit grants are server-side only
+-- ============================================
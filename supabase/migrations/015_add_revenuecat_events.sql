@@ -0,0 +1,204 @@
+-- Migration: Complete RevenueCat webhook record
+--
+-- revenuecat-webhook now stores every event it receives before acting on it,
+-- so events can be replayed and disputes reconciled against what the store
+-- told us. On top of purchases it now handles:
+-- - CANCELLATION with a refund: claws back the purchase's unused credits and
+--   flags the purchases row as refunded
+-- - TRANSFER: moves paid balances (and purchase ownership) between app users
+-- - TEST: acknowledged and stored
+--
+-- Changes:
+-- 1. Create revenuecat_events table (raw payloads)
+-- 2. Refund tracking columns on purchases
+-- 3. New ledger kinds: purchase_refund, transfer
+-- 4. refund_purchase(): claw back unused credits once per purchase
+-- 5. transfer_credits(): move paid balance between users
+
+-- ============================================
+-- 1. CREATE REVENUECAT_EVENTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.revenuecat_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id TEXT NOT NULL UNIQUE,           -- RevenueCat event.id (deliveries are retried)
+  type TEXT NOT NULL,
+  app_user_id TEXT,
+  environment TEXT,
+  payload JSONB NOT NULL,                  -- Full webhook body, for replay
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+  error TEXT,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+-- Index for support lookups by customer
+CREATE INDEX IF NOT EXISTS idx_revenuecat_events_app_user
+ON public.revenuecat_events(app_user_id, received_at DESC);
+
+-- Index for finding events to replay
+CREATE INDEX IF NOT EXISTS idx_revenuecat_events_failed
+ON public.revenuecat_events(received_at)
+WHERE status IN ('received', 'failed');
+
+ALTER TABLE public.revenuecat_events ENABLE ROW LEVEL SECURITY;
+
+-- No policies: only the service role (webhook) reads or writes events
+
+-- ============================================
+-- 2. ADD REFUND COLUMNS TO PURCHASES
+-- ============================================
+ALTER TABLE public.purchases
+ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS credits_clawed_back INTEGER,   -- Unused credits removed on refund
+ADD COLUMN IF NOT EXISTS refund_event_id TEXT;          -- revenuecat_events.event_id
+
+-- ============================================
+-- 3. EXTEND LEDGER KINDS
+-- ============================================
+ALTER TABLE public.credit_transactions
+DROP CONSTRAINT IF EXISTS credit_transactions_kind_check;
+
+ALTER TABLE public.credit_transactions
+ADD CONSTRAINT credit_transactions_kind_check CHECK (kind IN (
+  'purchase',
+  'generation',
+  'refund',
+  'admin_grant',
+  'referral_bonus',
+  'expiry',
+  'signup_bonus',
+  'adjustment',
+  'purchase_refund', -- Store refund of a purchase (negative)
+  'transfer'         -- RevenueCat TRANSFER between app users (signed)
+));
+
+-- ============================================
+-- 4. FUNCTION: Claw back a refunded purchase
+-- ============================================
+
+-- Removes up to the purchase's credits_added from the paid balance; credits
+-- already spent are not recovered. Returns the credits removed, or NULL if the
+-- transaction is unknown. Safe to call again for the same purchase.
+CREATE OR REPLACE FUNCTION public.refund_purchase(
+  p_rc_transaction_id TEXT,
+  p_event_id TEXT
+)
+RETURNS INT AS $$
+DECLARE
+  v_purchase RECORD;
+  v_balance INT;
+  v_clawback INT;
+BEGIN
+  SELECT id, user_id, credits_added, refunded_at, credits_clawed_back
+  INTO v_purchase
+  FROM public.purchases
+  WHERE rc_transaction_id = p_rc_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_purchase.refunded_at IS NOT NULL THEN
+    RETURN COALESCE(v_purchase.credits_clawed_back, 0);
+  END IF;
+
+  -- Lock the balance so a concurrent generation can't spend past it
+  SELECT COALESCE(image_credits, 0)
+  INTO v_balance
+  FROM public.credits
+  WHERE user_id = v_purchase.user_id
+  FOR UPDATE;
+
+  v_clawback := LEAST(v_purchase.credits_added, COALESCE(v_balance, 0));
+
+  IF v_clawback > 0 THEN
+    PERFORM public.apply_credit_transaction(
+      v_purchase.user_id,
+      'purchase_refund',
+      'paid',
+      -v_clawback,
+      NULL,
+      v_purchase.id,
+      'Store refund',
+      jsonb_build_object(
+        'event_id', p_event_id,
+        'credits_added', v_purchase.credits_added,
+        'credits_spent', v_purchase.credits_added - v_clawback
+      )
+    );
+  END IF;
+
+  UPDATE public.purchases
+  SET refunded_at = NOW(),
+      credits_clawed_back = v_clawback,
+      refund_event_id = p_event_id
+  WHERE id = v_purchase.id;
+
+  RETURN v_clawback;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.refund_purchase(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 5. FUNCTION: Transfer paid credits between users
+-- ============================================
+
+-- Moves the whole paid balance and purchase history; free credits stay with
+-- the account they were granted to. Returns the credits moved.
+CREATE OR REPLACE FUNCTION public.transfer_credits(
+  p_from_user_id UUID,
+  p_to_user_id UUID,
+  p_event_id TEXT
+)
+RETURNS INT AS $$
+DECLARE
+  v_balance INT;
+BEGIN
+  IF p_from_user_id = p_to_user_id THEN
+    RETURN 0;
+  END IF;
+
+  -- Lock both rows in a fixed order to avoid deadlocks
+  PERFORM 1
+  FROM public.credits
+  WHERE user_id IN (p_from_user_id, p_to_user_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT COALESCE(image_credits, 0)
+  INTO v_balance
+  FROM public.credits
+  WHERE user_id = p_from_user_id;
+
+  -- Refunds of transferred purchases now apply to the new owner
+  UPDATE public.purchases
+  SET user_id = p_to_user_id
+  WHERE user_id = p_from_user_id;
+
+  IF COALESCE(v_balance, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM public.apply_credit_transaction(
+    p_from_user_id, 'transfer', 'paid', -v_balance, NULL, NULL,
+    'Transferred to another account',
+    jsonb_build_object('event_id', p_event_id, 'to_user_id', p_to_user_id)
+  );
+
+  PERFORM public.apply_credit_transaction(
+    p_to_user_id, 'transfer', 'paid', v_balance, NULL, NULL,
+    'Transferred from another account',
+    jsonb_build_object('event_id', p_event_id, 'from_user_id', p_from_user_id)
+  );
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.transfer_credits(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- DONE: Webhook events are stored and refunds/transfers applied
+-- ============================================
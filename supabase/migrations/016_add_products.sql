@@ -0,0 +1,74 @@
+-- Migration: Server-driven product catalog
+--
+-- Credit amounts were hard-coded in the webhook, the app and the web pricing
+-- block, and had drifted apart. The products table is now the single mapping
+-- from store product IDs to credit type and amount. It is served to the app and
+-- web by the get-catalog Edge Function and read by purchase verification and
+-- revenuecat-webhook, so adding a pack doesn't need an app release.
+--
+-- Changes:
+-- 1. Create products table
+-- 2. Seed existing App Store, Play Store and Stripe packs
+
+-- ============================================
+-- 1. CREATE PRODUCTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.products (
+  id TEXT PRIMARY KEY,                     -- Store product ID (RevenueCat product_id) or web pack ID
+  store TEXT NOT NULL CHECK (store IN ('app_store', 'play_store', 'stripe')),
+  credit_type TEXT NOT NULL DEFAULT 'image' CHECK (credit_type IN ('image', 'video')),
+  credits INTEGER NOT NULL CHECK (credits > 0),
+  label TEXT NOT NULL,
+  display_price TEXT,                      -- Shown when the store can't supply a localized price
+  tier TEXT NOT NULL DEFAULT 'starter' CHECK (tier IN ('starter', 'popular', 'pro')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE, -- Inactive packs are hidden but past purchases still resolve
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for catalog listing
+CREATE INDEX IF NOT EXISTS idx_products_store_active
+ON public.products(store, sort_order)
+WHERE is_active = TRUE;
+
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+
+-- The catalog is public
+CREATE POLICY "Anyone can view active products"
+ON public.products FOR SELECT
+USING (is_active = TRUE);
+
+-- Products are managed with the service role (dashboard / SQL)
+
+DROP TRIGGER IF EXISTS update_products_updated_at ON public.products;
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================
+-- 2. SEED EXISTING PACKS
+-- ============================================
+INSERT INTO public.products (id, store, credit_type, credits, label, display_price, tier, sort_order)
+VALUES
+  -- App Store
+  ('five_token_ios', 'app_store', 'image', 5, '5 Credits', '$1.99', 'starter', 10),
+  ('ten_token_ios', 'app_store', 'image', 10, '10 Credits', NULL, 'popular', 20),
+  ('twentyfive_token_ios', 'app_store', 'image', 25, '25 Credits', NULL, 'pro', 30),
+  ('five_token_test', 'app_store', 'image', 5, '5 Credits (Sandbox)', '$1.99', 'starter', 90),
+  -- Play Store
+  ('five_token_android', 'play_store', 'image', 5, '5 Credits', '$1.99', 'starter', 10),
+  ('ten_token_android', 'play_store', 'image', 10, '10 Credits', NULL, 'popular', 20),
+  ('twentyfive_token_android', 'play_store', 'image', 25, '25 Credits', NULL, 'pro', 30),
+  -- Web (Stripe price IDs are deployment config, see lib/pricing.ts)
+  ('image_sm', 'stripe', 'image', 5, '5 Generation', '$2.99', 'starter', 10),
+  ('image_md', 'stripe', 'image', 10, '10 Generation', '$4.99', 'popular', 20),
+  ('image_lg', 'stripe', 'image', 25, '25 Generation', '$9.99', 'pro', 30),
+  ('video_sm', 'stripe', 'video', 4, '4 Video Generation', '$4.99', 'starter', 40),
+  ('video_md', 'stripe', 'video', 7, '7 Video Generation', '$7.99', 'popular', 50),
+  ('video_lg', 'stripe', 'video', 14, '14 Video Generation', '$14.99', 'pro', 60)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- DONE: Product catalog is server-driven
+-- ============================================
@@ -0,0 +1,544 @@
+-- Migration: Monthly subscription plan
+--
+-- Adds an auto-renewing monthly plan next to the consumable credit packs.
+-- Each renewal grants the plan's monthly allowance into a separate
+-- 'allowance' pool that expires at the end of the billing period; purchased
+-- credits in image_credits never expire. decrement_credits() spends the
+-- allowance first, then free credits, then purchased credits.
+--
+-- Subscription state (active / billing issue / expired) is kept in
+-- subscriptions, one row per user, written by revenuecat-webhook from
+-- INITIAL_PURCHASE, RENEWAL, CANCELLATION, UNCANCELLATION, BILLING_ISSUE
+-- and EXPIRATION events.
+--
+-- Changes:
+-- 1. product_type on products; seed the monthly plan
+-- 2. Create subscriptions table
+-- 3. Allowance columns on credits
+-- 4. Ledger: 'allowance' pool and 'subscription_allowance' kind
+-- 5. apply_credit_transaction() / credit_balances know the allowance pool
+-- 6. grant_subscription_allowance() / expire_allowance()
+-- 7. decrement_credits(): allowance, then free, then paid
+-- 8. Refunds return credits to the pool they came from
+-- 9. Expire lapsed allowances hourly via pg_cron when available
+
+-- ============================================
+-- 1. PRODUCT TYPE + MONTHLY PLAN
+-- ============================================
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS product_type TEXT NOT NULL DEFAULT 'pack'
+  CHECK (product_type IN ('pack', 'subscription'));
+
+COMMENT ON COLUMN public.products.credits IS
+  'Credits per pack, or the monthly allowance for subscriptions';
+
+INSERT INTO public.products (id, store, product_type, credit_type, credits, label, display_price, tier, sort_order)
+VALUES
+  ('monthly_plan_ios', 'app_store', 'subscription', 'image', 30, 'Monthly Plan', '$9.99', 'pro', 5),
+  ('monthly_plan_android', 'play_store', 'subscription', 'image', 30, 'Monthly Plan', '$9.99', 'pro', 5)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- 2. CREATE SUBSCRIPTIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  product_id TEXT NOT NULL,                -- products.id of the current plan
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'billing_issue', 'expired')),
+  will_renew BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE once the user turns off auto-renew
+  current_period_start TIMESTAMPTZ,
+  current_period_end TIMESTAMPTZ,
+  rc_original_transaction_id TEXT,
+  platform TEXT CHECK (platform IN ('ios', 'android', 'web')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own plan status
+CREATE POLICY "Users can view own subscription"
+ON public.subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Only the service role (webhook) writes subscriptions
+REVOKE INSERT, UPDATE, DELETE ON public.subscriptions FROM anon, authenticated;
+
+DROP TRIGGER IF EXISTS update_subscriptions_updated_at ON public.subscriptions;
+CREATE TRIGGER update_subscriptions_updated_at
+  BEFORE UPDATE ON public.subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================
+-- 3. ALLOWANCE COLUMNS ON CREDITS
+-- ============================================
+ALTER TABLE public.credits
+ADD COLUMN IF NOT EXISTS allowance_credits INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS allowance_expires_at TIMESTAMPTZ;
+
+-- Index for the expiry sweep
+CREATE INDEX IF NOT EXISTS idx_credits_allowance_expires
+ON public.credits(allowance_expires_at)
+WHERE allowance_credits > 0;
+
+-- ============================================
+-- 4. EXTEND LEDGER POOLS AND KINDS
+-- ============================================
+ALTER TABLE public.credit_transactions
+DROP CONSTRAINT IF EXISTS credit_transactions_pool_check;
+
+ALTER TABLE public.credit_transactions
+ADD CONSTRAINT credit_transactions_pool_check CHECK (pool IN ('free', 'paid', 'allowance'));
+
+ALTER TABLE public.credit_transactions
+DROP CONSTRAINT IF EXISTS credit_transactions_kind_check;
+
+ALTER TABLE public.credit_transactions
+ADD CONSTRAINT credit_transactions_kind_check CHECK (kind IN (
+  'purchase',
+  'generation',
+  'refund',
+  'admin_grant',
+  'referral_bonus',
+  'expiry',
+  'signup_bonus',
+  'adjustment',
+  'purchase_refund',
+  'transfer',
+  'subscription_allowance' -- Monthly plan allowance for one billing period
+));
+
+-- ============================================
+-- 5. ALLOWANCE POOL IN THE LEDGER WRITER AND VIEW
+-- ============================================
+CREATE OR REPLACE FUNCTION public.apply_credit_transaction(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_pool TEXT,
+  p_amount INT,
+  p_generation_id UUID DEFAULT NULL,
+  p_purchase_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INT AS $$
+DECLARE
+  v_balance INT;
+BEGIN
+  INSERT INTO public.credits (user_id, free_credits, image_credits)
+  VALUES (p_user_id, 0, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  IF p_pool = 'free' THEN
+    UPDATE public.credits
+    SET free_credits = COALESCE(free_credits, 0) + p_amount,
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING free_credits INTO v_balance;
+  ELSIF p_pool = 'allowance' THEN
+    UPDATE public.credits
+    SET allowance_credits = allowance_credits + p_amount,
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING allowance_credits INTO v_balance;
+  ELSE
+    UPDATE public.credits
+    SET image_credits = COALESCE(image_credits, 0) + p_amount,
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING image_credits INTO v_balance;
+  END IF;
+
+  INSERT INTO public.credit_transactions (
+    user_id, kind, pool, amount, balance_after,
+    generation_id, purchase_id, description, metadata
+  )
+  VALUES (
+    p_user_id, p_kind, p_pool, p_amount, v_balance,
+    p_generation_id, p_purchase_id, p_description, COALESCE(p_metadata, '{}'::jsonb)
+  );
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- New column in the middle, so the view is recreated
+DROP VIEW IF EXISTS public.credit_balances;
+
+CREATE VIEW public.credit_balances
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  COALESCE(SUM(amount) FILTER (WHERE pool = 'free'), 0)::INTEGER AS free_credits,
+  COALESCE(SUM(amount) FILTER (WHERE pool = 'paid'), 0)::INTEGER AS image_credits,
+  COALESCE(SUM(amount) FILTER (WHERE pool = 'allowance'), 0)::INTEGER AS allowance_credits,
+  COALESCE(SUM(amount), 0)::INTEGER AS total_credits,
+  MAX(created_at) AS last_transaction_at
+FROM public.credit_transactions
+GROUP BY user_id;
+
+GRANT SELECT ON public.credit_balances TO authenticated;
+
+-- ============================================
+-- 6. FUNCTIONS: Grant and expire the allowance
+-- ============================================
+
+-- Expires whatever is left of the user's allowance. Returns the credits removed.
+CREATE OR REPLACE FUNCTION public.expire_allowance(
+  p_user_id UUID,
+  p_reason TEXT DEFAULT 'Monthly plan period ended'
+)
+RETURNS INT AS $$
+DECLARE
+  v_allowance INT;
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT allowance_credits, allowance_expires_at
+  INTO v_allowance, v_expires_at
+  FROM public.credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF v_allowance > 0 THEN
+    PERFORM public.apply_credit_transaction(
+      p_user_id, 'expiry', 'allowance', -v_allowance, NULL, NULL, p_reason,
+      jsonb_build_object('expires_at', v_expires_at)
+    );
+  END IF;
+
+  UPDATE public.credits
+  SET allowance_expires_at = NULL
+  WHERE user_id = p_user_id;
+
+  RETURN GREATEST(v_allowance, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.expire_allowance(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Starts a new billing period: the unused allowance of the previous period
+-- expires and the new allowance is valid until p_expires_at. p_purchase_id is
+-- the purchases row for the renewal transaction, so each period is granted
+-- at most once. Returns the allowance balance.
+CREATE OR REPLACE FUNCTION public.grant_subscription_allowance(
+  p_user_id UUID,
+  p_purchase_id UUID,
+  p_amount INT,
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS INT AS $$
+DECLARE
+  v_balance INT;
+BEGIN
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid allowance %', p_amount;
+  END IF;
+
+  PERFORM public.expire_allowance(p_user_id, 'Replaced by new monthly plan period');
+
+  v_balance := public.apply_credit_transaction(
+    p_user_id, 'subscription_allowance', 'allowance', p_amount, NULL, p_purchase_id,
+    'Monthly plan',
+    jsonb_build_object('expires_at', p_expires_at)
+  );
+
+  UPDATE public.credits
+  SET allowance_expires_at = p_expires_at
+  WHERE user_id = p_user_id;
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.grant_subscription_allowance(UUID, UUID, INT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Expires every allowance whose period has ended. Returns the users affected.
+CREATE OR REPLACE FUNCTION public.expire_lapsed_allowances()
+RETURNS INT AS $$
+DECLARE
+  v_user_id UUID;
+  v_count INT := 0;
+BEGIN
+  FOR v_user_id IN
+    SELECT user_id FROM public.credits
+    WHERE allowance_credits > 0
+      AND allowance_expires_at IS NOT NULL
+      AND allowance_expires_at <= NOW()
+  LOOP
+    PERFORM public.expire_allowance(v_user_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.expire_lapsed_allowances() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 7. UPDATE FUNCTION: Spend order
+-- ============================================
+
+-- Allowance first (it expires), then free, then purchased credits.
+-- An allowance past its period end is not spendable even before the sweep.
+CREATE OR REPLACE FUNCTION public.decrement_credits(
+  p_user_id UUID,
+  p_preset TEXT,
+  p_style TEXT,
+  p_generation_id UUID DEFAULT NULL
+)
+RETURNS TABLE(success BOOLEAN, is_free BOOLEAN, remaining_free INT, remaining_paid INT) AS $$
+DECLARE
+  v_free_credits INT;
+  v_image_credits INT;
+  v_allowance INT;
+  v_allowance_expires_at TIMESTAMPTZ;
+  v_is_free BOOLEAN := FALSE;
+BEGIN
+  -- Lock the row to prevent race conditions
+  SELECT free_credits, image_credits, allowance_credits, allowance_expires_at
+  INTO v_free_credits, v_image_credits, v_allowance, v_allowance_expires_at
+  FROM public.credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE NOTICE 'No credits row found for user %', p_user_id;
+    RETURN QUERY SELECT FALSE, FALSE, 0, 0;
+    RETURN;
+  END IF;
+
+  v_free_credits := COALESCE(v_free_credits, 0);
+  v_image_credits := COALESCE(v_image_credits, 0);
+
+  IF v_allowance_expires_at IS NULL OR v_allowance_expires_at <= NOW() THEN
+    v_allowance := 0;
+  END IF;
+
+  IF v_allowance <= 0 AND v_free_credits <= 0 AND v_image_credits <= 0 THEN
+    RETURN QUERY SELECT FALSE, FALSE, 0, 0;
+    RETURN;
+  END IF;
+
+  IF v_allowance > 0 THEN
+    PERFORM public.apply_credit_transaction(
+      p_user_id, 'generation', 'allowance', -1, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+  ELSIF v_free_credits > 0 THEN
+    v_free_credits := public.apply_credit_transaction(
+      p_user_id, 'generation', 'free', -1, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+    v_is_free := TRUE;
+  ELSE
+    v_image_credits := public.apply_credit_transaction(
+      p_user_id, 'generation', 'paid', -1, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+  END IF;
+
+  UPDATE public.credits
+  SET
+    total_generations = total_generations + 1,
+    last_generation_at = NOW(),
+    last_preset = p_preset,
+    last_style = p_style
+  WHERE user_id = p_user_id;
+
+  RETURN QUERY SELECT TRUE, v_is_free, v_free_credits, v_image_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 8. REFUNDS BY POOL
+-- ============================================
+
+-- Failed generations are refunded to the pool recorded on their charge. An
+-- allowance that has since expired can't take the credit back, so it is
+-- returned as a purchased credit instead.
+CREATE OR REPLACE FUNCTION public.fail_generation_with_refund(
+  p_generation_id UUID,
+  p_reason TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_generation RECORD;
+  v_details JSONB;
+  v_pool TEXT;
+BEGIN
+  -- Lock the generation so concurrent callers can't double refund
+  SELECT id, user_id, status, is_free_generation
+  INTO v_generation
+  FROM public.generations
+  WHERE id = p_generation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_generation.status = 'completed' THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.images WHERE generation_batch_id = p_generation_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.fal_requests
+    WHERE generation_id = p_generation_id AND status = 'queued'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.generations
+  SET status = 'failed'
+  WHERE id = p_generation_id;
+
+  -- No further variations may be requested against a refunded batch
+  DELETE FROM public.generation_sessions
+  WHERE generation_id = p_generation_id;
+
+  SELECT jsonb_build_object(
+    'failed_variations',
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'variation_index', variation_index,
+      'model_id', model_id,
+      'error', error
+    ) ORDER BY variation_index), '[]'::jsonb)
+  )
+  INTO v_details
+  FROM public.fal_requests
+  WHERE generation_id = p_generation_id AND status = 'failed';
+
+  INSERT INTO public.credit_refunds (user_id, generation_id, is_free, credits, reason, details)
+  VALUES (v_generation.user_id, p_generation_id, COALESCE(v_generation.is_free_generation, FALSE), 1, p_reason, v_details)
+  ON CONFLICT (generation_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT pool INTO v_pool
+  FROM public.credit_transactions
+  WHERE generation_id = p_generation_id AND kind = 'generation';
+
+  -- Charges from before the ledger only recorded is_free_generation
+  v_pool := COALESCE(
+    v_pool,
+    CASE WHEN COALESCE(v_generation.is_free_generation, FALSE) THEN 'free' ELSE 'paid' END
+  );
+
+  IF v_pool = 'allowance' AND NOT EXISTS (
+    SELECT 1 FROM public.credits
+    WHERE user_id = v_generation.user_id AND allowance_expires_at > NOW()
+  ) THEN
+    v_pool := 'paid';
+  END IF;
+
+  PERFORM public.apply_credit_transaction(
+    v_generation.user_id,
+    'refund',
+    v_pool,
+    1,
+    p_generation_id,
+    NULL,
+    p_reason
+  );
+
+  UPDATE public.credits
+  SET total_generations = GREATEST(total_generations - 1, 0)
+  WHERE user_id = v_generation.user_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Store refunds claw back from the pool the purchase was granted into; a
+-- refunded plan period loses its remaining allowance.
+CREATE OR REPLACE FUNCTION public.refund_purchase(
+  p_rc_transaction_id TEXT,
+  p_event_id TEXT
+)
+RETURNS INT AS $$
+DECLARE
+  v_purchase RECORD;
+  v_pool TEXT;
+  v_balance INT;
+  v_clawback INT;
+BEGIN
+  SELECT id, user_id, credits_added, refunded_at, credits_clawed_back
+  INTO v_purchase
+  FROM public.purchases
+  WHERE rc_transaction_id = p_rc_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_purchase.refunded_at IS NOT NULL THEN
+    RETURN COALESCE(v_purchase.credits_clawed_back, 0);
+  END IF;
+
+  SELECT pool INTO v_pool
+  FROM public.credit_transactions
+  WHERE purchase_id = v_purchase.id
+    AND kind IN ('purchase', 'subscription_allowance');
+
+  v_pool := COALESCE(v_pool, 'paid');
+
+  -- Lock the balance so a concurrent generation can't spend past it
+  SELECT CASE WHEN v_pool = 'allowance' THEN allowance_credits ELSE COALESCE(image_credits, 0) END
+  INTO v_balance
+  FROM public.credits
+  WHERE user_id = v_purchase.user_id
+  FOR UPDATE;
+
+  v_clawback := LEAST(v_purchase.credits_added, COALESCE(v_balance, 0));
+
+  IF v_clawback > 0 THEN
+    PERFORM public.apply_credit_transaction(
+      v_purchase.user_id,
+      'purchase_refund',
+      v_pool,
+      -v_clawback,
+      NULL,
+      v_purchase.id,
+      'Store refund',
+      jsonb_build_object(
+        'event_id', p_event_id,
+        'credits_added', v_purchase.credits_added,
+        'credits_spent', v_purchase.credits_added - v_clawback
+      )
+    );
+  END IF;
+
+  UPDATE public.purchases
+  SET refunded_at = NOW(),
+      credits_clawed_back = v_clawback,
+      refund_event_id = p_event_id
+  WHERE id = v_purchase.id;
+
+  RETURN v_clawback;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 9. SCHEDULE ALLOWANCE EXPIRY (if pg_cron is enabled)
+-- ============================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'expire-lapsed-allowances',
+      '0 * * * *',
+      'SELECT public.expire_lapsed_allowances()'
+    );
+  END IF;
+END $$;
+
+-- ============================================
+-- DONE: Monthly plan grants an expiring allowance
+-- ============================================
@@ -0,0 +1,128 @@
+-- Migration: Preset and style registry
+--
+-- Presets and photo styles were hard-coded in _shared/presets.ts (prompts,
+-- order, style model routing) and again in shared/presets.ts for the pickers,
+-- so adding or reordering one needed an Edge Function deploy and an app
+-- release. They now live in the presets and styles tables: generation reads
+-- prompts and model routing from them, and the list-presets Edge Function
+-- serves the enabled entries (without prompts) to the app and web pickers.
+--
+-- Edit rows in the dashboard or with SQL (service role); Edge Functions pick up
+-- changes within a minute and the pickers on their next launch.
+--
+-- Changes:
+-- 1. Create presets table
+-- 2. Create styles table
+-- 3. Seed the existing presets and styles
+
+-- ============================================
+-- 1. CREATE PRESETS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.presets (
+  id TEXT PRIMARY KEY,                     -- Stored on generations.preset_id
+  name TEXT NOT NULL,
+  emoji TEXT NOT NULL,
+  description TEXT,
+  prompt TEXT NOT NULL,                    -- Never sent to clients
+  requires_refs BOOLEAN NOT NULL DEFAULT FALSE,
+  type TEXT NOT NULL DEFAULT 'image' CHECK (type IN ('image', 'video')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE, -- Disabled presets are hidden and can't be generated
+  locales JSONB NOT NULL DEFAULT '{}'::jsonb, -- e.g. {"fr": {"name": "...", "description": "..."}}
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for picker listing
+CREATE INDEX IF NOT EXISTS idx_presets_enabled_order
+ON public.presets(sort_order)
+WHERE is_enabled = TRUE;
+
+ALTER TABLE public.presets ENABLE ROW LEVEL SECURITY;
+
+-- No policies: prompts stay server-side, clients read list-presets
+
+DROP TRIGGER IF EXISTS update_presets_updated_at ON public.presets;
+CREATE TRIGGER update_presets_updated_at
+  BEFORE UPDATE ON public.presets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================
+-- 2. CREATE STYLES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.styles (
+  id TEXT PRIMARY KEY,                     -- Stored on generations.style_id
+  name TEXT NOT NULL,
+  emoji TEXT NOT NULL,
+  prompt TEXT NOT NULL,                    -- Never sent to clients
+  model_id TEXT NOT NULL CHECK (model_id IN (
+    'fal-ai/kling-image/v3/image-to-image',
+    'fal-ai/nano-banana-pro/edit'
+  )),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  locales JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for picker listing
+CREATE INDEX IF NOT EXISTS idx_styles_enabled_order
+ON public.styles(sort_order)
+WHERE is_enabled = TRUE;
+
+ALTER TABLE public.styles ENABLE ROW LEVEL SECURITY;
+
+-- No policies: prompts stay server-side, clients read list-presets
+
+DROP TRIGGER IF EXISTS update_styles_updated_at ON public.styles;
+CREATE TRIGGER update_styles_updated_at
+  BEFORE UPDATE ON public.styles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================
+-- 3. SEED EXISTING PRESETS AND STYLES
+-- ============================================
+INSERT INTO public.presets (id, name, emoji, description, requires_refs, type, sort_order, locales, prompt)
+VALUES
+  ('mapleAutumn', 'Maple Autumn', '🍁', 'Golden fall leaves and cozy Canadian atmosphere', FALSE, 'image', 10, '{"fr": {"name": "Automne des érables"}}',
+   'Immerse the person in a stunning Canadian autumn scene with vibrant fall colors - warm oranges, deep reds, and golden yellows. Create diverse and creative compositions featuring maple leaves, cozy seasonal clothing, and beautiful fall lighting. Vary the settings between forests, lakesides, parks, and charming towns. Experiment with different times of day, weather conditions, and activities. Make each generation unique - from cozy and intimate to grand and cinematic. Capture the magical essence of Canadian fall with creativity and variety.'),
+  ('winterWonderland', 'Winter Wonderland', '❄️', 'Snowy Canadian winter moments', FALSE, 'image', 20, '{"fr": {"name": "Féerie d''hiver"}}',
+   'Place the person in a magical Canadian winter wonderland with pristine snow, frosted trees, and beautiful winter light. Use soft whites, cool blues, and warm accent colors. Be creative with winter elements - snowfall, ice, evergreens, cozy cabins, winter sports. Vary the locations between wilderness, mountains, lakesides, and charming snowy towns. Experiment with different lighting conditions, weather, and activities. Create diverse moods from adventurous and dynamic to cozy and serene. Each generation should feel unique and capture the breathtaking beauty of Canadian winter.'),
+  ('northernLights', 'Northern Lights', '🌌', 'Magical aurora and night sky filters', FALSE, 'image', 30, '{"fr": {"name": "Aurores boréales"}}',
+   'Create breathtaking scenes with the person under the Northern Lights in the Canadian wilderness. Use vibrant aurora colors - greens, purples, blues, and pinks dancing across the night sky. Include stunning night elements like stars, snow, wilderness, water reflections. Be creative with compositions - from dramatic silhouettes to illuminated portraits. Vary the settings between arctic landscapes, frozen lakes, snowy forests, and remote wilderness. Experiment with different aurora patterns, lighting contrasts, and perspectives. Make each generation unique and magical, capturing the awe-inspiring wonder of the aurora borealis in diverse and creative ways.'),
+  ('cottageLife', 'Cottage Life', '🏕️', 'Peaceful lakefront and cozy cabin filters', FALSE, 'image', 40, '{"fr": {"name": "Vie de chalet"}}',
+   'Immerse the person in serene Canadian cottage country with beautiful lakefront settings. Use natural colors - greens, blues, warm wood tones. Create diverse scenes with cottage elements like docks, canoes, Muskoka chairs, cabins, fire pits. Vary the locations between lakesides, forests, and waterfront properties. Experiment with different times of day - sunrise, golden hour, misty mornings, sunset. Include various activities like paddling, relaxing, enjoying nature, or peaceful moments. Make each generation unique with different moods from tranquil and peaceful to adventurous and lively. Capture the essence of Canadian cottage living with creativity and variety.'),
+  ('urbanCanada', 'Urban Canada', '🏙️', 'Modern Canadian city life filter', FALSE, 'image', 50, '{"fr": {"name": "Canada urbain"}}',
+   'Place the person in vibrant Canadian city environments showcasing modern urban life. Feature contemporary architecture, city lights, street art, trendy cafés, bustling markets, iconic buildings, and multicultural neighborhoods. Vary the settings between downtown cores, waterfronts, rooftops, markets, and historic districts. Experiment with different times - daytime energy, blue hour, golden hour, night lights. Include diverse activities like exploring, dining, walking, or enjoying city views. Create unique compositions with varied moods from energetic and dynamic to sophisticated and casual. Capture the cosmopolitan essence of Canadian cities with creativity and diversity.'),
+  ('wildernessExplorer', 'Wilderness Explorer', '🏔️', 'Wild landscapes and adventure scenes', FALSE, 'image', 60, '{"fr": {"name": "Explorateur nature"}}',
+   'Place the person in epic Canadian wilderness settings full of adventure and natural beauty. Feature dramatic landscapes - towering mountains, ancient forests, rushing waterfalls, pristine lakes, rugged trails, and vast national parks. Use stunning natural lighting and powerful compositions. Vary the locations and scale - from intimate forest scenes to grand mountain vistas. Experiment with different weather conditions, times of day, and activities like hiking, exploring, camping, or contemplating nature. Make each generation unique with diverse moods from peaceful and contemplative to dramatic and adventurous. Capture the raw, majestic beauty of Canada''s wild spaces creatively.'),
+  ('editorialCanada', 'Editorial Canada', '📸', 'Stylish portrait filters inspired by Canadian fashion & culture', FALSE, 'image', 70, '{"fr": {"name": "Canada éditorial"}}',
+   'Create magazine-worthy editorial portraits with the person in stylish Canadian settings. Use sophisticated lighting, elegant compositions, and fashion-forward aesthetics. Feature diverse backdrops - modern urban architecture, minimalist nature, cultural landmarks, or unique Canadian locations. Experiment with different styling approaches - contemporary, rustic-elegant, bold, or classic. Vary the lighting from dramatic and moody to soft and refined. Include creative depth of field, interesting angles, and professional techniques. Make each generation unique with varied moods from confident and powerful to sophisticated and casual-chic. Capture the intersection of Canadian culture and contemporary fashion with artistic creativity.'),
+  ('canadianWildlifeParty', 'Canadian Wildlife Party', '🦫', 'Funny and surreal wildlife interactions in Canadian settings', FALSE, 'image', 80, '{"fr": {"name": "Fête de la faune"}}',
+   'Create hilarious and surreal scenes with the person surrounded by a GROUP of 3 to 5 DIFFERENT Canadian animals together in one image — MULTIPLE animals are REQUIRED. Include a mix from: a towering moose (much taller than the person), a knee-height beaver, a person-sized black bear, a cat-sized raccoon, and waist-height Canada geese. All animals must be anatomically correct with realistic proportions relative to each other and the person. Show them in fun group activities — playing hockey together on a frozen pond, gathered around a campfire roasting marshmallows, paddling canoes in a line, having a picnic with poutine, or doing a group photo at a National Park sign. Vary the settings from wilderness to urban to recreational areas. Use good lighting and realistic rendering while embracing the humor and whimsy. Make each generation uniquely funny with different animal combinations, group activities, and comedic situations. Keep it charming and heartwarming while capturing the playful side of Canadian wildlife encounters. IMPORTANT: Always show MULTIPLE different animals together, never just one animal.'),
+  ('ehEdition', 'Eh Edition', '🍁', 'Lighthearted and comedic takes on Canadian stereotypes', FALSE, 'image', 90, '{"fr": {"name": "Édition « Eh »"}}',
+   'Create fun and comedic scenes celebrating Canadian stereotypes with the person in hilarious situations. Feature iconic Canadiana - maple syrup, hockey, Tim Hortons, Mounties, extreme politeness, winter obsessions, apologizing excessively, poutine. Imagine creative scenarios that playfully exaggerate national pride and cultural quirks. Vary the settings and situations - everyday life with excessive Canadian elements, over-the-top polite encounters, winter worship, or hockey fanaticism. Use photorealistic quality while embracing good-natured humor. Make each generation uniquely funny with different stereotypes and comedic situations. Keep it affectionate and lighthearted, capturing Canadian humor with pride and charm.'),
+  ('withus', 'With Us', '👥', 'User appears with two reference hosts in Canadian settings', TRUE, 'image', 100, '{"fr": {"name": "Avec nous"}}',
+   'Create natural and authentic group photos with three people together exploring beautiful Canadian settings. Use balanced compositions with all three faces clearly visible and naturally integrated. Feature diverse Canadian backdrops - stunning nature, vibrant cities, cultural landmarks, or unique locations. Vary the group activities and interactions - outdoor adventures, city exploration, relaxed moments, shared experiences, laughing together. Experiment with different lighting, times of day, and perspectives. Make each generation unique with varied settings, poses, and moods from adventurous and dynamic to relaxed and joyful. Capture the genuine atmosphere of friends experiencing Canada together with creativity and authenticity. Maintain realistic proportions and natural group dynamics.')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.styles (id, name, emoji, model_id, sort_order, locales, prompt)
+VALUES
+  ('photorealistic', 'Photo', '📷', 'fal-ai/kling-image/v3/image-to-image', 10, '{"fr": {"name": "Photo"}}',
+   'The person is in an iconic Canadian landscape — the turquoise lakes of Banff, Rocky Mountain peaks, Maritime coastlines, Parliament Hill, CN Tower skyline, or maple-lined country roads. Natural composition, make the person look happy and relaxed, friendly atmosphere, realistic photo, high-resolution, cinematic detail, even lighting preserving all facial features, natural confident expression, photorealistic portrait quality, be creative. Do not just place the persons face to the picture. Blend the person into the picture with right proportions.'),
+  ('cartoon', 'Cartoon', '🎨', 'fal-ai/nano-banana-pro/edit', 20, '{"fr": {"name": "Dessin animé"}}',
+   'The person is in a vibrant Canadian cartoon world — friendly Mounties in the background, cheerful moose and beavers as sidekicks, Tim Hortons-style cafés, totem poles, maple leaf banners, and quirky Canadian landmarks. Vibrant cartoon illustration style, animated character design, make the person look happy and cheerful, friendly atmosphere, colorful and expressive, high-quality digital art, even lighting preserving all facial features, natural confident expression, cartoon portrait quality with clean lines and bold colors, be creative. Do not just place the persons face to the picture. Blend the person into the cartoon scene with right proportions and consistent art style.'),
+  ('vintage50s', '50s Vibe', '📺', 'fal-ai/kling-image/v3/image-to-image', 30, '{"fr": {"name": "Années 50"}}',
+   'The person is in a 1950s Canadian scene — retro diners with bilingual English-French signs, Canadian Pacific Railway stations, classic ski lodges in the Laurentians, period Montreal or Toronto streetscapes, vintage Hudson''s Bay Company storefronts. Authentic 1950s vintage aesthetic, retro color grading with slightly faded warm tones, subtle film grain and vignette, period-appropriate styling, nostalgic atmosphere, vintage photo quality resembling old photographs from the era, natural happy expression, friendly atmosphere, be creative. Do not just place the persons face to the picture. Blend the person into the vintage scene with right proportions and authentic period feel.'),
+  ('cinematic', 'Cinematic', '🎬', 'fal-ai/kling-image/v3/image-to-image', 40, '{"fr": {"name": "Cinéma"}}',
+   'The person is in a dramatic Canadian setting — vast Rocky Mountain ranges, misty Pacific Northwest rainforests, frozen Arctic tundra, stormy Atlantic coastlines, or moody urban cityscapes of Vancouver, Montreal, or Toronto at night. Dramatic cinematic look, moody atmospheric lighting, rich color grading with deep shadows and highlights, film-like quality with shallow depth of field, epic composition, movie poster aesthetic, professional color correction, natural confident expression, friendly atmosphere, be creative. Do not just place the persons face to the picture. Blend the person into the cinematic scene with right proportions and dramatic impact.'),
+  ('oilPainting', 'Oil Paint', '🖼️', 'fal-ai/nano-banana-pro/edit', 50, '{"fr": {"name": "Peinture à l''huile"}}',
+   'The person is in a Canadian wilderness scene inspired by the Group of Seven — bold autumn forests with fiery reds and oranges, northern lakes reflecting dramatic skies, rugged Canadian Shield rock formations, windswept Georgian Bay pines, and vivid prairie sunsets. Rendered as a classical oil painting, visible brush strokes and rich texture, traditional painting techniques, warm color palette with depth, artistic interpretation while maintaining likeness, museum-quality portrait style, natural happy expression, friendly atmosphere, fine art quality, be creative. Do not just place the persons face to the picture. Blend the person into the painted scene with right proportions and artistic style.'),
+  ('watercolor', 'Watercolor', '💧', 'fal-ai/nano-banana-pro/edit', 60, '{"fr": {"name": "Aquarelle"}}',
+   'The person is in a dreamy Canadian scene — misty Muskoka lakes at dawn, Vancouver cherry blossoms in spring, Quebec City rooftops during gentle snowfall, Prairie wildflower meadows stretching to the horizon, or Prince Edward Island red shorelines. Painted in soft watercolor technique, delicate color washes and gentle blending, translucent layers with artistic flow, light and airy atmosphere, painterly edges and soft details, natural happy expression, friendly atmosphere, fine watercolor art quality, be creative. Do not just place the persons face to the picture. Blend the person into the watercolor scene with right proportions and artistic style.')
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- DONE: Presets and styles are data
+-- ============================================
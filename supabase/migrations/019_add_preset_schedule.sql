@@ -0,0 +1,28 @@
+-- Migration: Seasonal and time-limited presets
+--
+-- Presets can now be scheduled: a preset with starts_at/ends_at is only listed
+-- by list-presets, and only accepted for generation, inside that window. Open
+-- ends (NULL) mean "from the beginning" / "until disabled". list-presets also
+-- marks presets as "new" shortly after they start and "ending soon" shortly
+-- before they end.
+--
+-- Changes:
+-- 1. starts_at / ends_at on presets
+
+-- ============================================
+-- 1. ADD SCHEDULE COLUMNS TO PRESETS
+-- ============================================
+ALTER TABLE public.presets
+ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ,   -- Hidden and rejected before this
+ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ;     -- Hidden and rejected from this on
+
+ALTER TABLE public.presets
+DROP CONSTRAINT IF EXISTS presets_schedule_check;
+
+ALTER TABLE public.presets
+ADD CONSTRAINT presets_schedule_check
+CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at);
+
+-- ============================================
+-- DONE: Presets can be scheduled
+-- ============================================
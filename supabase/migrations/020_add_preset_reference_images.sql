@@ -0,0 +1,60 @@
+-- Migration: Reference images for presets
+--
+-- Presets with requires_refs (e.g. "With Us") put the user in a photo with
+-- other people. Those people's photos are stored server-side in the private
+-- preset-references bucket and listed here; edge functions sign them and send
+-- them to the model after the user's photo. Such presets are always routed to
+-- a model that accepts multiple input images, and are hidden and rejected
+-- until at least one reference image is enabled.
+--
+-- Changes:
+-- 1. preset_reference_images table
+-- 2. Storage bucket setup (documentation)
+
+-- ============================================
+-- 1. CREATE PRESET_REFERENCE_IMAGES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.preset_reference_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  preset_id TEXT NOT NULL REFERENCES public.presets(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,                    -- Path in the preset-references bucket
+  label TEXT,                                    -- Who is pictured, for admins
+  sort_order INTEGER NOT NULL DEFAULT 0,         -- Order after the user's photo
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(preset_id, storage_path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_preset_reference_images_preset
+ON public.preset_reference_images(preset_id, sort_order);
+
+-- Service role only: reference photos are never exposed to clients
+ALTER TABLE public.preset_reference_images ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 2. STORAGE BUCKET: preset-references
+-- ============================================
+
+-- Note: Storage buckets must be created via Supabase Dashboard or API
+-- The following is documentation for manual setup:
+
+/*
+Create 'preset-references' bucket in Supabase Dashboard > Storage:
+- Bucket name: preset-references
+- Public bucket: NO (edge functions hand fal.ai short-lived signed URLs)
+- File size limit: 5MB
+- Allowed MIME types: image/jpeg, image/png, image/webp
+
+No storage policies: only the service role reads or writes this bucket.
+
+Then register each uploaded photo, e.g. for "With Us":
+
+INSERT INTO public.preset_reference_images (preset_id, storage_path, label, sort_order)
+VALUES
+  ('withus', 'withus/host-1.jpg', 'Host 1', 10),
+  ('withus', 'withus/host-2.jpg', 'Host 2', 20);
+*/
+
+-- ============================================
+-- DONE: Presets can carry reference images
+-- ============================================
@@ -0,0 +1,35 @@
+-- Migration: Friends' photos as extra generation references
+--
+-- Users can add up to 3 photos of friends or a partner to a generation. They
+-- are stored on the session like the user's own photo and sent to the model
+-- after it, so the result shows everyone together. The generation keeps them
+-- next to input_image_url.
+--
+-- Changes:
+-- 1. friend_image_urls on generation_sessions
+-- 2. friend_image_urls on generations
+
+-- ============================================
+-- 1. ADD FRIEND_IMAGE_URLS TO GENERATION_SESSIONS
+-- ============================================
+
+-- The cap is also enforced by reserve-credit (MAX_FRIEND_IMAGES)
+ALTER TABLE public.generation_sessions
+ADD COLUMN IF NOT EXISTS friend_image_urls TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.generation_sessions
+DROP CONSTRAINT IF EXISTS generation_sessions_friend_images_check;
+
+ALTER TABLE public.generation_sessions
+ADD CONSTRAINT generation_sessions_friend_images_check
+CHECK (cardinality(friend_image_urls) <= 3);
+
+-- ============================================
+-- 2. ADD FRIEND_IMAGE_URLS TO GENERATIONS
+-- ============================================
+ALTER TABLE public.generations
+ADD COLUMN IF NOT EXISTS friend_image_urls TEXT[] NOT NULL DEFAULT '{}';
+
+-- ============================================
+-- DONE: Generations can include friends' photos
+-- ============================================
@@ -0,0 +1,47 @@
+-- Migration: Custom free-text prompt preset
+--
+-- Adds a "Custom" preset whose scene comes from the user's own text instead
+-- of a stored prompt. Edge functions moderate the text (length limit and
+-- blocklist, see _shared/moderation.ts) before spending a credit, then use it
+-- in place of the preset prompt with the usual face preservation and style
+-- instructions. The text is kept on the generation so it can be reused.
+--
+-- Changes:
+-- 1. allows_custom_prompt on presets, and the "custom" preset
+-- 2. custom_prompt on generation_sessions and generations
+
+-- ============================================
+-- 1. CUSTOM PROMPT PRESET
+-- ============================================
+ALTER TABLE public.presets
+ADD COLUMN IF NOT EXISTS allows_custom_prompt BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- prompt is unused for custom presets; the user's text replaces it
+INSERT INTO public.presets (id, name, emoji, description, requires_refs, type, sort_order, locales, prompt, allows_custom_prompt)
+VALUES
+  ('custom', 'Custom', '✏️', 'User describes their own scene', FALSE, 'image', 110,
+   '{"fr": {"name": "Personnalisé"}}', '', TRUE)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- 2. ADD CUSTOM_PROMPT TO SESSIONS AND GENERATIONS
+-- ============================================
+
+-- Normalized, moderated text; the length cap is also enforced by edge
+-- functions (CUSTOM_PROMPT_MAX_LENGTH)
+ALTER TABLE public.generation_sessions
+ADD COLUMN IF NOT EXISTS custom_prompt TEXT
+CHECK (custom_prompt IS NULL OR char_length(custom_prompt) <= 300);
+
+ALTER TABLE public.generations
+ADD COLUMN IF NOT EXISTS custom_prompt TEXT
+CHECK (custom_prompt IS NULL OR char_length(custom_prompt) <= 300);
+
+-- Recent custom prompts per user, for reuse on the Generate screen
+CREATE INDEX IF NOT EXISTS idx_generations_user_custom_prompt
+ON public.generations(user_id, created_at DESC)
+WHERE custom_prompt IS NOT NULL;
+
+-- ============================================
+-- DONE: Custom prompts available
+-- ============================================
@@ -0,0 +1,66 @@
+-- Migration: Moderation status on generated images
+--
+-- Generated images now pass a moderation stage (_shared/moderation.ts) before
+-- they are stored. Only approved images can be shared to the public feed;
+-- flagged images, and images no provider could check, stay private.
+--
+-- Users could previously set any column on their own images, so moderation
+-- columns are locked down: clients may only change is_public, and images are
+-- only inserted by edge functions (service role).
+--
+-- Changes:
+-- 1. moderation_status / moderation_reason on images
+-- 2. Block is_public for images that aren't approved
+-- 3. Restrict client writes on images
+
+-- ============================================
+-- 1. ADD MODERATION COLUMNS TO IMAGES
+-- ============================================
+-- Images from before moderation existed were already shareable, so existing
+-- rows get 'approved'; new rows default to 'pending' until checked
+ALTER TABLE public.images
+ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved'
+  CHECK (moderation_status IN ('approved', 'flagged', 'pending')),
+ADD COLUMN IF NOT EXISTS moderation_reason TEXT;   -- Provider categories, for review
+
+ALTER TABLE public.images
+ALTER COLUMN moderation_status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_images_moderation
+ON public.images(created_at DESC)
+WHERE moderation_status <> 'approved';
+
+-- ============================================
+-- 2. ONLY APPROVED IMAGES CAN BE PUBLIC
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_image_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_public AND NEW.moderation_status <> 'approved' THEN
+    RAISE EXCEPTION 'IMAGE_NOT_SHAREABLE: image % is %', NEW.id, NEW.moderation_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_image_moderation ON public.images;
+CREATE TRIGGER enforce_image_moderation
+BEFORE INSERT OR UPDATE OF is_public, moderation_status ON public.images
+FOR EACH ROW EXECUTE FUNCTION public.enforce_image_moderation();
+
+-- ============================================
+-- 3. RESTRICT CLIENT WRITES ON IMAGES
+-- ============================================
+
+-- Images are inserted by generate-single / fal-webhook with the service role
+DROP POLICY IF EXISTS "Users can insert own images" ON public.images;
+REVOKE INSERT ON public.images FROM anon, authenticated;
+
+-- The sharing toggle is the only client update
+REVOKE UPDATE ON public.images FROM anon, authenticated;
+GRANT UPDATE (is_public) ON public.images TO authenticated;
+
+-- ============================================
+-- DONE: Image moderation enforced
+-- ============================================
@@ -0,0 +1,90 @@
+-- Migration: Variation prompts per preset
+--
+-- Every batch used the same four lighting variations ("morning light, golden
+-- hour warmth", ...), which don't fit presets like Northern Lights at night.
+-- Presets can now define their own variation set, optionally overridden for a
+-- preset+style pair; the number of variations is the number of images in a
+-- batch. Presets without a set keep the four lighting variations.
+--
+-- The variations are copied onto the session when the credit is reserved, so
+-- registry edits never change a batch in flight.
+--
+-- Changes:
+-- 1. variations on presets
+-- 2. preset_style_variations table for preset+style overrides
+-- 3. variation_prompts on generation_sessions, image_count on generations
+-- 4. Seed variation sets
+
+-- ============================================
+-- 1. ADD VARIATIONS TO PRESETS
+-- ============================================
+
+-- NULL uses the default lighting set; the size limit matches MAX_VARIATIONS
+ALTER TABLE public.presets
+ADD COLUMN IF NOT EXISTS variations TEXT[]
+CHECK (variations IS NULL OR cardinality(variations) BETWEEN 1 AND 6);
+
+-- ============================================
+-- 2. CREATE PRESET_STYLE_VARIATIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.preset_style_variations (
+  preset_id TEXT NOT NULL REFERENCES public.presets(id) ON DELETE CASCADE,
+  style_id TEXT NOT NULL REFERENCES public.styles(id) ON DELETE CASCADE,
+  variations TEXT[] NOT NULL CHECK (cardinality(variations) BETWEEN 1 AND 6),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (preset_id, style_id)
+);
+
+DROP TRIGGER IF EXISTS update_preset_style_variations_updated_at ON public.preset_style_variations;
+CREATE TRIGGER update_preset_style_variations_updated_at
+BEFORE UPDATE ON public.preset_style_variations
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Service role only, like presets and styles
+ALTER TABLE public.preset_style_variations ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 3. VARIATIONS ON SESSIONS, IMAGE COUNT ON GENERATIONS
+-- ============================================
+
+-- One prompt per variation slot; image_count is its length
+ALTER TABLE public.generation_sessions
+ADD COLUMN IF NOT EXISTS variation_prompts TEXT[];
+
+-- Lets the app size the results grid when reopening a batch
+ALTER TABLE public.generations
+ADD COLUMN IF NOT EXISTS image_count INTEGER NOT NULL DEFAULT 4;
+
+-- ============================================
+-- 4. SEED VARIATION SETS
+-- ============================================
+UPDATE public.presets
+SET variations = ARRAY[
+  'green aurora overhead, clear starry night',
+  'vivid green and purple aurora reflected in a still lake',
+  'aurora over snowy spruce trees, deep blue twilight',
+  'faint aurora glow on the horizon, Milky Way above'
+]
+WHERE id = 'northernLights' AND variations IS NULL;
+
+UPDATE public.presets
+SET variations = ARRAY[
+  'fresh snowfall, soft overcast light',
+  'crisp blue-sky morning, sparkling snow',
+  'evening with warm glowing string lights on the snow'
+]
+WHERE id = 'winterWonderland' AND variations IS NULL;
+
+-- Cartoon Northern Lights reads best with bolder, simpler skies
+INSERT INTO public.preset_style_variations (preset_id, style_id, variations)
+VALUES
+  ('northernLights', 'cartoon', ARRAY[
+    'swirling bright green aurora ribbons, big cartoon stars',
+    'pink and green aurora over a cozy cabin with glowing windows'
+  ])
+ON CONFLICT (preset_id, style_id) DO NOTHING;
+
+-- ============================================
+-- DONE: Variations configurable per preset
+-- ============================================
@@ -0,0 +1,232 @@
+-- Migration: User-selectable batch size and aspect ratio
+--
+-- Every batch was four square images for one credit. Users can now pick an
+-- aspect ratio (1:1, 4:5 for Instagram, 9:16 for stories) and how many images
+-- they want, up to the preset's variation set. Each image costs
+-- CREDITS_PER_IMAGE (_shared/credits.ts), so larger batches cost more.
+--
+-- A charge is a single ledger entry per generation, so a multi-credit batch is
+-- taken from the first pool that covers all of it, and a refund returns what
+-- was charged to that pool. Allowance credits whose period has ended are not
+-- refunded.
+--
+-- Changes:
+-- 1. aspect_ratio on generation_sessions and generations, credit_cost on generations
+-- 2. decrement_credits takes an amount
+-- 3. fail_generation_with_refund refunds the charged amount to its pool
+
+-- ============================================
+-- 1. BATCH OPTIONS ON SESSIONS AND GENERATIONS
+-- ============================================
+ALTER TABLE public.generation_sessions
+ADD COLUMN IF NOT EXISTS aspect_ratio TEXT NOT NULL DEFAULT '1:1'
+  CHECK (aspect_ratio IN ('1:1', '4:5', '9:16'));
+
+-- Lets the app lay out the results grid when reopening a batch
+ALTER TABLE public.generations
+ADD COLUMN IF NOT EXISTS aspect_ratio TEXT NOT NULL DEFAULT '1:1'
+  CHECK (aspect_ratio IN ('1:1', '4:5', '9:16')),
+ADD COLUMN IF NOT EXISTS credit_cost INTEGER NOT NULL DEFAULT 1
+  CHECK (credit_cost > 0);
+
+-- ============================================
+-- 2. UPDATE FUNCTION: Charge an amount
+-- ============================================
+
+-- Replaced rather than overloaded so callers can't hit the old signature
+DROP FUNCTION IF EXISTS public.decrement_credits(UUID, TEXT, TEXT, UUID);
+
+-- Allowance first (it expires), then free, then purchased credits; the whole
+-- amount comes from one pool. An allowance past its period end is not
+-- spendable even before the sweep.
+CREATE OR REPLACE FUNCTION public.decrement_credits(
+  p_user_id UUID,
+  p_preset TEXT,
+  p_style TEXT,
+  p_generation_id UUID DEFAULT NULL,
+  p_amount INT DEFAULT 1
+)
+RETURNS TABLE(success BOOLEAN, is_free BOOLEAN, remaining_free INT, remaining_paid INT) AS $$
+DECLARE
+  v_free_credits INT;
+  v_image_credits INT;
+  v_allowance INT;
+  v_allowance_expires_at TIMESTAMPTZ;
+  v_is_free BOOLEAN := FALSE;
+BEGIN
+  IF p_amount IS NULL OR p_amount < 1 THEN
+    RAISE EXCEPTION 'Invalid credit amount %', p_amount;
+  END IF;
+
+  -- Lock the row to prevent race conditions
+  SELECT free_credits, image_credits, allowance_credits, allowance_expires_at
+  INTO v_free_credits, v_image_credits, v_allowance, v_allowance_expires_at
+  FROM public.credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE NOTICE 'No credits row found for user %', p_user_id;
+    RETURN QUERY SELECT FALSE, FALSE, 0, 0;
+    RETURN;
+  END IF;
+
+  v_free_credits := COALESCE(v_free_credits, 0);
+  v_image_credits := COALESCE(v_image_credits, 0);
+
+  IF v_allowance_expires_at IS NULL OR v_allowance_expires_at <= NOW() THEN
+    v_allowance := 0;
+  END IF;
+
+  IF v_allowance >= p_amount THEN
+    PERFORM public.apply_credit_transaction(
+      p_user_id, 'generation', 'allowance', -p_amount, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+  ELSIF v_free_credits >= p_amount THEN
+    v_free_credits := public.apply_credit_transaction(
+      p_user_id, 'generation', 'free', -p_amount, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+    v_is_free := TRUE;
+  ELSIF v_image_credits >= p_amount THEN
+    v_image_credits := public.apply_credit_transaction(
+      p_user_id, 'generation', 'paid', -p_amount, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+  ELSE
+    RETURN QUERY SELECT FALSE, FALSE, v_free_credits, v_image_credits;
+    RETURN;
+  END IF;
+
+  UPDATE public.credits
+  SET
+    total_generations = total_generations + 1,
+    last_generation_at = NOW(),
+    last_preset = p_preset,
+    last_style = p_style
+  WHERE user_id = p_user_id;
+
+  RETURN QUERY SELECT TRUE, v_is_free, v_free_credits, v_image_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.decrement_credits(UUID, TEXT, TEXT, UUID, INT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. REFUND THE CHARGED AMOUNT
+-- ============================================
+
+-- Same as 017, but the refund matches the generation's charge instead of
+-- always being one credit. A charge to an allowance that has since expired or
+-- been replaced by a new period is not refunded: moving it to the paid pool
+-- would turn expiring credits into permanent ones.
+CREATE OR REPLACE FUNCTION public.fail_generation_with_refund(
+  p_generation_id UUID,
+  p_reason TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_generation RECORD;
+  v_details JSONB;
+  v_pool TEXT;
+  v_amount INT;
+  v_charged_at TIMESTAMPTZ;
+BEGIN
+  -- Lock the generation so concurrent callers can't double refund
+  SELECT id, user_id, status, is_free_generation, credit_cost
+  INTO v_generation
+  FROM public.generations
+  WHERE id = p_generation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_generation.status = 'completed' THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.images WHERE generation_batch_id = p_generation_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.fal_requests
+    WHERE generation_id = p_generation_id AND status = 'queued'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT pool, -amount, created_at INTO v_pool, v_amount, v_charged_at
+  FROM public.credit_transactions
+  WHERE generation_id = p_generation_id AND kind = 'generation';
+
+  -- Charges from before the ledger only recorded is_free_generation
+  v_amount := COALESCE(v_amount, v_generation.credit_cost, 1);
+  v_pool := COALESCE(
+    v_pool,
+    CASE WHEN COALESCE(v_generation.is_free_generation, FALSE) THEN 'free' ELSE 'paid' END
+  );
+
+  UPDATE public.generations
+  SET status = 'failed'
+  WHERE id = p_generation_id;
+
+  -- No further variations may be requested against a refunded batch
+  DELETE FROM public.generation_sessions
+  WHERE generation_id = p_generation_id;
+
+  -- The allowance period the credits came from is over
+  IF v_pool = 'allowance' AND (
+    NOT EXISTS (
+      SELECT 1 FROM public.credits
+      WHERE user_id = v_generation.user_id AND allowance_expires_at > NOW()
+    ) OR EXISTS (
+      SELECT 1 FROM public.credit_transactions
+      WHERE user_id = v_generation.user_id
+        AND kind = 'subscription_allowance'
+        AND created_at > v_charged_at
+    )
+  ) THEN
+    v_amount := 0;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'failed_variations',
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'variation_index', variation_index,
+      'model_id', model_id,
+      'error', error
+    ) ORDER BY variation_index), '[]'::jsonb),
+    'allowance_expired',
+    v_amount = 0
+  )
+  INTO v_details
+  FROM public.fal_requests
+  WHERE generation_id = p_generation_id AND status = 'failed';
+
+  INSERT INTO public.credit_refunds (user_id, generation_id, is_free, credits, reason, details)
+  VALUES (v_generation.user_id, p_generation_id, COALESCE(v_generation.is_free_generation, FALSE), v_amount, p_reason, v_details)
+  ON CONFLICT (generation_id) DO NOTHING;
+
+  IF NOT FOUND OR v_amount = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  PERFORM public.apply_credit_transaction(
+    v_generation.user_id,
+    'refund',
+    v_pool,
+    v_amount,
+    p_generation_id,
+    NULL,
+    p_reason
+  );
+
+  UPDATE public.credits
+  SET total_generations = GREATEST(total_generations - 1, 0)
+  WHERE user_id = v_generation.user_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- DONE: Batch size and aspect ratio
+-- ============================================
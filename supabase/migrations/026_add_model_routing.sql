@@ -0,0 +1,74 @@
+-- Migration: Model fallback chains per style
+--
+-- Each style was routed to exactly one model, so a fal.ai error or timeout
+-- on that model failed the slot. Styles now list an ordered chain of models
+-- in style_model_routes; generation moves down the chain when a model fails.
+-- Styles without routes keep using styles.model_id alone.
+--
+-- The model that produced an image is recorded on it, so quality and failure
+-- rates (with fal_requests) can be compared per model.
+--
+-- Changes:
+-- 1. style_model_routes table
+-- 2. model_id on images
+-- 3. Seed a fallback for every style
+
+-- ============================================
+-- 1. CREATE STYLE_MODEL_ROUTES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.style_model_routes (
+  style_id TEXT NOT NULL REFERENCES public.styles(id) ON DELETE CASCADE,
+  model_id TEXT NOT NULL CHECK (model_id IN (
+    'fal-ai/kling-image/v3/image-to-image',
+    'fal-ai/nano-banana-pro/edit'
+  )),
+  priority INTEGER NOT NULL DEFAULT 0,     -- Lowest is tried first
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (style_id, model_id)
+);
+
+DROP TRIGGER IF EXISTS update_style_model_routes_updated_at ON public.style_model_routes;
+CREATE TRIGGER update_style_model_routes_updated_at
+BEFORE UPDATE ON public.style_model_routes
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Service role only, like presets and styles
+ALTER TABLE public.style_model_routes ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 2. ADD MODEL_ID TO IMAGES
+-- ============================================
+
+-- NULL for images generated before routing was recorded
+ALTER TABLE public.images
+ADD COLUMN IF NOT EXISTS model_id TEXT;
+
+-- Index for per-model comparisons
+CREATE INDEX IF NOT EXISTS idx_images_model
+ON public.images(model_id, created_at DESC);
+
+-- ============================================
+-- 3. SEED ROUTES
+-- ============================================
+
+-- The style's own model first, the other model as its fallback
+INSERT INTO public.style_model_routes (style_id, model_id, priority)
+SELECT id, model_id, 0
+FROM public.styles
+ON CONFLICT (style_id, model_id) DO NOTHING;
+
+INSERT INTO public.style_model_routes (style_id, model_id, priority)
+SELECT
+  id,
+  CASE model_id
+    WHEN 'fal-ai/kling-image/v3/image-to-image' THEN 'fal-ai/nano-banana-pro/edit'
+    ELSE 'fal-ai/kling-image/v3/image-to-image'
+  END,
+  1
+FROM public.styles
+ON CONFLICT (style_id, model_id) DO NOTHING;
+
+-- ============================================
+-- DONE: Model fallback chains
+-- ============================================
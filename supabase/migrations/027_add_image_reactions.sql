@@ -0,0 +1,123 @@
+-- Migration: Likes on public feed images
+--
+-- Users can like images shared to the public feed. Likes live in
+-- image_reactions (one per user per image) and are only written through the
+-- toggle_image_like RPC. images.like_count is kept in step by a trigger so
+-- the feed and gallery read counts without aggregating.
+--
+-- Changes:
+-- 1. image_reactions table
+-- 2. like_count on images, maintained by trigger
+-- 3. toggle_image_like RPC
+
+-- ============================================
+-- 1. CREATE IMAGE_REACTIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.image_reactions (
+  image_id UUID REFERENCES public.images(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reaction TEXT NOT NULL DEFAULT 'like' CHECK (reaction IN ('like')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (image_id, user_id)
+);
+
+-- Index for "which of these images did I like"
+CREATE INDEX IF NOT EXISTS idx_image_reactions_user
+ON public.image_reactions(user_id, created_at DESC);
+
+ALTER TABLE public.image_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own reactions" ON public.image_reactions;
+CREATE POLICY "Users can view own reactions"
+ON public.image_reactions FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Owners can view reactions on their images" ON public.image_reactions;
+CREATE POLICY "Owners can view reactions on their images"
+ON public.image_reactions FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.images
+    WHERE images.id = image_reactions.image_id AND images.user_id = auth.uid()
+  )
+);
+
+-- Writes only through toggle_image_like
+REVOKE INSERT, UPDATE, DELETE ON public.image_reactions FROM anon, authenticated;
+
+-- ============================================
+-- 2. ADD LIKE_COUNT TO IMAGES
+-- ============================================
+ALTER TABLE public.images
+ADD COLUMN IF NOT EXISTS like_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.update_image_like_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.images
+    SET like_count = like_count + 1
+    WHERE id = NEW.image_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.images
+  SET like_count = GREATEST(like_count - 1, 0)
+  WHERE id = OLD.image_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_image_like_count ON public.image_reactions;
+CREATE TRIGGER update_image_like_count
+AFTER INSERT OR DELETE ON public.image_reactions
+FOR EACH ROW EXECUTE FUNCTION public.update_image_like_count();
+
+-- ============================================
+-- 3. FUNCTION: Toggle a like
+-- ============================================
+
+-- Likes the image for the calling user, or removes their like. Only public
+-- images can be liked; unliking always works so likes on images that were
+-- unshared can still be taken back.
+CREATE OR REPLACE FUNCTION public.toggle_image_like(p_image_id UUID)
+RETURNS TABLE(liked BOOLEAN, like_count INT) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_liked BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  DELETE FROM public.image_reactions
+  WHERE image_id = p_image_id AND user_id = v_user_id;
+
+  IF FOUND THEN
+    v_liked := FALSE;
+  ELSE
+    IF NOT EXISTS (
+      SELECT 1 FROM public.images WHERE id = p_image_id AND is_public = TRUE
+    ) THEN
+      RAISE EXCEPTION 'IMAGE_NOT_FOUND' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    INSERT INTO public.image_reactions (image_id, user_id)
+    VALUES (p_image_id, v_user_id)
+    ON CONFLICT (image_id, user_id) DO NOTHING;
+    v_liked := TRUE;
+  END IF;
+
+  RETURN QUERY
+  SELECT v_liked, i.like_count
+  FROM public.images i
+  WHERE i.id = p_image_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.toggle_image_like(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.toggle_image_like(UUID) TO authenticated;
+
+-- ============================================
+-- DONE: Image likes
+-- ============================================
@@ -0,0 +1,89 @@
+-- Migration: Single-query public feed with cursor pagination
+--
+-- The feed fetched a page of images and then a second profiles query to
+-- stitch authors in. get_public_feed now returns everything a feed card
+-- needs (author, preset/style labels, likes) in one call.
+--
+-- Paging moves from OFFSET to a keyset cursor on (created_at, id): pass the
+-- last row's created_at and id to get the next page. Offsets shifted when
+-- images were shared mid-scroll, duplicating or skipping items.
+--
+-- Changes:
+-- 1. Feed index covering the cursor
+-- 2. Replace get_public_feed
+
+-- ============================================
+-- 1. FEED INDEX
+-- ============================================
+
+-- Replaces the created_at-only index so id breaks ties
+DROP INDEX IF EXISTS public.idx_images_public_feed;
+CREATE INDEX IF NOT EXISTS idx_images_public_feed
+ON public.images(created_at DESC, id DESC)
+WHERE is_public = TRUE;
+
+-- ============================================
+-- 2. FUNCTION: Get public feed
+-- ============================================
+
+-- Return type changes, so the old offset version has to go
+DROP FUNCTION IF EXISTS public.get_public_feed(INT, INT);
+
+-- Newest first. Pass NULL cursor for the first page. liked is for the
+-- calling user (FALSE when signed out).
+CREATE OR REPLACE FUNCTION public.get_public_feed(
+  p_limit INT DEFAULT 20,
+  p_cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  image_url TEXT,
+  preset_id TEXT,
+  style_id TEXT,
+  created_at TIMESTAMPTZ,
+  preset_name TEXT,
+  preset_emoji TEXT,
+  style_name TEXT,
+  user_name TEXT,
+  user_avatar_url TEXT,
+  like_count INTEGER,
+  liked BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    i.id,
+    i.user_id,
+    i.image_url,
+    i.preset_id,
+    i.style_id,
+    i.created_at,
+    pr.name AS preset_name,
+    pr.emoji AS preset_emoji,
+    s.name AS style_name,
+    NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), '') AS user_name,
+    p.avatar_url AS user_avatar_url,
+    i.like_count,
+    EXISTS (
+      SELECT 1 FROM public.image_reactions r
+      WHERE r.image_id = i.id AND r.user_id = auth.uid()
+    ) AS liked
+  FROM public.images i
+  LEFT JOIN public.profiles p ON p.id = i.user_id
+  LEFT JOIN public.presets pr ON pr.id = i.preset_id
+  LEFT JOIN public.styles s ON s.id = i.style_id
+  WHERE i.is_public = TRUE
+    AND (
+      p_cursor_created_at IS NULL
+      OR (i.created_at, i.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY i.created_at DESC, i.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================
+-- DONE: Cursor feed
+-- ============================================
@@ -0,0 +1,209 @@
+-- Migration: Feed modes (latest, trending, following, per preset)
+--
+-- The feed was newest-first only. It can now be narrowed to creators the
+-- user follows or to a single preset, and ranked by trending score.
+--
+-- Trending ranks recent images by likes decayed with age. Scores are taken
+-- at a fixed p_as_of time (the first page's request time), counting only
+-- likes made by then, so new likes don't reorder pages already loaded. An
+-- unlike can still lower a score and bring an image back on a later page;
+-- the client drops repeats by id.
+--
+-- Changes:
+-- 1. follows table
+-- 2. Index for per-preset feeds
+-- 3. Replace get_public_feed with following/preset filters
+-- 4. get_trending_feed
+
+-- ============================================
+-- 1. CREATE FOLLOWS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.follows (
+  follower_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  following_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+-- Index for "who follows this creator"
+CREATE INDEX IF NOT EXISTS idx_follows_following
+ON public.follows(following_id, created_at DESC);
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own follows" ON public.follows;
+CREATE POLICY "Users can view own follows"
+ON public.follows FOR SELECT
+USING (auth.uid() = follower_id OR auth.uid() = following_id);
+
+DROP POLICY IF EXISTS "Users can follow" ON public.follows;
+CREATE POLICY "Users can follow"
+ON public.follows FOR INSERT
+WITH CHECK (auth.uid() = follower_id);
+
+DROP POLICY IF EXISTS "Users can unfollow" ON public.follows;
+CREATE POLICY "Users can unfollow"
+ON public.follows FOR DELETE
+USING (auth.uid() = follower_id);
+
+-- ============================================
+-- 2. PER-PRESET FEED INDEX
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_images_public_preset
+ON public.images(preset_id, created_at DESC, id DESC)
+WHERE is_public = TRUE;
+
+-- ============================================
+-- 3. FUNCTION: Get public feed (newest first)
+-- ============================================
+
+-- Adds filters, so the 028 signature is replaced
+DROP FUNCTION IF EXISTS public.get_public_feed(INT, TIMESTAMPTZ, UUID);
+
+-- p_following_only limits to creators the caller follows; p_preset_id to
+-- one preset. Cursor as before: the last row's created_at and id.
+CREATE OR REPLACE FUNCTION public.get_public_feed(
+  p_limit INT DEFAULT 20,
+  p_cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_following_only BOOLEAN DEFAULT FALSE,
+  p_preset_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  image_url TEXT,
+  preset_id TEXT,
+  style_id TEXT,
+  created_at TIMESTAMPTZ,
+  preset_name TEXT,
+  preset_emoji TEXT,
+  style_name TEXT,
+  user_name TEXT,
+  user_avatar_url TEXT,
+  like_count INTEGER,
+  liked BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    i.id,
+    i.user_id,
+    i.image_url,
+    i.preset_id,
+    i.style_id,
+    i.created_at,
+    pr.name AS preset_name,
+    pr.emoji AS preset_emoji,
+    s.name AS style_name,
+    NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), '') AS user_name,
+    p.avatar_url AS user_avatar_url,
+    i.like_count,
+    EXISTS (
+      SELECT 1 FROM public.image_reactions r
+      WHERE r.image_id = i.id AND r.user_id = auth.uid()
+    ) AS liked
+  FROM public.images i
+  LEFT JOIN public.profiles p ON p.id = i.user_id
+  LEFT JOIN public.presets pr ON pr.id = i.preset_id
+  LEFT JOIN public.styles s ON s.id = i.style_id
+  WHERE i.is_public = TRUE
+    AND (p_preset_id IS NULL OR i.preset_id = p_preset_id)
+    AND (
+      NOT p_following_only
+      OR EXISTS (
+        SELECT 1 FROM public.follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = i.user_id
+      )
+    )
+    AND (
+      p_cursor_created_at IS NULL
+      OR (i.created_at, i.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY i.created_at DESC, i.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================
+-- 4. FUNCTION: Get trending feed
+-- ============================================
+
+-- Images from the week before p_as_of, ranked by
+--   likes_at_p_as_of / (age_hours + 2) ^ 1.5
+-- so a fresh image needs few likes to rank and old ones fade. Pass the same
+-- p_as_of for every page, with the last row's score and id as the cursor.
+CREATE OR REPLACE FUNCTION public.get_trending_feed(
+  p_as_of TIMESTAMPTZ,
+  p_limit INT DEFAULT 20,
+  p_cursor_score DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_preset_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  image_url TEXT,
+  preset_id TEXT,
+  style_id TEXT,
+  created_at TIMESTAMPTZ,
+  preset_name TEXT,
+  preset_emoji TEXT,
+  style_name TEXT,
+  user_name TEXT,
+  user_avatar_url TEXT,
+  like_count INTEGER,
+  liked BOOLEAN,
+  score DOUBLE PRECISION
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT
+      i.*,
+      ((
+        SELECT COUNT(*) FROM public.image_reactions ir
+        WHERE ir.image_id = i.id AND ir.created_at <= p_as_of
+      ) / POWER(
+        GREATEST(EXTRACT(EPOCH FROM (p_as_of - i.created_at)), 0) / 3600.0 + 2,
+        1.5
+      ))::DOUBLE PRECISION AS trend_score
+    FROM public.images i
+    WHERE i.is_public = TRUE
+      AND i.created_at <= p_as_of
+      AND i.created_at > p_as_of - INTERVAL '7 days'
+      AND (p_preset_id IS NULL OR i.preset_id = p_preset_id)
+  )
+  SELECT
+    r.id,
+    r.user_id,
+    r.image_url,
+    r.preset_id,
+    r.style_id,
+    r.created_at,
+    pr.name AS preset_name,
+    pr.emoji AS preset_emoji,
+    s.name AS style_name,
+    NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), '') AS user_name,
+    p.avatar_url AS user_avatar_url,
+    r.like_count,
+    EXISTS (
+      SELECT 1 FROM public.image_reactions ir
+      WHERE ir.image_id = r.id AND ir.user_id = auth.uid()
+    ) AS liked,
+    r.trend_score AS score
+  FROM ranked r
+  LEFT JOIN public.profiles p ON p.id = r.user_id
+  LEFT JOIN public.presets pr ON pr.id = r.preset_id
+  LEFT JOIN public.styles s ON s.id = r.style_id
+  WHERE p_cursor_score IS NULL
+    OR (r.trend_score, r.id) < (p_cursor_score, p_cursor_id)
+  ORDER BY r.trend_score DESC, r.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================
+-- DONE: Feed modes
+-- ============================================
@@ -0,0 +1,247 @@
+-- Migration: Public creator profiles and feed privacy
+--
+-- Feed cards now open a creator's profile: their public images, bio,
+-- follower counts and a follow button. Users can opt out with
+-- profiles.hide_from_feed, which removes their images from every feed and
+-- hides their profile page from everyone else.
+--
+-- Changes:
+-- 1. hide_from_feed on profiles; hidden profile rows are not visible to others
+-- 2. Public images of hidden users are not visible to others
+-- 3. Replace get_public_feed with a creator filter
+-- 4. Exclude hidden users from get_trending_feed
+-- 5. get_public_profile
+
+-- ============================================
+-- 1. ADD HIDE_FROM_FEED TO PROFILES
+-- ============================================
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS hide_from_feed BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Replaces the 006 policy (USING TRUE). Feed and profile pages read author
+-- details through the SECURITY DEFINER RPCs below, which apply the same rule.
+DROP POLICY IF EXISTS "Anyone can view public profile info" ON public.profiles;
+CREATE POLICY "Anyone can view public profile info"
+ON public.profiles FOR SELECT
+USING (hide_from_feed = FALSE OR auth.uid() = id);
+
+-- SECURITY DEFINER so the image policy sees hidden profiles too
+CREATE OR REPLACE FUNCTION public.is_hidden_from_feed(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = p_user_id AND hide_from_feed = TRUE
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================
+-- 2. PUBLIC IMAGE POLICY
+-- ============================================
+
+-- Also keeps hidden users' images out of the feed's Realtime inserts
+DROP POLICY IF EXISTS "Anyone can view public images" ON public.images;
+CREATE POLICY "Anyone can view public images"
+ON public.images FOR SELECT
+USING (is_public = TRUE AND NOT public.is_hidden_from_feed(user_id));
+
+-- ============================================
+-- 3. FUNCTION: Get public feed (newest first)
+-- ============================================
+
+-- Adds the creator filter, so the 029 signature is replaced
+DROP FUNCTION IF EXISTS public.get_public_feed(INT, TIMESTAMPTZ, UUID, BOOLEAN, TEXT);
+
+-- p_user_id limits to one creator (their profile page). A hidden creator's
+-- images are only returned to themselves.
+CREATE OR REPLACE FUNCTION public.get_public_feed(
+  p_limit INT DEFAULT 20,
+  p_cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_following_only BOOLEAN DEFAULT FALSE,
+  p_preset_id TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  image_url TEXT,
+  preset_id TEXT,
+  style_id TEXT,
+  created_at TIMESTAMPTZ,
+  preset_name TEXT,
+  preset_emoji TEXT,
+  style_name TEXT,
+  user_name TEXT,
+  user_avatar_url TEXT,
+  like_count INTEGER,
+  liked BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    i.id,
+    i.user_id,
+    i.image_url,
+    i.preset_id,
+    i.style_id,
+    i.created_at,
+    pr.name AS preset_name,
+    pr.emoji AS preset_emoji,
+    s.name AS style_name,
+    NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), '') AS user_name,
+    p.avatar_url AS user_avatar_url,
+    i.like_count,
+    EXISTS (
+      SELECT 1 FROM public.image_reactions r
+      WHERE r.image_id = i.id AND r.user_id = auth.uid()
+    ) AS liked
+  FROM public.images i
+  LEFT JOIN public.profiles p ON p.id = i.user_id
+  LEFT JOIN public.presets pr ON pr.id = i.preset_id
+  LEFT JOIN public.styles s ON s.id = i.style_id
+  WHERE i.is_public = TRUE
+    AND (COALESCE(p.hide_from_feed, FALSE) = FALSE OR i.user_id = auth.uid())
+    AND (p_user_id IS NULL OR i.user_id = p_user_id)
+    AND (p_preset_id IS NULL OR i.preset_id = p_preset_id)
+    AND (
+      NOT p_following_only
+      OR EXISTS (
+        SELECT 1 FROM public.follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = i.user_id
+      )
+    )
+    AND (
+      p_cursor_created_at IS NULL
+      OR (i.created_at, i.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY i.created_at DESC, i.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================
+-- 4. FUNCTION: Get trending feed
+-- ============================================
+
+-- Same ranking as 029, without hidden creators
+CREATE OR REPLACE FUNCTION public.get_trending_feed(
+  p_as_of TIMESTAMPTZ,
+  p_limit INT DEFAULT 20,
+  p_cursor_score DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_preset_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  image_url TEXT,
+  preset_id TEXT,
+  style_id TEXT,
+  created_at TIMESTAMPTZ,
+  preset_name TEXT,
+  preset_emoji TEXT,
+  style_name TEXT,
+  user_name TEXT,
+  user_avatar_url TEXT,
+  like_count INTEGER,
+  liked BOOLEAN,
+  score DOUBLE PRECISION
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT
+      i.*,
+      ((
+        SELECT COUNT(*) FROM public.image_reactions ir
+        WHERE ir.image_id = i.id AND ir.created_at <= p_as_of
+      ) / POWER(
+        GREATEST(EXTRACT(EPOCH FROM (p_as_of - i.created_at)), 0) / 3600.0 + 2,
+        1.5
+      ))::DOUBLE PRECISION AS trend_score
+    FROM public.images i
+    WHERE i.is_public = TRUE
+      AND i.created_at <= p_as_of
+      AND i.created_at > p_as_of - INTERVAL '7 days'
+      AND (p_preset_id IS NULL OR i.preset_id = p_preset_id)
+  )
+  SELECT
+    r.id,
+    r.user_id,
+    r.image_url,
+    r.preset_id,
+    r.style_id,
+    r.created_at,
+    pr.name AS preset_name,
+    pr.emoji AS preset_emoji,
+    s.name AS style_name,
+    NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), '') AS user_name,
+    p.avatar_url AS user_avatar_url,
+    r.like_count,
+    EXISTS (
+      SELECT 1 FROM public.image_reactions ir
+      WHERE ir.image_id = r.id AND ir.user_id = auth.uid()
+    ) AS liked,
+    r.trend_score AS score
+  FROM ranked r
+  LEFT JOIN public.profiles p ON p.id = r.user_id
+  LEFT JOIN public.presets pr ON pr.id = r.preset_id
+  LEFT JOIN public.styles s ON s.id = r.style_id
+  WHERE (COALESCE(p.hide_from_feed, FALSE) = FALSE OR r.user_id = auth.uid())
+    AND (
+      p_cursor_score IS NULL
+      OR (r.trend_score, r.id) < (p_cursor_score, p_cursor_id)
+    )
+  ORDER BY r.trend_score DESC, r.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================
+-- 5. FUNCTION: Get public profile
+-- ============================================
+
+-- Follower counts can't be read from follows directly (RLS only shows a
+-- user their own rows), so they come from here. Returns no row for a hidden
+-- profile unless it's the caller's own.
+CREATE OR REPLACE FUNCTION public.get_public_profile(p_user_id UUID)
+RETURNS TABLE (
+  id UUID,
+  user_name TEXT,
+  avatar_url TEXT,
+  bio TEXT,
+  hide_from_feed BOOLEAN,
+  image_count INTEGER,
+  follower_count INTEGER,
+  following_count INTEGER,
+  is_following BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), '') AS user_name,
+    p.avatar_url,
+    p.bio,
+    p.hide_from_feed,
+    (SELECT COUNT(*)::INT FROM public.images i
+      WHERE i.user_id = p.id AND i.is_public = TRUE) AS image_count,
+    (SELECT COUNT(*)::INT FROM public.follows f
+      WHERE f.following_id = p.id) AS follower_count,
+    (SELECT COUNT(*)::INT FROM public.follows f
+      WHERE f.follower_id = p.id) AS following_count,
+    EXISTS (
+      SELECT 1 FROM public.follows f
+      WHERE f.follower_id = auth.uid() AND f.following_id = p.id
+    ) AS is_following
+  FROM public.profiles p
+  WHERE p.id = p_user_id
+    AND (p.hide_from_feed = FALSE OR p.id = auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================
+-- DONE: Public profiles
+-- ============================================
@@ -0,0 +1,229 @@
+-- Migration: Reports and moderation queue for shared images
+--
+-- Users can report public images. Once an image collects enough open reports
+-- it is taken off the feed automatically (moderation_status 'reported') and
+-- waits for a moderator, who can restore it, remove it for good, or ban its
+-- owner from publishing. Moderator actions go through the moderate-image
+-- edge function and are logged in moderation_actions.
+--
+-- Moderators and bans live in their own tables rather than on profiles,
+-- since users can update their own profile row.
+--
+-- The hide threshold is low and any signed-in account counts, so three
+-- throwaway accounts can take any image off the feed. That is accepted
+-- because hiding is reversible (restore) and every hidden image lands in the
+-- review queue; raise v_hide_threshold in report_image if it gets abused.
+--
+-- Changes:
+-- 1. moderators table and is_moderator()
+-- 2. publishing_bans table
+-- 3. image_reports table, report_count and 'reported' status on images
+-- 4. moderation_actions log
+-- 5. Banned users can't publish
+-- 6. report_image RPC
+
+-- ============================================
+-- 1. CREATE MODERATORS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.moderators (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Granted by hand with the service role; users can only see their own row
+ALTER TABLE public.moderators ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own moderator role" ON public.moderators;
+CREATE POLICY "Users can view own moderator role"
+ON public.moderators FOR SELECT
+USING (auth.uid() = user_id);
+
+-- SECURITY DEFINER so policies can call it without seeing the table
+CREATE OR REPLACE FUNCTION public.is_moderator(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.moderators WHERE user_id = p_user_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================
+-- 2. CREATE PUBLISHING_BANS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.publishing_bans (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT,
+  banned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Written by moderate-image (service role)
+ALTER TABLE public.publishing_bans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own publishing ban" ON public.publishing_bans;
+CREATE POLICY "Users can view own publishing ban"
+ON public.publishing_bans FOR SELECT
+USING (auth.uid() = user_id);
+
+-- ============================================
+-- 3. CREATE IMAGE_REPORTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.image_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  image_id UUID REFERENCES public.images(id) ON DELETE CASCADE NOT NULL,
+  reporter_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'nudity', 'harassment', 'violence', 'other')),
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (image_id, reporter_id)           -- One report per user per image
+);
+
+-- Index for the review queue
+CREATE INDEX IF NOT EXISTS idx_image_reports_open
+ON public.image_reports(image_id, created_at)
+WHERE status = 'open';
+
+ALTER TABLE public.image_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own reports" ON public.image_reports;
+CREATE POLICY "Users can view own reports"
+ON public.image_reports FOR SELECT
+USING (auth.uid() = reporter_id);
+
+DROP POLICY IF EXISTS "Moderators can view reports" ON public.image_reports;
+CREATE POLICY "Moderators can view reports"
+ON public.image_reports FOR SELECT
+USING (public.is_moderator(auth.uid()));
+
+-- Writes only through report_image and moderate-image
+REVOKE INSERT, UPDATE, DELETE ON public.image_reports FROM anon, authenticated;
+
+-- Open reports on the image, kept by report_image
+ALTER TABLE public.images
+ADD COLUMN IF NOT EXISTS report_count INTEGER NOT NULL DEFAULT 0;
+
+-- 'reported': taken off the feed by reports, awaiting review
+ALTER TABLE public.images
+DROP CONSTRAINT IF EXISTS images_moderation_status_check;
+ALTER TABLE public.images
+ADD CONSTRAINT images_moderation_status_check
+CHECK (moderation_status IN ('approved', 'flagged', 'pending', 'reported'));
+
+-- Moderators see reported images even once they're off the feed
+DROP POLICY IF EXISTS "Moderators can view reported images" ON public.images;
+CREATE POLICY "Moderators can view reported images"
+ON public.images FOR SELECT
+USING (report_count > 0 AND public.is_moderator(auth.uid()));
+
+-- ============================================
+-- 4. CREATE MODERATION_ACTIONS TABLE
+-- ============================================
+
+-- No FK on image_id: removed images are deleted, their log rows stay
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  moderator_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('restore', 'remove', 'ban', 'unban')),
+  image_id UUID,
+  target_user_id UUID,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_created
+ON public.moderation_actions(created_at DESC);
+
+-- Service role only
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 5. BANNED USERS CAN'T PUBLISH
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_image_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_public AND NEW.moderation_status <> 'approved' THEN
+    RAISE EXCEPTION 'IMAGE_NOT_SHAREABLE: image % is %', NEW.id, NEW.moderation_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.is_public AND EXISTS (
+    SELECT 1 FROM public.publishing_bans WHERE user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'PUBLISHING_BANNED: user % is banned from publishing', NEW.user_id
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 6. FUNCTION: Report an image
+-- ============================================
+
+-- Reports a public image for the calling user (once per image). At
+-- v_hide_threshold open reports the image leaves the feed until a moderator
+-- reviews it. Returns whether this report took the image off the feed.
+CREATE OR REPLACE FUNCTION public.report_image(
+  p_image_id UUID,
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_owner_id UUID;
+  v_report_count INT;
+  v_hide_threshold CONSTANT INT := 3;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT user_id INTO v_owner_id
+  FROM public.images
+  WHERE id = p_image_id AND is_public = TRUE;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'IMAGE_NOT_FOUND' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_owner_id = v_user_id THEN
+    RAISE EXCEPTION 'CANNOT_REPORT_OWN_IMAGE' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.image_reports (image_id, reporter_id, reason, details)
+  VALUES (p_image_id, v_user_id, p_reason, LEFT(p_details, 500))
+  ON CONFLICT (image_id, reporter_id) DO NOTHING;
+
+  SELECT COUNT(*) INTO v_report_count
+  FROM public.image_reports
+  WHERE image_id = p_image_id AND status = 'open';
+
+  UPDATE public.images
+  SET report_count = v_report_count
+  WHERE id = p_image_id;
+
+  IF v_report_count >= v_hide_threshold THEN
+    UPDATE public.images
+    SET is_public = FALSE,
+        moderation_status = 'reported'
+    WHERE id = p_image_id AND moderation_status = 'approved';
+    RETURN FOUND;
+  END IF;
+
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.report_image(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_image(UUID, TEXT, TEXT) TO authenticated;
+
+-- ============================================
+-- DONE: Reports and moderation queue
+-- ============================================
@@ -0,0 +1,82 @@
+-- Migration: Record purchases and grant their credits in one transaction
+--
+-- grantPurchase used to insert the purchases row and then call add_credits
+-- (or grant_subscription_allowance) as a separate request. If the grant
+-- failed, the recorded row made every retry look already processed and the
+-- paid credits were never added. grant_purchase does both in one transaction,
+-- so a failed grant leaves no purchases row behind.
+--
+-- Changes:
+-- 1. grant_purchase RPC
+
+-- ============================================
+-- 1. FUNCTION: Grant a purchase
+-- ============================================
+
+-- Records the purchase and grants its credits: a monthly plan period when
+-- p_allowance_expires_at is set, paid credits otherwise. Idempotent on
+-- rc_transaction_id. Returns FALSE if the transaction was already granted.
+CREATE OR REPLACE FUNCTION public.grant_purchase(
+  p_user_id UUID,
+  p_rc_product_id TEXT,
+  p_rc_transaction_id TEXT,
+  p_rc_original_transaction_id TEXT,
+  p_credits INT,
+  p_amount_paid DECIMAL,
+  p_currency TEXT,
+  p_platform TEXT,
+  p_purchased_at TIMESTAMPTZ,
+  p_allowance_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_purchase_id UUID;
+BEGIN
+  INSERT INTO public.purchases (
+    user_id,
+    rc_product_id,
+    rc_transaction_id,
+    rc_original_transaction_id,
+    credits_added,
+    amount_paid,
+    currency,
+    platform,
+    purchased_at
+  )
+  VALUES (
+    p_user_id,
+    p_rc_product_id,
+    p_rc_transaction_id,
+    p_rc_original_transaction_id,
+    p_credits,
+    p_amount_paid,
+    COALESCE(p_currency, 'USD'),
+    p_platform,
+    COALESCE(p_purchased_at, NOW())
+  )
+  ON CONFLICT (rc_transaction_id) DO NOTHING
+  RETURNING id INTO v_purchase_id;
+
+  IF v_purchase_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Any error here rolls back the purchases row too
+  IF p_allowance_expires_at IS NOT NULL THEN
+    PERFORM public.grant_subscription_allowance(
+      p_user_id, v_purchase_id, p_credits, p_allowance_expires_at
+    );
+  ELSE
+    PERFORM public.add_credits(p_user_id, p_credits, v_purchase_id);
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- verify-purchase and revenuecat-webhook (service role)
+REVOKE EXECUTE ON FUNCTION public.grant_purchase(UUID, TEXT, TEXT, TEXT, INT, DECIMAL, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- DONE: Purchases granted atomically
+-- ============================================
@@ -0,0 +1,38 @@
+-- Migration: Pending images go to the moderation queue
+--
+-- Images that no moderation provider could check (provider down, or none
+-- configured) are stored as 'pending' and can't be shared. Nothing re-checked
+-- them, so they stayed unshareable for good. They now show up in the
+-- moderate-image review queue, where a moderator approves or removes them.
+--
+-- Changes:
+-- 1. 'approve' moderator action
+-- 2. Moderators can view pending images
+
+-- ============================================
+-- 1. ADD APPROVE TO MODERATION_ACTIONS
+-- ============================================
+ALTER TABLE public.moderation_actions
+DROP CONSTRAINT IF EXISTS moderation_actions_action_check;
+
+ALTER TABLE public.moderation_actions
+ADD CONSTRAINT moderation_actions_action_check
+CHECK (action IN ('approve', 'restore', 'remove', 'ban', 'unban'));
+
+-- ============================================
+-- 2. MODERATORS CAN VIEW PENDING IMAGES
+-- ============================================
+
+-- Index for the pending part of the review queue
+CREATE INDEX IF NOT EXISTS idx_images_pending_review
+ON public.images(created_at)
+WHERE moderation_status = 'pending';
+
+DROP POLICY IF EXISTS "Moderators can view pending images" ON public.images;
+CREATE POLICY "Moderators can view pending images"
+ON public.images FOR SELECT
+USING (moderation_status = 'pending' AND public.is_moderator(auth.uid()));
+
+-- ============================================
+-- DONE: Pending images queued for review
+-- ============================================
@@ -0,0 +1,592 @@
+-- Migration: A credit buys four images
+--
+-- 025 charged one credit per image, so the default four-image batch cost four
+-- credits instead of one. An image now costs a quarter credit
+-- (CREDITS_PER_IMAGE in _shared/credits.ts): four images cost one credit as
+-- before, and one- and two-image batches cost less. Balances, ledger amounts,
+-- refunds and batch costs become NUMERIC to hold quarter credits; packs,
+-- allowances and the signup bonus are still whole credits.
+--
+-- A charge no longer has to fit in one pool. decrement_credits takes what it
+-- can from the allowance, then free, then purchased credits, with one ledger
+-- entry per pool, so it accepts any balance the app shows as spendable. A
+-- refund returns each pool's share to that pool.
+--
+-- Changes:
+-- 1. Credit amounts become NUMERIC
+-- 2. One charge and one refund entry per pool for a generation
+-- 3. Ledger writer, balances view and balance-reading functions use NUMERIC
+-- 4. decrement_credits splits a charge across pools
+-- 5. fail_generation_with_refund refunds every pool charged
+
+-- ============================================
+-- 1. NUMERIC CREDIT AMOUNTS
+-- ============================================
+
+-- The view reads credit_transactions.amount, so it is recreated in section 3
+DROP VIEW IF EXISTS public.credit_balances;
+
+ALTER TABLE public.credits
+ALTER COLUMN free_credits TYPE NUMERIC(10, 2),
+ALTER COLUMN image_credits TYPE NUMERIC(10, 2),
+ALTER COLUMN allowance_credits TYPE NUMERIC(10, 2);
+
+ALTER TABLE public.credit_transactions
+ALTER COLUMN amount TYPE NUMERIC(10, 2),
+ALTER COLUMN balance_after TYPE NUMERIC(10, 2);
+
+ALTER TABLE public.credit_refunds
+ALTER COLUMN credits TYPE NUMERIC(10, 2);
+
+ALTER TABLE public.purchases
+ALTER COLUMN credits_clawed_back TYPE NUMERIC(10, 2);
+
+ALTER TABLE public.generations
+ALTER COLUMN credit_cost TYPE NUMERIC(10, 2);
+
+-- ============================================
+-- 2. PER-POOL GENERATION ENTRIES
+-- ============================================
+
+-- A generation is still charged and refunded once, but per pool
+DROP INDEX IF EXISTS public.idx_credit_transactions_generation_kind;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_generation_kind_pool
+ON public.credit_transactions(generation_id, kind, pool)
+WHERE generation_id IS NOT NULL;
+
+-- ============================================
+-- 3. NUMERIC LEDGER FUNCTIONS
+-- ============================================
+
+-- Same as 017 with NUMERIC amounts. Dropped first: the amount type is part of
+-- the signature and the old one would still match integer callers.
+DROP FUNCTION IF EXISTS public.apply_credit_transaction(UUID, TEXT, TEXT, INT, UUID, UUID, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.apply_credit_transaction(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_pool TEXT,
+  p_amount NUMERIC,
+  p_generation_id UUID DEFAULT NULL,
+  p_purchase_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_balance NUMERIC;
+BEGIN
+  INSERT INTO public.credits (user_id, free_credits, image_credits)
+  VALUES (p_user_id, 0, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  IF p_pool = 'free' THEN
+    UPDATE public.credits
+    SET free_credits = COALESCE(free_credits, 0) + p_amount,
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING free_credits INTO v_balance;
+  ELSIF p_pool = 'allowance' THEN
+    UPDATE public.credits
+    SET allowance_credits = allowance_credits + p_amount,
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING allowance_credits INTO v_balance;
+  ELSE
+    UPDATE public.credits
+    SET image_credits = COALESCE(image_credits, 0) + p_amount,
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING image_credits INTO v_balance;
+  END IF;
+
+  INSERT INTO public.credit_transactions (
+    user_id, kind, pool, amount, balance_after,
+    generation_id, purchase_id, description, metadata
+  )
+  VALUES (
+    p_user_id, p_kind, p_pool, p_amount, v_balance,
+    p_generation_id, p_purchase_id, p_description, COALESCE(p_metadata, '{}'::jsonb)
+  );
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_credit_transaction(UUID, TEXT, TEXT, NUMERIC, UUID, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE VIEW public.credit_balances
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  COALESCE(SUM(amount) FILTER (WHERE pool = 'free'), 0)::NUMERIC(10, 2) AS free_credits,
+  COALESCE(SUM(amount) FILTER (WHERE pool = 'paid'), 0)::NUMERIC(10, 2) AS image_credits,
+  COALESCE(SUM(amount) FILTER (WHERE pool = 'allowance'), 0)::NUMERIC(10, 2) AS allowance_credits,
+  COALESCE(SUM(amount), 0)::NUMERIC(10, 2) AS total_credits,
+  MAX(created_at) AS last_transaction_at
+FROM public.credit_transactions
+GROUP BY user_id;
+
+GRANT SELECT ON public.credit_balances TO authenticated;
+
+-- The functions below return or hold a balance, which may now be fractional.
+-- Return types can't be changed in place, so each is dropped and recreated.
+
+DROP FUNCTION IF EXISTS public.grant_credits(UUID, TEXT, INT, TEXT, TEXT, JSONB);
+
+-- Same as 013; corrections may need to move part of a credit
+CREATE OR REPLACE FUNCTION public.grant_credits(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_amount NUMERIC,
+  p_pool TEXT DEFAULT 'paid',
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS NUMERIC AS $$
+BEGIN
+  IF p_kind NOT IN ('admin_grant', 'referral_bonus', 'expiry', 'adjustment') THEN
+    RAISE EXCEPTION 'Unsupported credit transaction kind: %', p_kind;
+  END IF;
+
+  IF (p_kind = 'expiry') <> (p_amount < 0) AND p_kind <> 'adjustment' THEN
+    RAISE EXCEPTION 'Invalid amount % for %', p_amount, p_kind;
+  END IF;
+
+  RETURN public.apply_credit_transaction(
+    p_user_id, p_kind, p_pool, p_amount, NULL, NULL, p_description, p_metadata
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.grant_credits(UUID, TEXT, NUMERIC, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.expire_allowance(UUID, TEXT);
+
+-- Same as 017
+CREATE OR REPLACE FUNCTION public.expire_allowance(
+  p_user_id UUID,
+  p_reason TEXT DEFAULT 'Monthly plan period ended'
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_allowance NUMERIC;
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT allowance_credits, allowance_expires_at
+  INTO v_allowance, v_expires_at
+  FROM public.credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF v_allowance > 0 THEN
+    PERFORM public.apply_credit_transaction(
+      p_user_id, 'expiry', 'allowance', -v_allowance, NULL, NULL, p_reason,
+      jsonb_build_object('expires_at', v_expires_at)
+    );
+  END IF;
+
+  UPDATE public.credits
+  SET allowance_expires_at = NULL
+  WHERE user_id = p_user_id;
+
+  RETURN GREATEST(v_allowance, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.expire_allowance(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.grant_subscription_allowance(UUID, UUID, INT, TIMESTAMPTZ);
+
+-- Same as 017
+CREATE OR REPLACE FUNCTION public.grant_subscription_allowance(
+  p_user_id UUID,
+  p_purchase_id UUID,
+  p_amount INT,
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_balance NUMERIC;
+BEGIN
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid allowance %', p_amount;
+  END IF;
+
+  PERFORM public.expire_allowance(p_user_id, 'Replaced by new monthly plan period');
+
+  v_balance := public.apply_credit_transaction(
+    p_user_id, 'subscription_allowance', 'allowance', p_amount, NULL, p_purchase_id,
+    'Monthly plan',
+    jsonb_build_object('expires_at', p_expires_at)
+  );
+
+  UPDATE public.credits
+  SET allowance_expires_at = p_expires_at
+  WHERE user_id = p_user_id;
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.grant_subscription_allowance(UUID, UUID, INT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.refund_purchase(TEXT, TEXT);
+
+-- Same as 017
+CREATE OR REPLACE FUNCTION public.refund_purchase(
+  p_rc_transaction_id TEXT,
+  p_event_id TEXT
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_purchase RECORD;
+  v_pool TEXT;
+  v_balance NUMERIC;
+  v_clawback NUMERIC;
+BEGIN
+  SELECT id, user_id, credits_added, refunded_at, credits_clawed_back
+  INTO v_purchase
+  FROM public.purchases
+  WHERE rc_transaction_id = p_rc_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_purchase.refunded_at IS NOT NULL THEN
+    RETURN COALESCE(v_purchase.credits_clawed_back, 0);
+  END IF;
+
+  SELECT pool INTO v_pool
+  FROM public.credit_transactions
+  WHERE purchase_id = v_purchase.id
+    AND kind IN ('purchase', 'subscription_allowance');
+
+  v_pool := COALESCE(v_pool, 'paid');
+
+  -- Lock the balance so a concurrent generation can't spend past it
+  SELECT CASE WHEN v_pool = 'allowance' THEN allowance_credits ELSE COALESCE(image_credits, 0) END
+  INTO v_balance
+  FROM public.credits
+  WHERE user_id = v_purchase.user_id
+  FOR UPDATE;
+
+  v_clawback := LEAST(v_purchase.credits_added, COALESCE(v_balance, 0));
+
+  IF v_clawback > 0 THEN
+    PERFORM public.apply_credit_transaction(
+      v_purchase.user_id,
+      'purchase_refund',
+      v_pool,
+      -v_clawback,
+      NULL,
+      v_purchase.id,
+      'Store refund',
+      jsonb_build_object(
+        'event_id', p_event_id,
+        'credits_added', v_purchase.credits_added,
+        'credits_spent', v_purchase.credits_added - v_clawback
+      )
+    );
+  END IF;
+
+  UPDATE public.purchases
+  SET refunded_at = NOW(),
+      credits_clawed_back = v_clawback,
+      refund_event_id = p_event_id
+  WHERE id = v_purchase.id;
+
+  RETURN v_clawback;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.refund_purchase(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.transfer_credits(UUID, UUID, TEXT);
+
+-- Same as 015
+CREATE OR REPLACE FUNCTION public.transfer_credits(
+  p_from_user_id UUID,
+  p_to_user_id UUID,
+  p_event_id TEXT
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_balance NUMERIC;
+BEGIN
+  IF p_from_user_id = p_to_user_id THEN
+    RETURN 0;
+  END IF;
+
+  -- Lock both rows in a fixed order to avoid deadlocks
+  PERFORM 1
+  FROM public.credits
+  WHERE user_id IN (p_from_user_id, p_to_user_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT COALESCE(image_credits, 0)
+  INTO v_balance
+  FROM public.credits
+  WHERE user_id = p_from_user_id;
+
+  -- Refunds of transferred purchases now apply to the new owner
+  UPDATE public.purchases
+  SET user_id = p_to_user_id
+  WHERE user_id = p_from_user_id;
+
+  IF COALESCE(v_balance, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM public.apply_credit_transaction(
+    p_from_user_id, 'transfer', 'paid', -v_balance, NULL, NULL,
+    'Transferred to another account',
+    jsonb_build_object('event_id', p_event_id, 'to_user_id', p_to_user_id)
+  );
+
+  PERFORM public.apply_credit_transaction(
+    p_to_user_id, 'transfer', 'paid', v_balance, NULL, NULL,
+    'Transferred from another account',
+    jsonb_build_object('event_id', p_event_id, 'from_user_id', p_from_user_id)
+  );
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.transfer_credits(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 4. UPDATE FUNCTION: Split a charge across pools
+-- ============================================
+
+DROP FUNCTION IF EXISTS public.decrement_credits(UUID, TEXT, TEXT, UUID, INT);
+
+-- Allowance first (it expires), then free, then purchased credits, taking
+-- from each pool until the amount is covered. An allowance past its period
+-- end is not spendable even before the sweep. is_free is set if any free
+-- credits were used.
+CREATE OR REPLACE FUNCTION public.decrement_credits(
+  p_user_id UUID,
+  p_preset TEXT,
+  p_style TEXT,
+  p_generation_id UUID DEFAULT NULL,
+  p_amount NUMERIC DEFAULT 1
+)
+RETURNS TABLE(success BOOLEAN, is_free BOOLEAN, remaining_free NUMERIC, remaining_paid NUMERIC) AS $$
+DECLARE
+  v_free_credits NUMERIC;
+  v_image_credits NUMERIC;
+  v_allowance NUMERIC;
+  v_allowance_expires_at TIMESTAMPTZ;
+  v_from_allowance NUMERIC;
+  v_from_free NUMERIC;
+  v_from_paid NUMERIC;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid credit amount %', p_amount;
+  END IF;
+
+  -- Lock the row to prevent race conditions
+  SELECT free_credits, image_credits, allowance_credits, allowance_expires_at
+  INTO v_free_credits, v_image_credits, v_allowance, v_allowance_expires_at
+  FROM public.credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE NOTICE 'No credits row found for user %', p_user_id;
+    RETURN QUERY SELECT FALSE, FALSE, 0::NUMERIC, 0::NUMERIC;
+    RETURN;
+  END IF;
+
+  v_free_credits := COALESCE(v_free_credits, 0);
+  v_image_credits := COALESCE(v_image_credits, 0);
+  v_allowance := COALESCE(v_allowance, 0);
+
+  IF v_allowance_expires_at IS NULL OR v_allowance_expires_at <= NOW() THEN
+    v_allowance := 0;
+  END IF;
+
+  IF v_allowance + v_free_credits + v_image_credits < p_amount THEN
+    RETURN QUERY SELECT FALSE, FALSE, v_free_credits, v_image_credits;
+    RETURN;
+  END IF;
+
+  v_from_allowance := LEAST(GREATEST(v_allowance, 0), p_amount);
+  v_from_free := LEAST(v_free_credits, p_amount - v_from_allowance);
+  v_from_paid := p_amount - v_from_allowance - v_from_free;
+
+  IF v_from_allowance > 0 THEN
+    PERFORM public.apply_credit_transaction(
+      p_user_id, 'generation', 'allowance', -v_from_allowance, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+  END IF;
+
+  IF v_from_free > 0 THEN
+    v_free_credits := public.apply_credit_transaction(
+      p_user_id, 'generation', 'free', -v_from_free, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+  END IF;
+
+  IF v_from_paid > 0 THEN
+    v_image_credits := public.apply_credit_transaction(
+      p_user_id, 'generation', 'paid', -v_from_paid, p_generation_id, NULL,
+      p_preset || ' / ' || p_style
+    );
+  END IF;
+
+  UPDATE public.credits
+  SET
+    total_generations = total_generations + 1,
+    last_generation_at = NOW(),
+    last_preset = p_preset,
+    last_style = p_style
+  WHERE user_id = p_user_id;
+
+  RETURN QUERY SELECT TRUE, v_from_free > 0, v_free_credits, v_image_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.decrement_credits(UUID, TEXT, TEXT, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 5. UPDATE FUNCTION: Refund every pool charged
+-- ============================================
+
+-- Same as 025, but each pool's part of the charge goes back to that pool. The
+-- allowance part is not refunded once its period has ended or been replaced;
+-- the other pools still are.
+CREATE OR REPLACE FUNCTION public.fail_generation_with_refund(
+  p_generation_id UUID,
+  p_reason TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_generation RECORD;
+  v_charge RECORD;
+  v_details JSONB;
+  v_refunds JSONB := '{}'::jsonb;
+  v_total NUMERIC := 0;
+  v_allowance_expired BOOLEAN := FALSE;
+BEGIN
+  -- Lock the generation so concurrent callers can't double refund
+  SELECT id, user_id, status, is_free_generation, credit_cost
+  INTO v_generation
+  FROM public.generations
+  WHERE id = p_generation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_generation.status = 'completed' THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.images WHERE generation_batch_id = p_generation_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.fal_requests
+    WHERE generation_id = p_generation_id AND status = 'queued'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.generations
+  SET status = 'failed'
+  WHERE id = p_generation_id;
+
+  -- No further variations may be requested against a refunded batch
+  DELETE FROM public.generation_sessions
+  WHERE generation_id = p_generation_id;
+
+  FOR v_charge IN
+    SELECT pool, -amount AS amount, created_at
+    FROM public.credit_transactions
+    WHERE generation_id = p_generation_id AND kind = 'generation'
+  LOOP
+    -- The allowance period the credits came from is over
+    IF v_charge.pool = 'allowance' AND (
+      NOT EXISTS (
+        SELECT 1 FROM public.credits
+        WHERE user_id = v_generation.user_id AND allowance_expires_at > NOW()
+      ) OR EXISTS (
+        SELECT 1 FROM public.credit_transactions
+        WHERE user_id = v_generation.user_id
+          AND kind = 'subscription_allowance'
+          AND created_at > v_charge.created_at
+      )
+    ) THEN
+      v_allowance_expired := TRUE;
+    ELSE
+      v_refunds := v_refunds || jsonb_build_object(v_charge.pool, v_charge.amount);
+      v_total := v_total + v_charge.amount;
+    END IF;
+  END LOOP;
+
+  -- Charges from before the ledger only recorded is_free_generation
+  IF v_refunds = '{}'::jsonb AND NOT v_allowance_expired THEN
+    v_refunds := jsonb_build_object(
+      CASE WHEN COALESCE(v_generation.is_free_generation, FALSE) THEN 'free' ELSE 'paid' END,
+      COALESCE(v_generation.credit_cost, 1)
+    );
+    v_total := COALESCE(v_generation.credit_cost, 1);
+  END IF;
+
+  SELECT jsonb_build_object(
+    'failed_variations',
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'variation_index', variation_index,
+      'model_id', model_id,
+      'error', error
+    ) ORDER BY variation_index), '[]'::jsonb),
+    'allowance_expired',
+    v_allowance_expired,
+    'refunded_by_pool',
+    v_refunds
+  )
+  INTO v_details
+  FROM public.fal_requests
+  WHERE generation_id = p_generation_id AND status = 'failed';
+
+  INSERT INTO public.credit_refunds (user_id, generation_id, is_free, credits, reason, details)
+  VALUES (v_generation.user_id, p_generation_id, COALESCE(v_generation.is_free_generation, FALSE), v_total, p_reason, v_details)
+  ON CONFLICT (generation_id) DO NOTHING;
+
+  IF NOT FOUND OR v_total = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  FOR v_charge IN
+    SELECT key AS pool, value::NUMERIC AS amount FROM jsonb_each_text(v_refunds)
+  LOOP
+    PERFORM public.apply_credit_transaction(
+      v_generation.user_id,
+      'refund',
+      v_charge.pool,
+      v_charge.amount,
+      p_generation_id,
+      NULL,
+      p_reason
+    );
+  END LOOP;
+
+  UPDATE public.credits
+  SET total_generations = GREATEST(total_generations - 1, 0)
+  WHERE user_id = v_generation.user_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- DONE: Images cost a quarter credit
+-- ============================================
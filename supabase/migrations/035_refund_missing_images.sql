@@ -0,0 +1,240 @@
+-- Migration: Refund images a batch never delivered
+--
+-- A batch was only refunded when none of its images arrived, so a four-image
+-- batch that delivered three kept the whole charge. Once nothing more can
+-- arrive for a batch, the share of its cost for each missing image
+-- (credit_cost * missing / image_count) is now refunded. A batch with no
+-- images is still failed and refunded in full as soon as its last request
+-- fails; a partial batch is settled when its session expires, since until
+-- then the missing slots can be retried.
+--
+-- Changes:
+-- 1. fail_generation_with_refund refunds missing images
+-- 2. cleanup_expired_sessions settles partial batches and keeps sessions
+--    with a slot still being generated
+
+-- ============================================
+-- 1. UPDATE FUNCTION: Refund missing images
+-- ============================================
+
+-- Same as 034, but a batch with some images is refunded for the rest and
+-- marked completed. The refund goes back to the pools charged, last spent
+-- first (purchased, then free, then allowance), so it never returns more to
+-- a pool than was taken from it. One credit_refunds row per generation, as
+-- before.
+CREATE OR REPLACE FUNCTION public.fail_generation_with_refund(
+  p_generation_id UUID,
+  p_reason TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_generation RECORD;
+  v_charge RECORD;
+  v_delivered INT;
+  v_missing INT;
+  v_remaining NUMERIC;
+  v_part NUMERIC;
+  v_details JSONB;
+  v_refunds JSONB := '{}'::jsonb;
+  v_total NUMERIC := 0;
+  v_allowance_expired BOOLEAN := FALSE;
+BEGIN
+  -- Lock the generation so concurrent callers can't double refund
+  SELECT id, user_id, status, is_free_generation, credit_cost, image_count
+  INTO v_generation
+  FROM public.generations
+  WHERE id = p_generation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_generation.status IN ('completed', 'failed') THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.fal_requests
+    WHERE generation_id = p_generation_id AND status = 'queued'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT COUNT(DISTINCT image_index) INTO v_delivered
+  FROM public.images
+  WHERE generation_batch_id = p_generation_id;
+
+  v_missing := GREATEST(COALESCE(v_generation.image_count, 4) - v_delivered, 0);
+
+  IF v_missing = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Missing slots of a partial batch can still be retried until the session
+  -- expires
+  IF v_delivered > 0 AND EXISTS (
+    SELECT 1 FROM public.generation_sessions WHERE generation_id = p_generation_id
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.generations
+  SET status = CASE WHEN v_delivered = 0 THEN 'failed' ELSE 'completed' END
+  WHERE id = p_generation_id;
+
+  -- No further variations may be requested against a refunded batch
+  DELETE FROM public.generation_sessions
+  WHERE generation_id = p_generation_id;
+
+  v_remaining := ROUND(
+    COALESCE(v_generation.credit_cost, 1) * v_missing / COALESCE(v_generation.image_count, 4),
+    2
+  );
+
+  FOR v_charge IN
+    SELECT pool, -amount AS amount, created_at
+    FROM public.credit_transactions
+    WHERE generation_id = p_generation_id AND kind = 'generation'
+    ORDER BY CASE pool WHEN 'paid' THEN 0 WHEN 'free' THEN 1 ELSE 2 END
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_part := LEAST(v_charge.amount, v_remaining);
+    v_remaining := v_remaining - v_part;
+
+    -- The allowance period the credits came from is over
+    IF v_charge.pool = 'allowance' AND (
+      NOT EXISTS (
+        SELECT 1 FROM public.credits
+        WHERE user_id = v_generation.user_id AND allowance_expires_at > NOW()
+      ) OR EXISTS (
+        SELECT 1 FROM public.credit_transactions
+        WHERE user_id = v_generation.user_id
+          AND kind = 'subscription_allowance'
+          AND created_at > v_charge.created_at
+      )
+    ) THEN
+      v_allowance_expired := TRUE;
+    ELSE
+      v_refunds := v_refunds || jsonb_build_object(v_charge.pool, v_part);
+      v_total := v_total + v_part;
+    END IF;
+  END LOOP;
+
+  -- Charges from before the ledger only recorded is_free_generation
+  IF v_refunds = '{}'::jsonb AND NOT v_allowance_expired AND v_remaining > 0 THEN
+    v_refunds := jsonb_build_object(
+      CASE WHEN COALESCE(v_generation.is_free_generation, FALSE) THEN 'free' ELSE 'paid' END,
+      v_remaining
+    );
+    v_total := v_remaining;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'failed_variations',
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'variation_index', variation_index,
+      'model_id', model_id,
+      'error', error
+    ) ORDER BY variation_index), '[]'::jsonb),
+    'missing_images',
+    v_missing,
+    'allowance_expired',
+    v_allowance_expired,
+    'refunded_by_pool',
+    v_refunds
+  )
+  INTO v_details
+  FROM public.fal_requests
+  WHERE generation_id = p_generation_id AND status = 'failed';
+
+  INSERT INTO public.credit_refunds (user_id, generation_id, is_free, credits, reason, details)
+  VALUES (v_generation.user_id, p_generation_id, COALESCE(v_generation.is_free_generation, FALSE), v_total, p_reason, v_details)
+  ON CONFLICT (generation_id) DO NOTHING;
+
+  IF NOT FOUND OR v_total = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  FOR v_charge IN
+    SELECT key AS pool, value::NUMERIC AS amount FROM jsonb_each_text(v_refunds)
+  LOOP
+    PERFORM public.apply_credit_transaction(
+      v_generation.user_id,
+      'refund',
+      v_charge.pool,
+      v_charge.amount,
+      p_generation_id,
+      NULL,
+      p_reason
+    );
+  END LOOP;
+
+  -- A batch that delivered images still counts as a generation
+  IF v_delivered = 0 THEN
+    UPDATE public.credits
+    SET total_generations = GREATEST(total_generations - 1, 0)
+    WHERE user_id = v_generation.user_id;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 2. UPDATE FUNCTION: Cleanup expired sessions
+-- ============================================
+
+-- Same as 011, except:
+-- - a session with a slot claimed in the last 3 minutes (see 012) is kept
+--   until that call finishes, so its image isn't refunded as missing
+-- - batches are settled by fail_generation_with_refund, which refunds any
+--   missing images; the rest are marked completed
+CREATE OR REPLACE FUNCTION public.cleanup_expired_sessions()
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+  v_generation RECORD;
+BEGIN
+  UPDATE public.fal_requests
+  SET status = 'failed',
+      error = 'No webhook received',
+      completed_at = NOW()
+  WHERE status = 'queued'
+    AND created_at < NOW() - INTERVAL '15 minutes';
+
+  -- Delete expired sessions
+  DELETE FROM public.generation_sessions s
+  WHERE s.expires_at < NOW()
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_each_text(s.slots_in_flight) slot
+      WHERE slot.value::TIMESTAMPTZ > NOW() - INTERVAL '3 minutes'
+    );
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  FOR v_generation IN
+    SELECT g.id
+    FROM public.generations g
+    WHERE g.status IN ('pending', 'in_progress')
+      AND g.created_at < NOW() - INTERVAL '5 minutes'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.generation_sessions s WHERE s.generation_id = g.id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.fal_requests r
+        WHERE r.generation_id = g.id AND r.status = 'queued'
+      )
+  LOOP
+    PERFORM public.fail_generation_with_refund(v_generation.id, 'session_expired');
+
+    UPDATE public.generations
+    SET status = 'completed'
+    WHERE id = v_generation.id
+      AND status IN ('pending', 'in_progress');
+  END LOOP;
+
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- DONE: Missing images are refunded
+-- ============================================
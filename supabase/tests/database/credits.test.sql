@@ -0,0 +1,160 @@
+-- Credit charges (decrement_credits)
+--
+-- An image costs a quarter credit, so a four-image batch is charged 1.00.
+-- A charge is taken from the allowance, then free, then purchased credits,
+-- split across pools when needed, with one ledger entry per pool.
+--
+-- Run: supabase test db
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+-- Signup grants the 1.00 free credit bonus
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'bonus@test.local'),
+  ('00000000-0000-0000-0000-0000000000a2', 'split@test.local'),
+  ('00000000-0000-0000-0000-0000000000a3', 'plan@test.local'),
+  ('00000000-0000-0000-0000-0000000000a4', 'lapsed@test.local');
+
+-- ============================================
+-- Signup bonus pays for a default batch
+-- ============================================
+SELECT is(
+  (SELECT success FROM public.decrement_credits(
+    '00000000-0000-0000-0000-0000000000a1', 'portrait', 'natural',
+    '10000000-0000-0000-0000-0000000000a1', 1.00
+  )),
+  TRUE,
+  'the signup bonus pays for a four-image batch'
+);
+
+SELECT is(
+  (SELECT free_credits FROM public.credits WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+  0.00::NUMERIC,
+  'the bonus is used up'
+);
+
+SELECT is(
+  (SELECT success FROM public.decrement_credits(
+    '00000000-0000-0000-0000-0000000000a1', 'portrait', 'natural',
+    '10000000-0000-0000-0000-0000000000a2', 0.25
+  )),
+  FALSE,
+  'a charge larger than the balance is refused'
+);
+
+SELECT is(
+  (SELECT COUNT(*) FROM public.credit_transactions
+   WHERE generation_id = '10000000-0000-0000-0000-0000000000a2'),
+  0::BIGINT,
+  'a refused charge writes no ledger entry'
+);
+
+-- ============================================
+-- A charge spans pools
+-- ============================================
+DO $$
+BEGIN
+  PERFORM public.grant_credits('00000000-0000-0000-0000-0000000000a2', 'adjustment', -0.75, 'free');
+  PERFORM public.grant_credits('00000000-0000-0000-0000-0000000000a2', 'admin_grant', 3, 'paid');
+END $$;
+
+SELECT is(
+  (SELECT ROW(success, is_free, remaining_free, remaining_paid)::TEXT FROM public.decrement_credits(
+    '00000000-0000-0000-0000-0000000000a2', 'portrait', 'natural',
+    '10000000-0000-0000-0000-0000000000b1', 1.00
+  )),
+  ROW(TRUE, TRUE, 0.00::NUMERIC, 2.25::NUMERIC)::TEXT,
+  '0.25 free + 3.00 paid covers a 1.00 charge'
+);
+
+SELECT is(
+  (SELECT amount FROM public.credit_transactions
+   WHERE generation_id = '10000000-0000-0000-0000-0000000000b1' AND pool = 'free'),
+  -0.25::NUMERIC,
+  'the free pool is charged what it had'
+);
+
+SELECT is(
+  (SELECT amount FROM public.credit_transactions
+   WHERE generation_id = '10000000-0000-0000-0000-0000000000b1' AND pool = 'paid'),
+  -0.75::NUMERIC,
+  'the paid pool is charged the rest'
+);
+
+SELECT is(
+  (SELECT total_generations FROM public.credits WHERE user_id = '00000000-0000-0000-0000-0000000000a2'),
+  1,
+  'a split charge counts as one generation'
+);
+
+SELECT throws_ok(
+  $$SELECT * FROM public.decrement_credits(
+    '00000000-0000-0000-0000-0000000000a2', 'portrait', 'natural', NULL, 0)$$,
+  'P0001',
+  NULL,
+  'a zero charge is rejected'
+);
+
+-- ============================================
+-- Allowance first, while its period lasts
+-- ============================================
+DO $$
+BEGIN
+  PERFORM public.grant_subscription_allowance(
+    '00000000-0000-0000-0000-0000000000a3', gen_random_uuid(), 1, NOW() + INTERVAL '30 days'
+  );
+END $$;
+
+SELECT is(
+  (SELECT is_free FROM public.decrement_credits(
+    '00000000-0000-0000-0000-0000000000a3', 'portrait', 'natural',
+    '10000000-0000-0000-0000-0000000000c1', 0.50
+  )),
+  FALSE,
+  'a charge the allowance covers leaves free credits alone'
+);
+
+SELECT is(
+  (SELECT ROW(allowance_credits, free_credits)::TEXT FROM public.credits
+   WHERE user_id = '00000000-0000-0000-0000-0000000000a3'),
+  ROW(0.50::NUMERIC, 1.00::NUMERIC)::TEXT,
+  'the allowance is spent before free credits'
+);
+
+DO $$
+BEGIN
+  PERFORM public.grant_subscription_allowance(
+    '00000000-0000-0000-0000-0000000000a4', gen_random_uuid(), 5, NOW() - INTERVAL '1 minute'
+  );
+END $$;
+
+SELECT is(
+  (SELECT success FROM public.decrement_credits(
+    '00000000-0000-0000-0000-0000000000a4', 'portrait', 'natural',
+    '10000000-0000-0000-0000-0000000000d1', 2.00
+  )),
+  FALSE,
+  'an allowance past its period end is not spendable'
+);
+
+SELECT is(
+  (SELECT success FROM public.decrement_credits(
+    '00000000-0000-0000-0000-0000000000a4', 'portrait', 'natural',
+    '10000000-0000-0000-0000-0000000000d2', 0.50
+  )),
+  TRUE,
+  'free credits still pay once the allowance has lapsed'
+);
+
+SELECT is(
+  (SELECT array_agg(pool) FROM public.credit_transactions
+   WHERE generation_id = '10000000-0000-0000-0000-0000000000d2'),
+  ARRAY['free'],
+  'nothing is taken from the lapsed allowance'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,199 @@
+-- Generation refunds (fail_generation_with_refund, cleanup_expired_sessions)
+--
+-- A batch is refunded credit_cost * missing / image_count once nothing more
+-- can arrive for it: straight away when every slot failed, at session expiry
+-- when some images arrived. Refunds go back to the pools charged, purchased
+-- credits first, with one credit_refunds row per generation.
+--
+-- Run: supabase test db
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(16);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', 'failed@test.local'),
+  ('00000000-0000-0000-0000-0000000000b2', 'partial@test.local'),
+  ('00000000-0000-0000-0000-0000000000b3', 'inflight@test.local'),
+  ('00000000-0000-0000-0000-0000000000b4', 'lapsed@test.local');
+
+DO $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  -- b1 and b2 pay 1.00 as 0.25 free + 0.75 paid
+  FOREACH v_user_id IN ARRAY ARRAY[
+    '00000000-0000-0000-0000-0000000000b1',
+    '00000000-0000-0000-0000-0000000000b2'
+  ]::UUID[] LOOP
+    PERFORM public.grant_credits(v_user_id, 'adjustment', -0.75, 'free');
+    PERFORM public.grant_credits(v_user_id, 'admin_grant', 3, 'paid');
+  END LOOP;
+
+  -- b4 pays from a monthly allowance
+  PERFORM public.grant_subscription_allowance(
+    '00000000-0000-0000-0000-0000000000b4', gen_random_uuid(), 1, NOW() + INTERVAL '30 days'
+  );
+
+  -- Generation 2000...bN belongs to user 0000...bN
+  FOR v_user_id IN
+    SELECT id FROM auth.users WHERE id::TEXT LIKE '00000000-0000-0000-0000-0000000000b_'
+  LOOP
+    PERFORM public.decrement_credits(
+      v_user_id, 'portrait', 'natural', ('20000000' || SUBSTRING(v_user_id::TEXT, 9))::UUID, 1.00
+    );
+  END LOOP;
+END $$;
+
+-- One four-image batch each, started 10 minutes ago
+INSERT INTO public.generations (id, user_id, preset_id, style_id, status, credit_cost, image_count, created_at)
+SELECT ('20000000' || SUBSTRING(id::TEXT, 9))::UUID, id, 'portrait', 'natural', 'in_progress', 1.00, 4, NOW() - INTERVAL '10 minutes'
+FROM auth.users WHERE id::TEXT LIKE '00000000-0000-0000-0000-0000000000b_';
+
+INSERT INTO public.generation_sessions (user_id, preset_id, style_id, image_url, image_count, expires_at, generation_id)
+SELECT id, 'portrait', 'natural', 'https://cdn.test/input.jpg', 4, NOW() + INTERVAL '2 minutes', ('20000000' || SUBSTRING(id::TEXT, 9))::UUID
+FROM auth.users WHERE id::TEXT LIKE '00000000-0000-0000-0000-0000000000b_';
+
+-- ============================================
+-- Every slot failed: full refund, per pool
+-- ============================================
+INSERT INTO public.fal_requests (request_id, user_id, generation_id, variation_index, model_id, preset_id, style_id, status)
+VALUES
+  ('req-b1-0', '00000000-0000-0000-0000-0000000000b1', '20000000-0000-0000-0000-0000000000b1', 0, 'fal-ai/test', 'portrait', 'natural', 'failed'),
+  ('req-b1-1', '00000000-0000-0000-0000-0000000000b1', '20000000-0000-0000-0000-0000000000b1', 1, 'fal-ai/test', 'portrait', 'natural', 'queued');
+
+SELECT is(
+  public.fail_generation_with_refund('20000000-0000-0000-0000-0000000000b1', 'all_variations_failed'),
+  FALSE,
+  'a batch with a request still queued is not refunded'
+);
+
+UPDATE public.fal_requests SET status = 'failed' WHERE request_id = 'req-b1-1';
+
+SELECT is(
+  public.fail_generation_with_refund('20000000-0000-0000-0000-0000000000b1', 'all_variations_failed'),
+  TRUE,
+  'a batch with every slot failed is refunded straight away'
+);
+
+SELECT is(
+  (SELECT ROW(free_credits, image_credits, total_generations)::TEXT FROM public.credits
+   WHERE user_id = '00000000-0000-0000-0000-0000000000b1'),
+  ROW(0.25::NUMERIC, 3.00::NUMERIC, 0)::TEXT,
+  'each pool gets back what it was charged and the generation is uncounted'
+);
+
+SELECT is(
+  (SELECT status FROM public.generations WHERE id = '20000000-0000-0000-0000-0000000000b1'),
+  'failed',
+  'the batch is marked failed'
+);
+
+SELECT is(
+  (SELECT COUNT(*) FROM public.generation_sessions
+   WHERE generation_id = '20000000-0000-0000-0000-0000000000b1'),
+  0::BIGINT,
+  'its session is closed'
+);
+
+SELECT is(
+  public.fail_generation_with_refund('20000000-0000-0000-0000-0000000000b1', 'all_variations_failed'),
+  FALSE,
+  'a batch is refunded only once'
+);
+
+SELECT is(
+  (SELECT COUNT(*) FROM public.credit_transactions
+   WHERE generation_id = '20000000-0000-0000-0000-0000000000b1' AND kind = 'refund'),
+  2::BIGINT,
+  'one refund entry per pool charged'
+);
+
+-- ============================================
+-- Some images arrived: refund the rest at expiry
+-- ============================================
+INSERT INTO public.images (user_id, image_url, generation_batch_id, preset_id, image_index)
+VALUES
+  ('00000000-0000-0000-0000-0000000000b2', 'https://cdn.test/0.png', '20000000-0000-0000-0000-0000000000b2', 'portrait', 0),
+  ('00000000-0000-0000-0000-0000000000b2', 'https://cdn.test/1.png', '20000000-0000-0000-0000-0000000000b2', 'portrait', 1);
+
+SELECT is(
+  public.fail_generation_with_refund('20000000-0000-0000-0000-0000000000b2', 'all_variations_failed'),
+  FALSE,
+  'a partial batch is not refunded while its slots can be retried'
+);
+
+-- b3's session has expired too, but a slot was claimed moments ago
+UPDATE public.generation_sessions
+SET expires_at = NOW() - INTERVAL '1 minute'
+WHERE generation_id IN ('20000000-0000-0000-0000-0000000000b2', '20000000-0000-0000-0000-0000000000b3');
+
+UPDATE public.generation_sessions
+SET slots_in_flight = jsonb_build_object('3', NOW())
+WHERE generation_id = '20000000-0000-0000-0000-0000000000b3';
+
+DO $$ BEGIN PERFORM public.cleanup_expired_sessions(); END $$;
+
+SELECT is(
+  (SELECT ROW(free_credits, image_credits, total_generations)::TEXT FROM public.credits
+   WHERE user_id = '00000000-0000-0000-0000-0000000000b2'),
+  ROW(0.00::NUMERIC, 2.75::NUMERIC, 1)::TEXT,
+  'two missing images of four refund 0.50, to purchased credits first'
+);
+
+SELECT is(
+  (SELECT ROW(credits, reason, details->>'missing_images')::TEXT FROM public.credit_refunds
+   WHERE generation_id = '20000000-0000-0000-0000-0000000000b2'),
+  ROW(0.50::NUMERIC, 'session_expired', '2')::TEXT,
+  'the refund is recorded with the missing image count'
+);
+
+SELECT is(
+  (SELECT status FROM public.generations WHERE id = '20000000-0000-0000-0000-0000000000b2'),
+  'completed',
+  'a partial batch is marked completed'
+);
+
+SELECT is(
+  (SELECT COUNT(*) FROM public.generation_sessions
+   WHERE generation_id = '20000000-0000-0000-0000-0000000000b3'),
+  1::BIGINT,
+  'an expired session with a slot in flight is kept'
+);
+
+SELECT is(
+  (SELECT COUNT(*) FROM public.credit_refunds
+   WHERE generation_id = '20000000-0000-0000-0000-0000000000b3'),
+  0::BIGINT,
+  'a slot in flight is not refunded as missing'
+);
+
+-- ============================================
+-- Allowance period over: no refund
+-- ============================================
+UPDATE public.credits
+SET allowance_expires_at = NOW() - INTERVAL '1 minute'
+WHERE user_id = '00000000-0000-0000-0000-0000000000b4';
+
+SELECT is(
+  public.fail_generation_with_refund('20000000-0000-0000-0000-0000000000b4', 'all_variations_failed'),
+  FALSE,
+  'credits from a lapsed allowance are not refunded'
+);
+
+SELECT is(
+  (SELECT ROW(credits, details->>'allowance_expired')::TEXT FROM public.credit_refunds
+   WHERE generation_id = '20000000-0000-0000-0000-0000000000b4'),
+  ROW(0.00::NUMERIC, 'true')::TEXT,
+  'the skipped refund is still recorded'
+);
+
+SELECT is(
+  (SELECT status FROM public.generations WHERE id = '20000000-0000-0000-0000-0000000000b4'),
+  'failed',
+  'the batch is still marked failed'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
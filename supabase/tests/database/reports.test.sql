@@ -0,0 +1,130 @@
+-- Image reports (report_image)
+--
+-- Each user can report a public image once. At three open reports the image
+-- is taken off the feed (moderation_status 'reported') until a moderator
+-- reviews it, and only its owner can still see it.
+--
+-- Run: supabase test db
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', 'owner@test.local'),
+  ('00000000-0000-0000-0000-0000000000d2', 'reporter1@test.local'),
+  ('00000000-0000-0000-0000-0000000000d3', 'reporter2@test.local'),
+  ('00000000-0000-0000-0000-0000000000d4', 'reporter3@test.local'),
+  ('00000000-0000-0000-0000-0000000000d5', 'viewer@test.local');
+
+INSERT INTO public.images (id, user_id, image_url, generation_batch_id, preset_id, image_index, is_public, moderation_status)
+VALUES (
+  '50000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000d1', 'https://cdn.test/0.png',
+  gen_random_uuid(), 'portrait', 0, TRUE, 'approved'
+);
+
+-- ============================================
+-- Reports are counted once per user
+-- ============================================
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-0000000000d1"}';
+
+SELECT throws_ok(
+  $$SELECT public.report_image('50000000-0000-0000-0000-0000000000d1', 'spam')$$,
+  '23514',
+  'CANNOT_REPORT_OWN_IMAGE',
+  'an owner cannot report their own image'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-0000000000d5"}';
+
+SELECT is(
+  (SELECT COUNT(*) FROM public.images WHERE id = '50000000-0000-0000-0000-0000000000d1'),
+  1::BIGINT,
+  'a public image is on the feed'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-0000000000d2"}';
+
+SELECT is(
+  public.report_image('50000000-0000-0000-0000-0000000000d1', 'spam'),
+  FALSE,
+  'one report leaves the image on the feed'
+);
+
+SELECT is(
+  public.report_image('50000000-0000-0000-0000-0000000000d1', 'other', 'again'),
+  FALSE,
+  'reporting the same image twice is accepted'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-0000000000d3"}';
+
+SELECT is(
+  public.report_image('50000000-0000-0000-0000-0000000000d1', 'nudity'),
+  FALSE,
+  'a repeat report does not count towards the threshold'
+);
+
+RESET role;
+
+SELECT is(
+  (SELECT report_count FROM public.images WHERE id = '50000000-0000-0000-0000-0000000000d1'),
+  2,
+  'the image has one report per reporter'
+);
+
+-- ============================================
+-- The third report hides the image
+-- ============================================
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-0000000000d4"}';
+
+SELECT is(
+  public.report_image('50000000-0000-0000-0000-0000000000d1', 'harassment'),
+  TRUE,
+  'the third report takes the image off the feed'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-0000000000d5"}';
+
+SELECT is(
+  (SELECT COUNT(*) FROM public.images WHERE id = '50000000-0000-0000-0000-0000000000d1'),
+  0::BIGINT,
+  'a reported image is hidden from other users'
+);
+
+SELECT throws_ok(
+  $$SELECT public.report_image('50000000-0000-0000-0000-0000000000d1', 'spam')$$,
+  'P0002',
+  'IMAGE_NOT_FOUND',
+  'an image off the feed cannot be reported'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-0000000000d1"}';
+
+SELECT is(
+  (SELECT moderation_status FROM public.images WHERE id = '50000000-0000-0000-0000-0000000000d1'),
+  'reported',
+  'its owner still sees the image, marked reported'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.images SET is_public = TRUE WHERE id = '50000000-0000-0000-0000-0000000000d1'$$,
+  '23514',
+  NULL,
+  'its owner cannot share it again before review'
+);
+
+RESET role;
+
+SELECT is(
+  (SELECT COUNT(*) FROM public.image_reports
+   WHERE image_id = '50000000-0000-0000-0000-0000000000d1' AND status = 'open'),
+  3::BIGINT,
+  'the reports wait in the review queue'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,121 @@
+-- Session slots and retries (claim_session_slot, claim_session_retry,
+-- release_session_slot)
+--
+-- Each slot is claimed once. A retry is a compare-and-set on retry_count, so
+-- two retries read from the same session can't both pass, and a slot with a
+-- request in flight can't be retried until it's released.
+--
+-- Run: supabase test db
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', 'session@test.local');
+
+INSERT INTO public.generations (id, user_id, preset_id, style_id, status, credit_cost, image_count)
+VALUES ('30000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000c1', 'portrait', 'natural', 'in_progress', 1.00, 4);
+
+INSERT INTO public.generation_sessions (id, user_id, preset_id, style_id, image_url, image_count, expires_at, generation_id)
+VALUES (
+  '40000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000c1', 'portrait', 'natural',
+  'https://cdn.test/input.jpg', 4, NOW() + INTERVAL '1 minute', '30000000-0000-0000-0000-0000000000c1'
+);
+
+-- ============================================
+-- Each slot is claimed once
+-- ============================================
+SELECT is(
+  public.claim_session_slot('40000000-0000-0000-0000-0000000000c1', 0),
+  1,
+  'the first claim returns the number of requested slots'
+);
+
+SELECT is(
+  public.claim_session_slot('40000000-0000-0000-0000-0000000000c1', 0),
+  NULL,
+  'a slot already claimed is refused'
+);
+
+SELECT is(
+  public.claim_session_slot('40000000-0000-0000-0000-0000000000c1', 1),
+  2,
+  'another slot can still be claimed'
+);
+
+-- ============================================
+-- A slot in flight can't be retried
+-- ============================================
+SELECT is(
+  public.claim_session_retry('40000000-0000-0000-0000-0000000000c1', 0, 0, NOW() + INTERVAL '5 minutes'),
+  FALSE,
+  'a slot with a request in flight is not retried'
+);
+
+DO $$
+BEGIN
+  PERFORM public.release_session_slot('30000000-0000-0000-0000-0000000000c1', 0);
+END $$;
+
+SELECT is(
+  (SELECT slots_in_flight ? '0' FROM public.generation_sessions
+   WHERE id = '40000000-0000-0000-0000-0000000000c1'),
+  FALSE,
+  'a released slot is no longer in flight'
+);
+
+-- ============================================
+-- Retries are compare-and-set on retry_count
+-- ============================================
+SELECT is(
+  public.claim_session_retry('40000000-0000-0000-0000-0000000000c1', 0, 0, NOW() + INTERVAL '5 minutes'),
+  TRUE,
+  'a released slot can be retried'
+);
+
+SELECT is(
+  (SELECT ROW(retry_count, slots_in_flight ? '0', expires_at > NOW() + INTERVAL '4 minutes')::TEXT
+   FROM public.generation_sessions WHERE id = '40000000-0000-0000-0000-0000000000c1'),
+  ROW(1, TRUE, TRUE)::TEXT,
+  'a retry is counted, marks the slot in flight and extends the session'
+);
+
+DO $$
+BEGIN
+  PERFORM public.release_session_slot('30000000-0000-0000-0000-0000000000c1', 0);
+END $$;
+
+SELECT is(
+  public.claim_session_retry('40000000-0000-0000-0000-0000000000c1', 0, 0, NOW() + INTERVAL '5 minutes'),
+  FALSE,
+  'a retry read before another retry was granted is refused'
+);
+
+SELECT is(
+  (SELECT retry_count FROM public.generation_sessions WHERE id = '40000000-0000-0000-0000-0000000000c1'),
+  1,
+  'a refused retry is not counted'
+);
+
+-- A call that crashed without releasing its slot stops blocking retries
+UPDATE public.generation_sessions
+SET slots_in_flight = jsonb_build_object('1', NOW() - INTERVAL '4 minutes')
+WHERE id = '40000000-0000-0000-0000-0000000000c1';
+
+SELECT is(
+  public.claim_session_retry('40000000-0000-0000-0000-0000000000c1', 1, 1, NOW()),
+  TRUE,
+  'a slot claimed longer ago than a call can run is retried'
+);
+
+SELECT is(
+  (SELECT expires_at > NOW() + INTERVAL '4 minutes' FROM public.generation_sessions
+   WHERE id = '40000000-0000-0000-0000-0000000000c1'),
+  TRUE,
+  'a retry never shortens the session'
+);
+
+SELECT * FROM finish();
+ROLLBACK;